@@ -1,13 +1,14 @@
-import { app, BrowserWindow, Tray, Menu, nativeImage, ipcMain } from 'electron'
+import { app, BrowserWindow, Tray, Menu, nativeImage, ipcMain, dialog } from 'electron'
 import { autoUpdater } from 'electron-updater'
 import { fileURLToPath } from 'node:url'
 import path from 'node:path'
+import fs from 'node:fs'
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url))
 
 // Import embedded printer service
-// @ts-ignore - JS file has dynamic exports
-import { EmbeddedPrinterService } from './main-printer-service.js'
+import { EmbeddedPrinterService } from '../src/services/embeddedPrinterService'
+import { discoverPrinters } from '../src/services/printerDiscovery'
 
 // The built directory structure
 //
@@ -106,6 +107,9 @@ app.whenReady().then(async () => {
   
   // Start embedded printer service
   printerService = new EmbeddedPrinterService(8105)
+  printerService.setLogoSupport(process.env.VITE_PUBLIC!, decodeImage)
+  printerService.setPrintersFile(path.join(app.getPath('userData'), 'printers.json'))
+  printerService.setSpoolFile(path.join(app.getPath('userData'), 'print-spool.json'))
   try {
     await printerService.start()
     console.log('Embedded printer service started successfully')
@@ -113,6 +117,10 @@ app.whenReady().then(async () => {
     console.error('Failed to start embedded printer service:', error)
   }
   
+  setupSettingsStore()
+  setupCloseoutStore()
+  setupPrinterDiscovery()
+  setupFileExport()
   createWindow()
 
   // Create tray icon
@@ -153,6 +161,158 @@ app.whenReady().then(async () => {
   setupAutoUpdater()
 })
 
+// Decode a ticket logo for the printer service, scaled down to the paper width
+function decodeImage(bytes: Uint8Array, maxWidth: number) {
+  let image = nativeImage.createFromBuffer(Buffer.from(bytes))
+  if (image.isEmpty()) return null
+  if (image.getSize().width > maxWidth) {
+    image = image.resize({ width: maxWidth, quality: 'best' })
+  }
+  const { width, height } = image.getSize()
+  // nativeImage bitmaps are BGRA, the printer service expects RGBA
+  const data = new Uint8Array(image.toBitmap())
+  for (let i = 0; i < data.length; i += 4) {
+    const blue = data[i]
+    data[i] = data[i + 2]
+    data[i + 2] = blue
+  }
+  return { width, height, data }
+}
+
+// Station settings (service endpoints, ...) are kept in userData so that they
+// survive app updates and each machine can point at its own server
+function getSettingsPath() {
+  return path.join(app.getPath('userData'), 'settings.json')
+}
+
+function readSettings(): Record<string, unknown> {
+  try {
+    const raw = fs.readFileSync(getSettingsPath(), 'utf-8')
+    const parsed = JSON.parse(raw)
+    return parsed && typeof parsed === 'object' ? parsed : {}
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      console.error('Failed to read settings:', error)
+    }
+    return {}
+  }
+}
+
+function setupSettingsStore() {
+  ipcMain.handle('get-settings', () => {
+    return readSettings()
+  })
+
+  // Top-level sections are merged so each screen only saves what it owns
+  ipcMain.handle('save-settings', async (_event, patch: Record<string, unknown>) => {
+    try {
+      await writeJsonFile(getSettingsPath(), { ...readSettings(), ...patch })
+      return { success: true }
+    } catch (error) {
+      const err = error as Error
+      console.error('Failed to save settings:', err)
+      return { success: false, error: err.message }
+    }
+  })
+}
+
+// Write then rename so a crash never leaves a truncated file
+async function writeJsonFile(filePath: string, data: unknown) {
+  await fs.promises.mkdir(path.dirname(filePath), { recursive: true })
+  await fs.promises.writeFile(`${filePath}.tmp`, JSON.stringify(data, null, 2), 'utf-8')
+  await fs.promises.rename(`${filePath}.tmp`, filePath)
+}
+
+// Cash drawer close-outs are accounting records: kept in userData next to the
+// settings rather than in the renderer's storage, which a cache reset wipes
+function getCloseoutsPath() {
+  return path.join(app.getPath('userData'), 'closeouts.json')
+}
+
+function setupCloseoutStore() {
+  ipcMain.handle('get-closeouts', () => {
+    try {
+      const parsed = JSON.parse(fs.readFileSync(getCloseoutsPath(), 'utf-8'))
+      return Array.isArray(parsed) ? parsed : []
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error('Failed to read close-outs:', error)
+      }
+      return []
+    }
+  })
+
+  ipcMain.handle('save-closeouts', async (_event, closeouts: unknown[]) => {
+    try {
+      await writeJsonFile(getCloseoutsPath(), closeouts)
+      return { success: true }
+    } catch (error) {
+      const err = error as Error
+      console.error('Failed to save close-outs:', err)
+      return { success: false, error: err.message }
+    }
+  })
+}
+
+// Network scan for printers, run here because the renderer has no raw sockets
+function setupPrinterDiscovery() {
+  ipcMain.handle('discover-printers', async () => {
+    try {
+      return { success: true, printers: await discoverPrinters() }
+    } catch (error) {
+      const err = error as Error
+      console.error('Printer discovery failed:', err)
+      return { success: false, error: err.message }
+    }
+  })
+}
+
+const EXPORT_FILTERS: Record<string, Electron.FileFilter> = {
+  csv: { name: 'CSV', extensions: ['csv'] },
+  xlsx: { name: 'Excel', extensions: ['xlsx'] },
+  pdf: { name: 'PDF', extensions: ['pdf'] },
+}
+
+// Lay out an HTML report in a hidden window and print it to an A4 PDF
+async function renderPdf(html: string): Promise<Buffer> {
+  const pdfWindow = new BrowserWindow({ show: false, webPreferences: { javascript: false } })
+  try {
+    await pdfWindow.loadURL(`data:text/html;charset=utf-8;base64,${Buffer.from(html).toString('base64')}`)
+    return await pdfWindow.webContents.printToPDF({ pageSize: 'A4', printBackground: true })
+  } finally {
+    pdfWindow.destroy()
+  }
+}
+
+// Reports exported from the renderer, saved where the user picks; PDFs come
+// in as HTML and are rendered here
+function setupFileExport() {
+  ipcMain.handle('save-export', async (_event, request: { fileName: string; format: string; data: string | Uint8Array }) => {
+    try {
+      const filter = EXPORT_FILTERS[request.format]
+      if (!filter) {
+        return { success: false, error: `Format d'export inconnu: ${request.format}` }
+      }
+      const options = {
+        defaultPath: path.join(app.getPath('documents'), path.basename(request.fileName)),
+        filters: [filter],
+      }
+      const { canceled, filePath } = win ? await dialog.showSaveDialog(win, options) : await dialog.showSaveDialog(options)
+      if (canceled || !filePath) {
+        return { success: true, canceled: true }
+      }
+      const content =
+        request.format === 'pdf' ? await renderPdf(String(request.data)) : typeof request.data === 'string' ? Buffer.from(request.data, 'utf-8') : Buffer.from(request.data)
+      await fs.promises.writeFile(filePath, content)
+      return { success: true, filePath }
+    } catch (error) {
+      const err = error as Error
+      console.error('Export failed:', err)
+      return { success: false, error: err.message }
+    }
+  })
+}
+
 function setupAutoUpdater() {
   // Register IPC handler for app version (works in dev and prod)
   ipcMain.handle('get-app-version', () => {
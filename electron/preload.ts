@@ -26,6 +26,13 @@ contextBridge.exposeInMainWorld('electronAPI', {
   downloadUpdate: () => ipcRenderer.invoke('download-update'),
   installUpdate: () => ipcRenderer.invoke('install-update'),
   getAppVersion: () => ipcRenderer.invoke('get-app-version'),
+  getSettings: () => ipcRenderer.invoke('get-settings'),
+  saveSettings: (patch: Record<string, unknown>) => ipcRenderer.invoke('save-settings', patch),
+  getCloseouts: () => ipcRenderer.invoke('get-closeouts'),
+  saveCloseouts: (closeouts: unknown[]) => ipcRenderer.invoke('save-closeouts', closeouts),
+  discoverPrinters: () => ipcRenderer.invoke('discover-printers'),
+  saveExport: (request: { fileName: string; format: string; data: string | Uint8Array }) =>
+    ipcRenderer.invoke('save-export', request),
   on: (channel: string, callback: (event: Electron.IpcRendererEvent, ...args: unknown[]) => void) => {
     ipcRenderer.on(channel, callback)
   },
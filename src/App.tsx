@@ -2,18 +2,25 @@ import { useCallback, useEffect, useMemo, useState } from 'react'
 import './index.css'
 import InitScreen from '@/components/InitScreen'
 import LoginScreen from '@/components/LoginScreen'
-import { setAuthToken, logout } from '@/api/client'
+import { setAuthToken, logout, onSessionExpired, isTokenExpired, getStaffInfo } from '@/api/client'
+import { shiftCloseoutService } from '@/services/shiftCloseoutService'
 import SupervisorMain from '@/components/SupervisorMain'
+import SessionGuard from '@/components/SessionGuard'
 
 function App() {
   const [stage, setStage] = useState<'init' | 'login' | 'app'>('init')
   const [token, setToken] = useState<string | null>(null)
+  const [loginNotice, setLoginNotice] = useState<string | null>(null)
 
   const handleInitReady = useCallback(() => setStage('login'), [])
   const handleLoggedIn = useCallback((t: string, staffInfo: { firstName: string; lastName: string; role: string }) => {
     localStorage.setItem('userRole', staffInfo.role)
     setToken(t)
     setAuthToken(t)
+    // The cash drawer shift runs from the first login until its close-out
+    const staffId = getStaffInfo()?.staffId
+    if (staffId) shiftCloseoutService.startShift(staffId)
+    setLoginNotice(null)
     setStage('app')
   }, [])
   
@@ -23,10 +30,21 @@ function App() {
     setStage('login')
   }, [])
 
+  // The API client has already cleared the token; just leave SupervisorMain
+  useEffect(() => onSessionExpired(() => {
+    setToken(null)
+    setLoginNotice('Votre session a expiré, veuillez vous reconnecter')
+    setStage(current => (current === 'app' ? 'login' : current))
+  }), [])
+
   useEffect(() => {
     try {
       const saved = localStorage.getItem('authToken')
-      if (saved) {
+      if (saved && isTokenExpired(saved)) {
+        // Never restore an expired session at startup
+        logout()
+        setLoginNotice('Votre session a expiré, veuillez vous reconnecter')
+      } else if (saved) {
         setToken(saved)
         setAuthToken(saved)
         setStage('app')
@@ -36,9 +54,14 @@ function App() {
 
   const screen = useMemo(() => {
     if (stage === 'init') return <InitScreen onReady={handleInitReady} />
-    if (stage === 'login') return <LoginScreen onLoggedIn={handleLoggedIn} />
-    return <SupervisorMain onLogout={handleLogout} />
-  }, [stage, handleInitReady, handleLoggedIn, handleLogout, token])
+    if (stage === 'login') return <LoginScreen onLoggedIn={handleLoggedIn} notice={loginNotice} />
+    return (
+      <>
+        <SupervisorMain onLogout={handleLogout} />
+        <SessionGuard onLogout={handleLogout} />
+      </>
+    )
+  }, [stage, handleInitReady, handleLoggedIn, handleLogout, token, loginNotice])
 
   return screen
 }
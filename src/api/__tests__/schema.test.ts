@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { list, number, object, requiredNumber, requiredText, SchemaError, string, text } from '../schema';
+
+describe('schema readers', () => {
+  it('reads decimal strings as numbers', () => {
+    expect(number({ price: '4.500' }, 'price', 'route')).toBe(4.5);
+    expect(requiredNumber({ price: 4.5 }, 'price', 'route')).toBe(4.5);
+  });
+
+  it('reads an omitted count as its fallback', () => {
+    expect(number({}, 'availableSeats', 'entry')).toBe(0);
+    expect(number({ availableSeats: null }, 'availableSeats', 'entry', 8)).toBe(8);
+  });
+
+  it('rejects a missing required figure but keeps an explicit zero', () => {
+    expect(() => requiredNumber({}, 'capacity', 'vehicle')).toThrow(/vehicle\.capacity est manquant/);
+    expect(requiredNumber({ seats: 0 }, 'seats', 'booking')).toBe(0);
+  });
+
+  it('names the offending path when a value has the wrong type', () => {
+    expect(() => number({ price: 'abc' }, 'price', 'data[2]')).toThrow(SchemaError);
+    expect(() => number({ price: 'abc' }, 'price', 'data[2]')).toThrow(/data\[2\]\.price devrait être un nombre/);
+    expect(() => object([], 'data')).toThrow(/data devrait être un objet, reçu un tableau/);
+  });
+
+  it('stringifies numeric ids and rejects empty required text', () => {
+    expect(string(42, 'id')).toBe('42');
+    expect(text({}, 'name', 'station', 'N/A')).toBe('N/A');
+    expect(() => requiredText({ id: '' }, 'id', 'entry')).toThrow(/entry\.id est manquant/);
+  });
+
+  it('reads a null list as empty and indexes item errors', () => {
+    expect(list(null, 'data', string)).toEqual([]);
+    expect(() => list(['a', {}], 'data', string)).toThrow(/data\[1\] devrait être une chaîne/);
+  });
+});
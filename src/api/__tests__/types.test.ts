@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { parseBooking, parseCancelBookingResult, parseQueueEntry, parseQueueSummary, parseTrip } from '../types';
+
+const booking = { id: 'b1', queueId: 'q1', seatsBooked: 2, totalAmount: '9.300', createdAt: '2026-03-14T08:00:00' };
+
+describe('domain parsers', () => {
+  it('reads the counts a Go encoder omitted as zero', () => {
+    const entry = parseQueueEntry({ id: 'q1', vehicleId: 'v1', licensePlate: '123 TUN 4567', totalSeats: 8 }, 'data[0]');
+    expect(entry).toMatchObject({ availableSeats: 0, bookedSeats: 0, queuePosition: 0, totalSeats: 8, dayPassStatus: 'no_pass' });
+  });
+
+  it('rejects a queue entry without its capacity', () => {
+    expect(() => parseQueueEntry({ id: 'q1', vehicleId: 'v1' }, 'data[0]')).toThrow(/data\[0\]\.totalSeats est manquant/);
+  });
+
+  it('reads an empty destination summary but requires its price', () => {
+    expect(parseQueueSummary({ destinationId: 'd1', basePrice: 4.5 }, 'data[0]')).toMatchObject({
+      totalVehicles: 0,
+      totalSeats: 0,
+      availableSeats: 0,
+      basePrice: 4.5,
+    });
+    expect(() => parseQueueSummary({ destinationId: 'd1' }, 'data[0]')).toThrow(/basePrice est manquant/);
+  });
+
+  it('requires the capacity and price of a trip', () => {
+    expect(parseTrip({ id: 't1', vehicleCapacity: 8, basePrice: 4.5 }, 'data[0]').seatsBooked).toBe(0);
+    expect(() => parseTrip({ id: 't1', basePrice: 4.5 }, 'data[0]')).toThrow(/vehicleCapacity est manquant/);
+  });
+
+  it('requires the seats and amount of a booking', () => {
+    expect(parseBooking(booking, 'data[0]')).toMatchObject({ seatsBooked: 2, totalAmount: 9.3 });
+    expect(() => parseBooking({ ...booking, seatsBooked: undefined }, 'data[0]')).toThrow(/seatsBooked est manquant/);
+    expect(() => parseBooking({ ...booking, totalAmount: null }, 'data[0]')).toThrow(/totalAmount est manquant/);
+  });
+
+  it('keeps the refund of a cancellation only when the service sends one', () => {
+    expect(parseCancelBookingResult({ id: 'b1', refundAmount: '4.650' }, 'data')).toEqual({ id: 'b1', refundAmount: 4.65 });
+    expect(parseCancelBookingResult({ id: 'b1' }, 'data').refundAmount).toBeUndefined();
+    expect(() => parseCancelBookingResult({ id: 'b1', refundAmount: 'n/a' }, 'data')).toThrow(/data\.refundAmount devrait être un nombre/);
+  });
+});
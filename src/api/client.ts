@@ -1,9 +1,42 @@
 export type HttpMethod = "GET" | "POST" | "PUT" | "DELETE";
 
 import { API } from "@/config";
+import { listOf, noContent, SchemaError, type Parser } from "@/api/schema";
+import { ApiError, apiErrorFromResponse, networkError } from "@/api/errors";
+import {
+  parseAddToQueueResult,
+  parseAuthorizedStation,
+  parseBooking,
+  parseBookingResult,
+  parseCancelBookingResult,
+  parseDayPass,
+  parseDestination,
+  parseDestinationRoute,
+  parsePeriodIncome,
+  parseQueueEntry,
+  parseQueueSummary,
+  parseSeatTransferResult,
+  parseStaff,
+  parseStaffIncome,
+  parseStaffTransaction,
+  parseTrip,
+  parseVehicle,
+} from "@/api/types";
 
 let authToken: string | null = null;
 
+type SessionExpiredListener = (error: ApiError) => void;
+const sessionExpiredListeners = new Set<SessionExpiredListener>();
+
+// Notified when the backend refuses the current token (401/403); the token is
+// already cleared by then
+export function onSessionExpired(listener: SessionExpiredListener) {
+  sessionExpiredListeners.add(listener);
+  return () => {
+    sessionExpiredListeners.delete(listener);
+  };
+}
+
 // Initialize auth token from localStorage on module load (for refresh persistence)
 if (typeof window !== "undefined") {
   try {
@@ -29,21 +62,44 @@ export function getAuthToken() {
   return authToken;
 }
 
-export function getStaffInfo() {
-  const token = getAuthToken();
-  if (!token) return null;
+// JWT payloads are base64url encoded
+function decodeTokenPayload(token: string) {
   try {
-    const payload = JSON.parse(atob(token.split('.')[1]));
-    return {
-      staffId: payload.staff_id,
-      firstName: payload.first_name || '',
-      lastName: payload.last_name || '',
-    };
+    const part = token.split(".")[1].replace(/-/g, "+").replace(/_/g, "/");
+    return JSON.parse(atob(part.padEnd(Math.ceil(part.length / 4) * 4, "=")));
   } catch {
     return null;
   }
 }
 
+export function getStaffInfo() {
+  const token = getAuthToken();
+  if (!token) return null;
+  const payload = decodeTokenPayload(token);
+  if (!payload) return null;
+  return {
+    staffId: payload.staff_id,
+    firstName: payload.first_name || '',
+    lastName: payload.last_name || '',
+    stationId: typeof payload.station_id === 'string' ? payload.station_id : undefined,
+  };
+}
+
+// Expiry of a token in ms since epoch, null when the token carries no `exp`
+export function getTokenExpiry(token: string | null = authToken): number | null {
+  if (!token) return null;
+  const exp = decodeTokenPayload(token)?.exp;
+  return typeof exp === "number" ? exp * 1000 : null;
+}
+
+// A few seconds of margin so a request never leaves with a token about to die
+const TOKEN_EXPIRY_MARGIN_MS = 10_000;
+
+export function isTokenExpired(token: string | null = authToken): boolean {
+  const expiry = getTokenExpiry(token);
+  return expiry !== null && expiry - TOKEN_EXPIRY_MARGIN_MS <= Date.now();
+}
+
 export function logout() {
   setAuthToken(null);
   if (typeof window !== "undefined") {
@@ -54,63 +110,162 @@ export function logout() {
   }
 }
 
-async function request<T>(base: string, path: string, method: HttpMethod = "GET", body?: unknown): Promise<T> {
+type RequestOptions = {
+  // Send without the Authorization header (login, re-authentication)
+  anonymous?: boolean;
+  // Abort the call after this long (defaults to DEFAULT_TIMEOUT_MS)
+  timeoutMs?: number;
+  // Extra attempts on network/gateway failures; only GET is ever retried
+  retries?: number;
+  // Sent as Idempotency-Key on POSTs; reuse it when the operator retries the
+  // same action so the server applies it only once
+  idempotencyKey?: string;
+};
+
+export type MutationOptions = Pick<RequestOptions, "idempotencyKey" | "timeoutMs">;
+
+const DEFAULT_TIMEOUT_MS = 15000;
+const DEFAULT_GET_RETRIES = 2;
+const RETRY_BASE_DELAY_MS = 300;
+// Failures where the request may not have reached a healthy backend
+const RETRYABLE_STATUSES = [0, 502, 503, 504];
+
+export function newIdempotencyKey(): string {
+  if (typeof crypto !== "undefined" && typeof crypto.randomUUID === "function") return crypto.randomUUID();
+  return `${Date.now()}-${Math.random().toString(36).slice(2)}-${Math.random().toString(36).slice(2)}`;
+}
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+async function fetchWithTimeout(url: string, init: RequestInit, timeoutMs: number): Promise<Response> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    return await fetch(url, { ...init, signal: controller.signal });
+  } catch (error) {
+    if (controller.signal.aborted) {
+      throw new ApiError(0, "Le serveur ne répond pas (délai dépassé), réessayez", "TIMEOUT", `${timeoutMs}ms`);
+    }
+    throw networkError(error);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+async function request<T>(base: string, path: string, method: HttpMethod = "GET", body?: unknown, options: RequestOptions = {}): Promise<T> {
   const headers: Record<string, string> = { "Content-Type": "application/json" };
-  if (authToken) headers["Authorization"] = `Bearer ${authToken}`;
-  const res = await fetch(`${base}${path}`, {
-    method,
-    headers,
-    body: body ? JSON.stringify(body) : undefined,
-  });
-  if (!res.ok) {
-    const text = await res.text().catch(() => "");
-    throw new Error(`HTTP ${res.status}: ${text}`);
+  const token = options.anonymous ? null : authToken;
+  // An expired token is kept for the lock dialog to renew the same session;
+  // requests fail locally until then instead of logging the operator out
+  if (token && isTokenExpired(token)) {
+    throw new ApiError(401, "Session expirée, veuillez vous reconnecter", "TOKEN_EXPIRED");
+  }
+  const authenticated = !!token;
+  if (token) headers["Authorization"] = `Bearer ${token}`;
+  if (method === "POST") headers["Idempotency-Key"] = options.idempotencyKey ?? newIdempotencyKey();
+  const retries = method === "GET" ? options.retries ?? DEFAULT_GET_RETRIES : 0;
+
+  for (let attempt = 0; ; attempt++) {
+    let res: Response;
+    try {
+      res = await fetchWithTimeout(
+        `${base}${path}`,
+        { method, headers, body: body ? JSON.stringify(body) : undefined },
+        options.timeoutMs ?? DEFAULT_TIMEOUT_MS
+      );
+    } catch (error) {
+      if (attempt < retries) {
+        await sleep(RETRY_BASE_DELAY_MS * 2 ** attempt + Math.random() * 100);
+        continue;
+      }
+      throw error;
+    }
+    if (!res.ok) {
+      const error = await apiErrorFromResponse(res, authenticated);
+      if (attempt < retries && RETRYABLE_STATUSES.includes(error.status)) {
+        await sleep(RETRY_BASE_DELAY_MS * 2 ** attempt + Math.random() * 100);
+        continue;
+      }
+      console.error(`${method} ${path} failed:`, error.status, error.code, error.detail);
+      if (authenticated && error.isAuthError) {
+        logout();
+        sessionExpiredListeners.forEach((listener) => listener(error));
+      }
+      throw error;
+    }
+    return (await res.json()) as T;
+  }
+}
+
+// Same as request() but validates and normalises the `data` envelope
+async function requestData<T>(parse: Parser<T>, base: string, path: string, method: HttpMethod = "GET", body?: unknown, options?: RequestOptions): Promise<{ data: T }> {
+  const r = await request<{ data?: unknown } | null>(base, path, method, body, options);
+  try {
+    return { data: parse(r?.data, "data") };
+  } catch (error) {
+    if (error instanceof SchemaError) console.error(`Unexpected payload from ${method} ${path}:`, error.message, r);
+    throw error;
   }
-  return (await res.json()) as T;
 }
 
 // Auth
-export async function login(cin: string): Promise<{ data: { token: string; staff: { firstName: string; lastName: string } } }> {
-  const r = await request<{ data: { token: string; staff: { firstName: string; lastName: string } } }>(API.auth, "/api/v1/auth/login", "POST", { cin });
+type LoginResponse = { data: { token: string; staff: { firstName: string; lastName: string } } };
+
+export async function login(cin: string): Promise<LoginResponse> {
+  const r = await request<LoginResponse>(API.auth, "/api/v1/auth/login", "POST", { cin }, { anonymous: true });
   const token = r.data.token;
   setAuthToken(token);
   return r;
 }
 
+// Renew the session of the staff member currently signed in (lock dialog).
+// Another CIN is refused so the screens keep showing the right agent.
+export async function renewSession(cin: string): Promise<void> {
+  const current = getStaffInfo();
+  const r = await request<LoginResponse>(API.auth, "/api/v1/auth/login", "POST", { cin }, { anonymous: true });
+  const staffId = decodeTokenPayload(r.data.token)?.staff_id;
+  if (current?.staffId && staffId !== current.staffId) {
+    throw new ApiError(403, "Ce CIN ne correspond pas à l'agent connecté", "STAFF_MISMATCH");
+  }
+  setAuthToken(r.data.token);
+}
+
 // Queue management functions
 export async function listQueue(destinationId: string) {
-  return request<{ data: any[] }>(API.queue, `/api/v1/queue/${destinationId}`);
+  return requestData(listOf(parseQueueEntry), API.queue, `/api/v1/queue/${destinationId}`);
 }
 
 export async function listQueueSummaries() {
-  return request<{ data: Array<any> }>(API.queue, "/api/v1/queue-summaries");
+  return requestData(listOf(parseQueueSummary), API.queue, "/api/v1/queue-summaries");
 }
 
 export async function reorderQueue(destinationId: string, entryIds: string[]) {
-  return request<{ data: any }>(API.queue, `/api/v1/queue/${destinationId}/reorder`, "PUT", { entryIds });
+  return requestData(noContent, API.queue, `/api/v1/queue/${destinationId}/reorder`, "PUT", { entryIds });
 }
 
 export async function deleteQueueEntry(destinationId: string, entryId: string) {
-  return request<{ data: any }>(API.queue, `/api/v1/queue/${destinationId}/entry/${entryId}`, "DELETE");
+  return requestData(noContent, API.queue, `/api/v1/queue/${destinationId}/entry/${entryId}`, "DELETE");
 }
 
 export async function clearQueue(destinationId: string) {
-  return request<{ data: any }>(API.queue, `/api/v1/queue/${destinationId}/clear`, "DELETE");
+  return requestData(noContent, API.queue, `/api/v1/queue/${destinationId}/clear`, "DELETE");
 }
 
 export async function clearAllQueues() {
-  return request<{ data: any }>(API.queue, `/api/v1/queue/clear-all`, "DELETE");
+  return requestData(noContent, API.queue, `/api/v1/queue/clear-all`, "DELETE");
 }
 
 export async function changeDestination(destinationId: string, entryId: string, newDestinationId: string, newDestinationName: string) {
-  return request<{ data: any }>(API.queue, `/api/v1/queue/${destinationId}/entry/${entryId}/change-destination`, "PUT", {
+  return requestData(noContent, API.queue, `/api/v1/queue/${destinationId}/entry/${entryId}/change-destination`, "PUT", {
     newDestinationId,
     newDestinationName
   });
 }
 
 export async function transferSeats(destinationId: string, fromEntryId: string, toEntryId: string, seats: number) {
-  return request<{ data: any }>(API.queue, `/api/v1/queue/${destinationId}/transfer-seats`, "POST", {
+  return requestData(parseSeatTransferResult, API.queue, `/api/v1/queue/${destinationId}/transfer-seats`, "POST", {
     fromEntryId,
     toEntryId,
     seats
@@ -119,203 +274,158 @@ export async function transferSeats(destinationId: string, fromEntryId: string,
 
 // Vehicles CRUD (via queue service only for vehicles endpoints)
 export async function listVehicles() {
-  return request<{ data: Array<any> }>(API.queue, "/api/v1/vehicles");
+  return requestData(listOf(parseVehicle), API.queue, "/api/v1/vehicles");
 }
 
 export async function createVehicle(body: { licensePlate: string; capacity?: number; phoneNumber?: string | null; defaultDestinationId?: string; defaultDestinationName?: string }) {
-  return request<{ data: any }>(API.queue, "/api/v1/vehicles", "POST", body);
+  return requestData(parseVehicle, API.queue, "/api/v1/vehicles", "POST", body);
 }
 
 export async function updateVehicle(id: string, body: Partial<{ capacity: number; phoneNumber: string | null; isActive: boolean; isAvailable: boolean; isBanned: boolean; defaultDestinationId: string; defaultDestinationName: string }>) {
-  return request<{ data: any }>(API.queue, `/api/v1/vehicles/${id}`, "PUT", body);
+  return requestData(parseVehicle, API.queue, `/api/v1/vehicles/${id}`, "PUT", body);
 }
 
 export async function deleteVehicle(id: string) {
-  return request<{ data: any }>(API.queue, `/api/v1/vehicles/${id}`, "DELETE");
+  return requestData(noContent, API.queue, `/api/v1/vehicles/${id}`, "DELETE");
 }
 
 // Authorized stations per vehicle
 export async function listAuthorizedStations(vehicleId: string) {
-  return request<{ data: Array<any> }>(API.queue, `/api/v1/vehicles/${vehicleId}/authorized-routes`);
+  return requestData(listOf(parseAuthorizedStation), API.queue, `/api/v1/vehicles/${vehicleId}/authorized-routes`);
 }
 
 export async function addAuthorizedStation(vehicleId: string, body: { stationId: string; stationName?: string; priority?: number; isDefault?: boolean }) {
-  return request<{ data: any }>(API.queue, `/api/v1/vehicles/${vehicleId}/authorized-routes`, "POST", body);
+  return requestData(parseAuthorizedStation, API.queue, `/api/v1/vehicles/${vehicleId}/authorized-routes`, "POST", body);
 }
 
 export async function updateAuthorizedStation(vehicleId: string, authId: string, body: Partial<{ stationId: string; stationName: string; priority: number; isDefault: boolean }>) {
-  return request<{ data: any }>(API.queue, `/api/v1/vehicles/${vehicleId}/authorized-routes/${authId}`, "PUT", body);
+  return requestData(parseAuthorizedStation, API.queue, `/api/v1/vehicles/${vehicleId}/authorized-routes/${authId}`, "PUT", body);
 }
 
 export async function deleteAuthorizedStation(vehicleId: string, authId: string) {
-  return request<{ data: any }>(API.queue, `/api/v1/vehicles/${vehicleId}/authorized-routes/${authId}`, "DELETE");
+  return requestData(noContent, API.queue, `/api/v1/vehicles/${vehicleId}/authorized-routes/${authId}`, "DELETE");
 }
 
 // Statistics API
+// Station totals for today, in the same shape as a period
 export async function getTodayStationIncome(stationId: string) {
-  return request<{ data: any }>(API.statistics, `/api/v1/statistics/station/${stationId}/today`);
+  return requestData(parsePeriodIncome, API.statistics, `/api/v1/statistics/station/${stationId}/today`);
 }
 
 export async function getAllStaffIncomeForDate(dateISO?: string) {
   const q = dateISO ? `?date=${encodeURIComponent(dateISO)}` : "";
-  return request<{ data: Array<any> }>(API.statistics, `/api/v1/statistics/staff/all${q}`);
+  return requestData(listOf(parseStaffIncome), API.statistics, `/api/v1/statistics/staff/all${q}`);
 }
 
 export async function getStaffTransactions(staffId: string, dateISO?: string) {
   const q = dateISO ? `?date=${encodeURIComponent(dateISO)}` : "";
-  return request<{ data: Array<any> }>(API.statistics, `/api/v1/statistics/staff/${staffId}/transactions${q}`);
+  return requestData(listOf(parseStaffTransaction), API.statistics, `/api/v1/statistics/staff/${staffId}/transactions${q}`);
 }
 
-// Advanced statistics API - income by time period
-// Note: This endpoint returns ActualIncomeSummary (single object, not array)
+// Advanced statistics API - income by time period, bounds as ISO timestamps
+// Note: This endpoint returns a single summary object, not a per-staff array
 export async function getIncomeByTimePeriod(startTime: string, endTime: string) {
-  return request<{ data: any }>(API.statistics, `/api/v1/statistics/income/period?start=${encodeURIComponent(startTime)}&end=${encodeURIComponent(endTime)}`);
+  return requestData(parsePeriodIncome, API.statistics, `/api/v1/statistics/income/period?start=${encodeURIComponent(startTime)}&end=${encodeURIComponent(endTime)}`);
 }
 
 // Get income for specific day (all staff)
 export async function getIncomeForDay(date: string) {
-  return request<{ data: Array<any> }>(API.statistics, `/api/v1/statistics/staff/all?date=${encodeURIComponent(date)}`);
+  return requestData(listOf(parseStaffIncome), API.statistics, `/api/v1/statistics/staff/all?date=${encodeURIComponent(date)}`);
 }
 
 // Get income for current month (all staff)
 export async function getIncomeForMonth(year: number, month: number) {
-  return request<{ data: Array<any> }>(API.statistics, `/api/v1/statistics/staff/all-month?year=${year}&month=${month}`);
+  return requestData(listOf(parseStaffIncome), API.statistics, `/api/v1/statistics/staff/all-month?year=${year}&month=${month}`);
 }
 
 // Get actual income (base price + 0.150 for each booking)
 export async function getActualIncome(dateISO?: string) {
   const q = dateISO ? `?date=${encodeURIComponent(dateISO)}` : "";
-  return request<{ data: any }>(API.statistics, `/api/v1/statistics/income/actual${q}`);
+  return requestData(parsePeriodIncome, API.statistics, `/api/v1/statistics/income/actual${q}`);
 }
 
 // Get actual income for a specific month
 export async function getActualIncomeForMonth(year: number, month: number) {
-  return request<{ data: any }>(API.statistics, `/api/v1/statistics/income/month?year=${year}&month=${month}`);
+  return requestData(parsePeriodIncome, API.statistics, `/api/v1/statistics/income/month?year=${year}&month=${month}`);
 }
 
 // Get destination routes for income calculation
 export async function getDestinationRoutes() {
-  return request<{ data: Array<any> }>(API.queue, `/api/v1/routes`);
+  return requestData(listOf(parseDestinationRoute), API.queue, "/api/v1/routes");
 }
 
 // Get all destinations
 export async function getAllDestinations() {
-  return request<{ data: Array<{ id: string; name: string; basePrice: number; isActive: boolean }> }>(API.queue, "/api/v1/destinations");
+  return requestData(listOf(parseDestination), API.queue, "/api/v1/destinations");
 }
 
 // Staff CRUD (Go auth service on 192.168.0.193:8001)
 export async function listStaff() {
-  return request<{ data: Array<any> }>(API.auth, "/api/v1/staff/");
+  return requestData(listOf(parseStaff), API.auth, "/api/v1/staff/");
 }
 
 export async function createStaff(body: { firstName: string; lastName: string; cin: string; phoneNumber: string; role?: string }) {
-  return request<{ data: any }>(API.auth, "/api/v1/staff/", "POST", body);
+  return requestData(parseStaff, API.auth, "/api/v1/staff/", "POST", body);
 }
 
 export async function updateStaff(id: string, body: Partial<{ firstName: string; lastName: string; phoneNumber: string; role: string; isActive: boolean }>) {
-  return request<{ data: any }>(API.auth, `/api/v1/staff/${id}`, "PUT", body);
+  return requestData(parseStaff, API.auth, `/api/v1/staff/${id}`, "PUT", body);
 }
 
 export async function deleteStaff(id: string) {
-  return request<{ data: any }>(API.auth, `/api/v1/staff/${id}`, "DELETE");
+  return requestData(noContent, API.auth, `/api/v1/staff/${id}`, "DELETE");
 }
 
 export async function getVehicleAuthorizedRoutes(vehicleId: string) {
-  return request<{ data: Array<{ id: string; stationId: string; stationName: string; priority: number; isDefault: boolean }> }>(API.queue, `/api/v1/vehicles/${vehicleId}/authorized-routes`);
+  return requestData(listOf(parseAuthorizedStation), API.queue, `/api/v1/vehicles/${vehicleId}/authorized-routes`);
 }
 
 export async function searchVehicles(query: string) {
-  return request<{ data: Array<{ id: string; licensePlate: string; capacity: number; isActive: boolean; isAvailable: boolean }> }>(API.queue, `/api/v1/vehicles?search=${encodeURIComponent(query)}`);
-}
-
-export async function addVehicleToQueue(destinationId: string, vehicleId: string, destinationName: string) {
-  return request<{ 
-    data: { 
-      queueEntry: any; 
-      dayPass?: any;
-      dayPassValid?: any;
-      dayPassStatus: string;
-    } 
-  }>(API.queue, `/api/v1/queue/${destinationId}`, "POST", {
+  return requestData(listOf(parseVehicle), API.queue, `/api/v1/vehicles?search=${encodeURIComponent(query)}`);
+}
+
+export async function addVehicleToQueue(destinationId: string, vehicleId: string, destinationName: string, options?: MutationOptions) {
+  return requestData(parseAddToQueueResult, API.queue, `/api/v1/queue/${destinationId}`, "POST", {
     vehicleId,
     destinationId,
     destinationName
-  });
+  }, options);
 }
 
 export async function getVehicleDayPass(vehicleId: string) {
-  return request<{ data: any }>(API.queue, `/api/v1/day-pass/vehicle/${vehicleId}`);
-}
-
-export async function createBookingByDestination(payload: { destinationId: string; seats: number; subRoute?: string; preferExactFit?: boolean }) {
-  return request<{ data: any }>(API.booking, "/api/v1/bookings", "POST", payload);
-}
-
-export async function createBookingByQueueEntry(payload: { queueEntryId: string; seats: number }) {
-  return request<{ data: { 
-    bookings: Array<{ 
-      id: string; 
-      queueId: string; 
-      vehicleId: string; 
-      licensePlate: string; 
-      seatsBooked: number; 
-      seatNumber: number; 
-      totalAmount: number; 
-      bookingStatus: string; 
-      paymentStatus: string; 
-      createdBy: string; 
-      createdByName: string; 
-      createdAt: string 
-    }>;
-    exitPass?: {
-      id: string;
-      queueId: string;
-      vehicleId: string;
-      licensePlate: string;
-      destinationId: string;
-      destinationName: string;
-      previousVehicles: Array<{
-        licensePlate: string;
-        exitTime: string;
-      }>;
-      currentExitTime: string;
-      totalPrice: number;
-      createdBy: string;
-      createdByName: string;
-      createdAt: string;
-    };
-    hasExitPass: boolean;
-  } }>(API.booking, "/api/v1/bookings/by-queue-entry", "POST", payload);
+  // `data` is null when the vehicle has no valid day pass
+  return requestData((v, p) => (v ? parseDayPass(v, p) : null), API.queue, `/api/v1/day-pass/vehicle/${vehicleId}`);
+}
+
+export async function createBookingByDestination(payload: { destinationId: string; seats: number; subRoute?: string; preferExactFit?: boolean }, options?: MutationOptions) {
+  return requestData(parseBookingResult, API.booking, "/api/v1/bookings", "POST", payload, options);
+}
+
+export async function createBookingByQueueEntry(payload: { queueEntryId: string; seats: number }, options?: MutationOptions) {
+  return requestData(parseBookingResult, API.booking, "/api/v1/bookings/by-queue-entry", "POST", payload, options);
 }
 
 // Booking service
 
+export async function listBookingsByQueueEntry(queueEntryId: string) {
+  return requestData(listOf(parseBooking), API.booking, `/api/v1/bookings/by-queue-entry/${queueEntryId}`);
+}
+
 export async function cancelBooking(id: string) {
-  return request<{ data: any }>(API.booking, `/api/v1/bookings/${id}/cancel`, "PUT");
+  return requestData(parseCancelBookingResult, API.booking, `/api/v1/bookings/${id}/cancel`, "PUT");
 }
 
 export async function cancelOneBookingByQueueEntry(payload: { queueEntryId: string }) {
-  return request<{ data: { id: string } }>(API.booking, "/api/v1/bookings/cancel-one-by-queue-entry", "POST", payload);
+  return requestData(parseCancelBookingResult, API.booking, "/api/v1/bookings/cancel-one-by-queue-entry", "POST", payload);
 }
 
 export async function listTrips() {
-  return request<{ data: any[] }>(API.booking, "/api/v1/trips");
+  return requestData(listOf(parseTrip), API.booking, "/api/v1/trips");
 }
 
 export async function listTodayTrips(search?: string) {
   const qs = search ? `?search=${encodeURIComponent(search)}` : '';
-  return request<{ data: Array<{ 
-    id: string; 
-    licensePlate: string; 
-    destinationName: string; 
-    destinationId: string;
-    vehicleId: string;
-    seatsBooked: number; 
-    vehicleCapacity: number;
-    basePrice: number;
-    startTime: string;
-    createdAt: string;
-  }> }>(API.booking, `/api/v1/trips/today${qs}`);
+  return requestData(listOf(parseTrip), API.booking, `/api/v1/trips/today${qs}`);
 }
 
 export async function healthAuth() {
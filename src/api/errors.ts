@@ -0,0 +1,80 @@
+// Errors raised by the API client. Screens display `message` as is, so it is
+// always a French sentence meant for the operator; the backend wording is kept
+// in `detail` for the logs.
+
+export class ApiError extends Error {
+  readonly status: number;
+  readonly code?: string;
+  readonly detail?: string;
+
+  constructor(status: number, message: string, code?: string, detail?: string) {
+    super(message);
+    this.name = "ApiError";
+    this.status = status;
+    this.code = code;
+    this.detail = detail;
+  }
+
+  // The token was refused: the session is over
+  get isAuthError() {
+    return this.status === 401 || this.status === 403;
+  }
+}
+
+const STATUS_MESSAGES: Record<number, string> = {
+  400: "Requête invalide",
+  401: "Session expirée, veuillez vous reconnecter",
+  403: "Accès refusé, veuillez vous reconnecter",
+  404: "Élément introuvable",
+  409: "Conflit: les données ont été modifiées entre-temps",
+  422: "Données invalides",
+  429: "Trop de requêtes, réessayez dans un instant",
+};
+
+// Business errors (seat count, vehicle already queued...) whose backend
+// detail helps the operator
+const DETAILED_STATUSES = [400, 404, 409, 422];
+
+function messageForStatus(status: number) {
+  if (STATUS_MESSAGES[status]) return STATUS_MESSAGES[status];
+  if (status >= 500) return "Erreur du serveur, réessayez plus tard";
+  return `Erreur inattendue (HTTP ${status})`;
+}
+
+// Backends answer either `{ error: "..." }`, `{ error: { code, message } }`
+// or `{ code, message }`; anything else is kept verbatim as the detail
+function parseErrorBody(text: string): { code?: string; detail?: string } {
+  if (!text) return {};
+  try {
+    const body = JSON.parse(text);
+    const error = body?.error;
+    if (error && typeof error === "object") {
+      return { code: error.code, detail: error.message };
+    }
+    return {
+      code: typeof body?.code === "string" ? body.code : undefined,
+      detail: typeof error === "string" ? error : body?.message,
+    };
+  } catch {
+    return { detail: text };
+  }
+}
+
+export async function apiErrorFromResponse(res: Response, authenticated: boolean): Promise<ApiError> {
+  const text = await res.text().catch(() => "");
+  const { code, detail } = parseErrorBody(text);
+
+  // Without a token a 401 means the credentials themselves were refused
+  if (res.status === 401 && !authenticated) {
+    return new ApiError(res.status, "Identifiants invalides ou compte désactivé", code, detail);
+  }
+  const message = messageForStatus(res.status);
+  const withDetail = DETAILED_STATUSES.includes(res.status) && !!detail;
+  return new ApiError(res.status, withDetail ? `${message} (${detail})` : message, code, detail);
+}
+
+// fetch() itself failed: server down, wrong address or no network
+export function networkError(error: unknown): ApiError {
+  const detail = error instanceof Error ? error.message : String(error);
+  return new ApiError(0, "Serveur injoignable, vérifiez la connexion réseau", "NETWORK_ERROR", detail);
+}
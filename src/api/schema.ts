@@ -0,0 +1,110 @@
+// Runtime checks for backend payloads. Every reader validates one field and
+// returns it normalised; anything unexpected throws a SchemaError naming the
+// offending path instead of leaking NaN or undefined into the UI.
+
+export class SchemaError extends Error {
+  readonly path: string;
+
+  constructor(path: string, reason: string) {
+    super(`Réponse serveur invalide: ${path} ${reason}`);
+    this.name = "SchemaError";
+    this.path = path;
+  }
+}
+
+export type Parser<T> = (value: unknown, path: string) => T;
+
+type Fields = Record<string, unknown>;
+
+function describe(value: unknown) {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "un tableau";
+  return typeof value === "object" ? "un objet" : `${typeof value} (${String(value)})`;
+}
+
+export function object(value: unknown, path: string): Fields {
+  if (value === null || typeof value !== "object" || Array.isArray(value)) {
+    throw new SchemaError(path, `devrait être un objet, reçu ${describe(value)}`);
+  }
+  return value as Fields;
+}
+
+// Go services send `null` for empty slices, so a missing list is an empty list
+export function list<T>(value: unknown, path: string, item: Parser<T>): T[] {
+  if (value === null || value === undefined) return [];
+  if (!Array.isArray(value)) {
+    throw new SchemaError(path, `devrait être un tableau, reçu ${describe(value)}`);
+  }
+  return value.map((v, i) => item(v, `${path}[${i}]`));
+}
+
+export function listOf<T>(item: Parser<T>): Parser<T[]> {
+  return (value, path) => list(value, path, item);
+}
+
+// Acknowledgements whose body the screens never read; they reload instead
+export const noContent: Parser<null> = () => null;
+
+export function optional<T>(value: unknown, path: string, parser: Parser<T>): T | undefined {
+  return value === null || value === undefined ? undefined : parser(value, path);
+}
+
+// Identifiers and labels; numeric ids are accepted and stringified
+export function string(value: unknown, path: string): string {
+  if (typeof value === "string") return value;
+  if (typeof value === "number" && Number.isFinite(value)) return String(value);
+  throw new SchemaError(path, `devrait être une chaîne, reçu ${describe(value)}`);
+}
+
+export function text(obj: Fields, key: string, path: string, fallback = ""): string {
+  const value = obj[key];
+  return value === null || value === undefined ? fallback : string(value, `${path}.${key}`);
+}
+
+export function requiredText(obj: Fields, key: string, path: string): string {
+  const value = obj[key];
+  if (value === null || value === undefined || value === "") {
+    throw new SchemaError(`${path}.${key}`, "est manquant");
+  }
+  return string(value, `${path}.${key}`);
+}
+
+export function optionalText(obj: Fields, key: string, path: string): string | undefined {
+  return optional(obj[key], `${path}.${key}`, string);
+}
+
+// Amounts arrive as numbers or decimal strings depending on the service
+function toNumber(value: unknown, path: string): number {
+  const n = typeof value === "string" ? Number(value) : value;
+  if (typeof n !== "number" || !Number.isFinite(n)) {
+    throw new SchemaError(path, `devrait être un nombre, reçu ${describe(value)}`);
+  }
+  return n;
+}
+
+// Zero values are omitted by the Go encoders, hence the fallback: use it for
+// counts and amounts that can legitimately be 0
+export function number(obj: Fields, key: string, path: string, fallback = 0): number {
+  const value = obj[key];
+  if (value === null || value === undefined || value === "") return fallback;
+  return toNumber(value, `${path}.${key}`);
+}
+
+// Prices, capacities and the seats of a booking are never 0, so a missing
+// field is API drift rather than an omitted zero
+export function requiredNumber(obj: Fields, key: string, path: string): number {
+  const value = obj[key];
+  if (value === null || value === undefined || value === "") {
+    throw new SchemaError(`${path}.${key}`, "est manquant");
+  }
+  return toNumber(value, `${path}.${key}`);
+}
+
+export function boolean(obj: Fields, key: string, path: string, fallback = false): boolean {
+  const value = obj[key];
+  if (value === null || value === undefined) return fallback;
+  if (typeof value !== "boolean") {
+    throw new SchemaError(`${path}.${key}`, `devrait être un booléen, reçu ${describe(value)}`);
+  }
+  return value;
+}
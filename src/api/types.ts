@@ -0,0 +1,440 @@
+// Domain types shared by the API client and the screens, with the parsers that
+// validate and normalise backend payloads at the client boundary.
+import { boolean, list, number, object, optional, optionalText, requiredNumber, requiredText, SchemaError, text } from "@/api/schema";
+
+export type AuthorizedStation = {
+  id: string;
+  stationId: string;
+  stationName: string;
+  priority: number;
+  isDefault: boolean;
+};
+
+export type Vehicle = {
+  id: string;
+  licensePlate: string;
+  capacity: number;
+  phoneNumber?: string;
+  isActive: boolean;
+  isAvailable: boolean;
+  isBanned: boolean;
+  defaultDestinationId?: string;
+  defaultDestinationName?: string;
+  authorizedStations: AuthorizedStation[];
+};
+
+export type QueueEntry = {
+  id: string;
+  vehicleId: string;
+  licensePlate: string;
+  availableSeats: number;
+  totalSeats: number;
+  queuePosition: number;
+  bookedSeats: number;
+  status?: string;
+  hasDayPass: boolean;
+  dayPassStatus: string;
+  destinationId?: string;
+  destinationName?: string;
+  createdAt?: string;
+};
+
+export type QueueSummary = {
+  destinationId: string;
+  destinationName: string;
+  totalVehicles: number;
+  totalSeats: number;
+  availableSeats: number;
+  basePrice: number;
+};
+
+export type Destination = {
+  id: string;
+  name: string;
+  basePrice: number;
+  isActive: boolean;
+};
+
+export type Staff = {
+  id: string;
+  cin: string;
+  firstName: string;
+  lastName: string;
+  phoneNumber: string;
+  role: string;
+  isActive: boolean;
+};
+
+export type DayPass = {
+  id: string;
+  vehicleId: string;
+  licensePlate: string;
+  destinationId?: string;
+  destinationName?: string;
+  price: number;
+  purchaseDate: string;
+};
+
+export type AddToQueueResult = {
+  queueEntry: QueueEntry;
+  dayPass?: DayPass;
+  dayPassValid?: boolean;
+  dayPassStatus: string;
+};
+
+export type SeatTransferResult = {
+  fromEntry?: QueueEntry;
+  toEntry?: QueueEntry;
+};
+
+export type Trip = {
+  id: string;
+  licensePlate: string;
+  destinationName: string;
+  destinationId: string;
+  vehicleId: string;
+  seatsBooked: number;
+  vehicleCapacity: number;
+  basePrice: number;
+  startTime: string;
+  createdAt: string;
+};
+
+export type Booking = {
+  id: string;
+  queueId: string;
+  vehicleId: string;
+  licensePlate: string;
+  seatsBooked: number;
+  seatNumber: number;
+  totalAmount: number;
+  bookingStatus: string;
+  paymentStatus: string;
+  createdBy: string;
+  createdByName: string;
+  createdAt: string;
+};
+
+// Answer to a cancellation; the refund is only sent by recent booking services
+export type CancelBookingResult = {
+  id: string;
+  refundAmount?: number;
+};
+
+export type ExitPass = {
+  id: string;
+  queueId: string;
+  vehicleId: string;
+  licensePlate: string;
+  destinationId: string;
+  destinationName: string;
+  previousVehicles: Array<{
+    licensePlate: string;
+    exitTime: string;
+  }>;
+  currentExitTime: string;
+  totalPrice: number;
+  createdBy: string;
+  createdByName: string;
+  createdAt: string;
+};
+
+export type BookingResult = {
+  bookings: Booking[];
+  exitPass?: ExitPass;
+  hasExitPass: boolean;
+};
+
+export type StaffIncome = {
+  staffId: string;
+  staffName: string;
+  seatBookings: number;
+  seatIncome: number;
+  dayPassSales: number;
+  dayPassIncome: number;
+  totalIncome: number;
+};
+
+// Income summary between two instants, same totals as the staff breakdown
+export type PeriodIncome = {
+  totalSeatsBooked: number;
+  totalSeatIncome: number;
+  totalDayPassesSold: number;
+  totalDayPassIncome: number;
+  totalIncome: number;
+};
+
+export type StaffTransactionType = "booking" | "daypass" | "exitpass" | "cancellation";
+
+// One operation by a staff member: a seat booking, a day pass, an exit pass or
+// a cancelled booking, whose amount is the refund and is negative
+export type StaffTransaction = {
+  id: string;
+  type: StaffTransactionType;
+  licensePlate: string;
+  destinationName: string;
+  seats: number;
+  // Route price per seat, without the station fee
+  basePrice: number;
+  amount: number;
+  createdAt: string;
+};
+
+// A route served from this station, with the price of a seat to its destination
+export type DestinationRoute = {
+  id: string;
+  stationId: string;
+  stationName: string;
+  basePrice: number;
+  isActive: boolean;
+};
+
+export function parseAuthorizedStation(value: unknown, path: string): AuthorizedStation {
+  const o = object(value, path);
+  return {
+    id: requiredText(o, "id", path),
+    stationId: requiredText(o, "stationId", path),
+    stationName: text(o, "stationName", path),
+    priority: number(o, "priority", path),
+    isDefault: boolean(o, "isDefault", path),
+  };
+}
+
+export function parseVehicle(value: unknown, path: string): Vehicle {
+  const o = object(value, path);
+  return {
+    id: requiredText(o, "id", path),
+    licensePlate: requiredText(o, "licensePlate", path),
+    capacity: number(o, "capacity", path),
+    phoneNumber: optionalText(o, "phoneNumber", path),
+    isActive: boolean(o, "isActive", path),
+    isAvailable: boolean(o, "isAvailable", path),
+    isBanned: boolean(o, "isBanned", path),
+    defaultDestinationId: optionalText(o, "defaultDestinationId", path),
+    defaultDestinationName: optionalText(o, "defaultDestinationName", path),
+    authorizedStations: list(o.authorizedStations, `${path}.authorizedStations`, parseAuthorizedStation),
+  };
+}
+
+export function parseQueueEntry(value: unknown, path: string): QueueEntry {
+  const o = object(value, path);
+  return {
+    id: requiredText(o, "id", path),
+    vehicleId: requiredText(o, "vehicleId", path),
+    licensePlate: text(o, "licensePlate", path),
+    availableSeats: number(o, "availableSeats", path),
+    totalSeats: requiredNumber(o, "totalSeats", path),
+    queuePosition: number(o, "queuePosition", path),
+    bookedSeats: number(o, "bookedSeats", path),
+    status: optionalText(o, "status", path),
+    hasDayPass: boolean(o, "hasDayPass", path),
+    dayPassStatus: text(o, "dayPassStatus", path, "no_pass"),
+    destinationId: optionalText(o, "destinationId", path),
+    destinationName: optionalText(o, "destinationName", path),
+    createdAt: optionalText(o, "createdAt", path),
+  };
+}
+
+export function parseQueueSummary(value: unknown, path: string): QueueSummary {
+  const o = object(value, path);
+  return {
+    destinationId: requiredText(o, "destinationId", path),
+    destinationName: text(o, "destinationName", path),
+    totalVehicles: number(o, "totalVehicles", path),
+    totalSeats: number(o, "totalSeats", path),
+    availableSeats: number(o, "availableSeats", path),
+    basePrice: requiredNumber(o, "basePrice", path),
+  };
+}
+
+export function parseDestination(value: unknown, path: string): Destination {
+  const o = object(value, path);
+  return {
+    id: requiredText(o, "id", path),
+    name: requiredText(o, "name", path),
+    basePrice: number(o, "basePrice", path),
+    isActive: boolean(o, "isActive", path, true),
+  };
+}
+
+export function parseStaff(value: unknown, path: string): Staff {
+  const o = object(value, path);
+  return {
+    id: requiredText(o, "id", path),
+    cin: text(o, "cin", path),
+    firstName: text(o, "firstName", path),
+    lastName: text(o, "lastName", path),
+    phoneNumber: text(o, "phoneNumber", path),
+    role: text(o, "role", path, "WORKER"),
+    isActive: boolean(o, "isActive", path),
+  };
+}
+
+export function parseDayPass(value: unknown, path: string): DayPass {
+  const o = object(value, path);
+  return {
+    id: requiredText(o, "id", path),
+    vehicleId: text(o, "vehicleId", path),
+    licensePlate: text(o, "licensePlate", path),
+    destinationId: optionalText(o, "destinationId", path),
+    destinationName: optionalText(o, "destinationName", path),
+    price: number(o, "price", path),
+    purchaseDate: text(o, "purchaseDate", path),
+  };
+}
+
+export function parseAddToQueueResult(value: unknown, path: string): AddToQueueResult {
+  const o = object(value, path);
+  return {
+    queueEntry: parseQueueEntry(o.queueEntry, `${path}.queueEntry`),
+    dayPass: optional(o.dayPass, `${path}.dayPass`, parseDayPass),
+    dayPassValid: o.dayPassValid === undefined || o.dayPassValid === null ? undefined : boolean(o, "dayPassValid", path),
+    dayPassStatus: text(o, "dayPassStatus", path),
+  };
+}
+
+export function parseSeatTransferResult(value: unknown, path: string): SeatTransferResult {
+  if (value === null || value === undefined) return {};
+  const o = object(value, path);
+  return {
+    fromEntry: optional(o.fromEntry, `${path}.fromEntry`, parseQueueEntry),
+    toEntry: optional(o.toEntry, `${path}.toEntry`, parseQueueEntry),
+  };
+}
+
+export function parseTrip(value: unknown, path: string): Trip {
+  const o = object(value, path);
+  return {
+    id: requiredText(o, "id", path),
+    licensePlate: text(o, "licensePlate", path),
+    destinationName: text(o, "destinationName", path),
+    destinationId: text(o, "destinationId", path),
+    vehicleId: text(o, "vehicleId", path),
+    seatsBooked: number(o, "seatsBooked", path),
+    vehicleCapacity: requiredNumber(o, "vehicleCapacity", path),
+    basePrice: requiredNumber(o, "basePrice", path),
+    startTime: text(o, "startTime", path),
+    createdAt: text(o, "createdAt", path),
+  };
+}
+
+export function parseBooking(value: unknown, path: string): Booking {
+  const o = object(value, path);
+  return {
+    id: requiredText(o, "id", path),
+    queueId: text(o, "queueId", path),
+    vehicleId: text(o, "vehicleId", path),
+    licensePlate: text(o, "licensePlate", path),
+    seatsBooked: requiredNumber(o, "seatsBooked", path),
+    seatNumber: number(o, "seatNumber", path),
+    totalAmount: requiredNumber(o, "totalAmount", path),
+    bookingStatus: text(o, "bookingStatus", path),
+    paymentStatus: text(o, "paymentStatus", path),
+    createdBy: text(o, "createdBy", path),
+    createdByName: text(o, "createdByName", path),
+    createdAt: text(o, "createdAt", path),
+  };
+}
+
+export function parseCancelBookingResult(value: unknown, path: string): CancelBookingResult {
+  const o = object(value, path);
+  return {
+    id: requiredText(o, "id", path),
+    refundAmount: o.refundAmount === undefined || o.refundAmount === null ? undefined : number(o, "refundAmount", path),
+  };
+}
+
+export function parseExitPass(value: unknown, path: string): ExitPass {
+  const o = object(value, path);
+  return {
+    id: requiredText(o, "id", path),
+    queueId: text(o, "queueId", path),
+    vehicleId: text(o, "vehicleId", path),
+    licensePlate: text(o, "licensePlate", path),
+    destinationId: text(o, "destinationId", path),
+    destinationName: text(o, "destinationName", path),
+    previousVehicles: list(o.previousVehicles, `${path}.previousVehicles`, (v, p) => {
+      const prev = object(v, p);
+      return { licensePlate: text(prev, "licensePlate", p), exitTime: text(prev, "exitTime", p) };
+    }),
+    currentExitTime: text(o, "currentExitTime", path),
+    totalPrice: number(o, "totalPrice", path),
+    createdBy: text(o, "createdBy", path),
+    createdByName: text(o, "createdByName", path),
+    createdAt: text(o, "createdAt", path),
+  };
+}
+
+export function parseBookingResult(value: unknown, path: string): BookingResult {
+  const o = object(value, path);
+  return {
+    bookings: list(o.bookings, `${path}.bookings`, parseBooking),
+    exitPass: optional(o.exitPass, `${path}.exitPass`, parseExitPass),
+    hasExitPass: boolean(o, "hasExitPass", path),
+  };
+}
+
+export function parseStaffIncome(value: unknown, path: string): StaffIncome {
+  const o = object(value, path);
+  return {
+    staffId: requiredText(o, "staffId", path),
+    staffName: text(o, "staffName", path),
+    seatBookings: number(o, "seatBookings", path),
+    seatIncome: number(o, "seatIncome", path),
+    dayPassSales: number(o, "dayPassSales", path),
+    dayPassIncome: number(o, "dayPassIncome", path),
+    totalIncome: number(o, "totalIncome", path),
+  };
+}
+
+export function parsePeriodIncome(value: unknown, path: string): PeriodIncome {
+  const o = object(value, path);
+  return {
+    totalSeatsBooked: number(o, "totalSeatsBooked", path),
+    totalSeatIncome: number(o, "totalSeatIncome", path),
+    totalDayPassesSold: number(o, "totalDayPassesSold", path),
+    totalDayPassIncome: number(o, "totalDayPassIncome", path),
+    totalIncome: number(o, "totalIncome", path),
+  };
+}
+
+// The statistics service spells types as "day_pass", "DAY_PASS", "exit-pass"...
+// An unknown type is an error: counting it as a sale would skew the cash drawer
+function transactionType(value: string, path: string): StaffTransactionType {
+  const key = value.toLowerCase().replace(/[^a-z]/g, "");
+  if (key.includes("cancel") || key.includes("refund")) return "cancellation";
+  if (key.includes("daypass")) return "daypass";
+  if (key.includes("exit")) return "exitpass";
+  if (key.includes("book") || key.includes("seat")) return "booking";
+  throw new SchemaError(`${path}.type`, `inconnu (${value})`);
+}
+
+export function parseStaffTransaction(value: unknown, path: string): StaffTransaction {
+  const o = object(value, path);
+  const type = transactionType(requiredText(o, "type", path), path);
+  const amount = requiredNumber(o, o.amount === undefined || o.amount === null ? "totalAmount" : "amount", path);
+  return {
+    id: requiredText(o, "id", path),
+    type,
+    licensePlate: text(o, "licensePlate", path),
+    destinationName: text(o, "destinationName", path),
+    // Passes carry no seats; a cancellation may not say how many it released
+    seats: type === "booking" ? requiredNumber(o, "seatsBooked", path) : number(o, "seatsBooked", path),
+    // Not sent by every statistics version; the close-out falls back to the amount
+    basePrice: number(o, "basePrice", path),
+    // Services disagree on the sign of refunds
+    amount: type === "cancellation" ? -Math.abs(amount) : amount,
+    createdAt: text(o, "createdAt", path),
+  };
+}
+
+export function parseDestinationRoute(value: unknown, path: string): DestinationRoute {
+  const o = object(value, path);
+  return {
+    id: requiredText(o, "id", path),
+    stationId: text(o, "stationId", path, text(o, "destinationId", path)),
+    stationName: text(o, "stationName", path, text(o, "name", path)),
+    basePrice: number(o, "basePrice", path),
+    isActive: boolean(o, "isActive", path, true),
+  };
+}
@@ -0,0 +1,447 @@
+import { useEffect, useRef, useState } from 'react'
+import {
+  createBookingByDestination,
+  createBookingByQueueEntry,
+  getStaffInfo,
+  listQueue,
+  listTodayTrips,
+  newIdempotencyKey
+} from '@/api/client'
+import { printerService, PrintQueuedError, TicketData } from '@/services/printerService'
+import { STATION_FEE_PER_SEAT } from '@/config'
+import { offlineJournalService, isOfflineError, isUncertainOutcome } from '@/services/offlineJournalService'
+import type { Booking, BookingResult, ExitPass, QueueEntry, QueueSummary } from '@/api/types'
+
+type Props = {
+  isOpen: boolean
+  onClose: () => void
+  summaries: QueueSummary[]
+  initialDestinationId?: string
+  initialEntryId?: string
+  onBooked: (destinationId: string, result: BookingResult) => void
+  onNotify: (message: string, type: 'success' | 'error') => void
+}
+
+export default function BookingDesk({
+  isOpen,
+  onClose,
+  summaries,
+  initialDestinationId,
+  initialEntryId,
+  onBooked,
+  onNotify
+}: Props) {
+  const [destinationId, setDestinationId] = useState('')
+  const [entries, setEntries] = useState<QueueEntry[]>([])
+  const [loadingEntries, setLoadingEntries] = useState(false)
+  const [entryId, setEntryId] = useState('')
+  const [seatCount, setSeatCount] = useState(1)
+  const [booking, setBooking] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  // Set synchronously, unlike `booking`, so a double click cannot slip through
+  const inFlightRef = useRef(false)
+  // Idempotency key of the sale being attempted: clicking again after a
+  // timeout resends the same key so the server never sells the seats twice.
+  // `uncertain` once an attempt went unanswered and may have been recorded
+  const attemptRef = useRef<{ intent: string; key: string; uncertain?: boolean } | null>(null)
+
+  // Reset the form each time the desk is opened
+  useEffect(() => {
+    if (isOpen) {
+      setDestinationId(initialDestinationId || '')
+      setEntryId(initialEntryId || '')
+      setSeatCount(1)
+      setError(null)
+      attemptRef.current = null
+    }
+  }, [isOpen, initialDestinationId, initialEntryId])
+
+  useEffect(() => {
+    if (!isOpen || !destinationId) {
+      setEntries([])
+      return
+    }
+    let cancelled = false
+    setLoadingEntries(true)
+    listQueue(destinationId)
+      .then((response) => {
+        if (cancelled) return
+        offlineJournalService.rememberQueue(destinationId, response.data)
+        setEntries(response.data.filter((e) => e.availableSeats > 0))
+      })
+      .catch((err) => {
+        console.error('Failed to load queue for booking:', err)
+        if (cancelled) return
+        const cached = isOfflineError(err) ? offlineJournalService.getCachedQueue(destinationId) : null
+        setEntries((cached || []).filter((e) => e.availableSeats > 0))
+      })
+      .finally(() => {
+        if (!cancelled) setLoadingEntries(false)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [isOpen, destinationId])
+
+  if (!isOpen) return null
+
+  const destination = summaries.find((s) => s.destinationId === destinationId) || null
+  const entry = entries.find((e) => e.id === entryId) || null
+  const totalAvailable = entries.reduce((sum, e) => sum + e.availableSeats, 0)
+  const maxSeats = entry ? entry.availableSeats : totalAvailable
+  const seats = Math.max(1, seatCount || 1)
+  const basePrice = destination?.basePrice || 0
+  const baseTotal = basePrice * seats
+  const stationFeeTotal = STATION_FEE_PER_SEAT * seats
+  const grandTotal = baseTotal + stationFeeTotal
+  const canBook = !!destination && !booking && !loadingEntries && seats <= maxSeats
+
+  const printBookingTicket = async (record: Booking, staffName: string) => {
+    const staffInfo = getStaffInfo()
+    const ticketData: TicketData = {
+      licensePlate: record.licensePlate,
+      destinationName: destination?.destinationName || '',
+      seatNumber: record.seatsBooked,
+      totalAmount: Number(record.totalAmount),
+      stationFee: STATION_FEE_PER_SEAT,
+      basePrice,
+      createdBy: record.createdByName || staffName,
+      createdAt: record.createdAt || new Date().toISOString(),
+      stationName: 'Station',
+      routeName: destination?.destinationName || '',
+      staffFirstName: staffInfo?.firstName || '',
+      staffLastName: staffInfo?.lastName || '',
+    }
+    await printerService.printBookingTicket(ticketData)
+  }
+
+  // The gate checks exit passes against today's trips, so the QR code carries
+  // the id of the departure the pass was issued for. Without it the pass
+  // prints with its control code only
+  const departureIdFor = async (exitPass: ExitPass): Promise<string | undefined> => {
+    try {
+      const trips = (await listTodayTrips(exitPass.licensePlate)).data.filter((t) => (
+        t.vehicleId === exitPass.vehicleId && (!exitPass.destinationId || t.destinationId === exitPass.destinationId)
+      ))
+      return trips.sort((a, b) => b.startTime.localeCompare(a.startTime))[0]?.id
+    } catch (error) {
+      console.warn('Could not find the trip of the exit pass:', error)
+      return undefined
+    }
+  }
+
+  const printExitPass = async (exitPass: ExitPass, bookings: Booking[], staffName: string) => {
+    const staffInfo = getStaffInfo()
+    const vehicleEntry = entries.find((e) => e.id === exitPass.queueId)
+    const seatsOnBoard = vehicleEntry?.totalSeats
+      ?? bookings.filter((b) => b.queueId === exitPass.queueId).reduce((sum, b) => sum + b.seatsBooked, 0)
+    const ticketData: TicketData = {
+      passId: await departureIdFor(exitPass),
+      licensePlate: exitPass.licensePlate,
+      destinationName: exitPass.destinationName,
+      seatNumber: seatsOnBoard,
+      totalAmount: Number(exitPass.totalPrice),
+      basePrice,
+      createdBy: exitPass.createdByName || staffName,
+      createdAt: exitPass.currentExitTime || exitPass.createdAt || new Date().toISOString(),
+      stationName: 'Station',
+      routeName: exitPass.destinationName,
+      vehicleCapacity: vehicleEntry?.totalSeats,
+      exitPassCount: (exitPass.previousVehicles?.length || 0) + 1,
+      staffFirstName: staffInfo?.firstName || '',
+      staffLastName: staffInfo?.lastName || '',
+    }
+    await printerService.printExitPassTicket(ticketData)
+  }
+
+  // A new key only when the operator changes what is being sold
+  const idempotencyKeyFor = (intent: string) => {
+    if (attemptRef.current?.intent !== intent) {
+      attemptRef.current = { intent, key: newIdempotencyKey() }
+    }
+    return attemptRef.current.key
+  }
+
+  const handleBook = async () => {
+    if (inFlightRef.current) return
+    if (!destination) {
+      setError('Sélectionnez une destination')
+      return
+    }
+    if (seats > maxSeats) {
+      setError(`Seulement ${maxSeats} place(s) disponible(s)`)
+      return
+    }
+
+    setError(null)
+    setBooking(true)
+    inFlightRef.current = true
+    const idempotencyKey = idempotencyKeyFor(`${destination.destinationId}|${entry?.id || ''}|${seats}`)
+    try {
+      const response = entry
+        ? await createBookingByQueueEntry({ queueEntryId: entry.id, seats }, { idempotencyKey })
+        : await createBookingByDestination({ destinationId: destination.destinationId, seats }, { idempotencyKey })
+      const result = response.data
+      attemptRef.current = null
+
+      const staffInfo = getStaffInfo()
+      const staffName = staffInfo ? `${staffInfo.firstName} ${staffInfo.lastName}` : 'Agent'
+
+      // The booking is recorded at this point, printing failures must not hide it
+      const printErrors: unknown[] = []
+      for (const record of result.bookings || []) {
+        try {
+          await printBookingTicket(record, staffName)
+        } catch (printError) {
+          console.error('Failed to print booking ticket:', printError)
+          printErrors.push(printError)
+        }
+      }
+      if (result.hasExitPass && result.exitPass) {
+        try {
+          await printExitPass(result.exitPass, result.bookings || [], staffName)
+        } catch (printError) {
+          console.error('Failed to print exit pass:', printError)
+          printErrors.push(printError)
+        }
+      }
+
+      onBooked(destination.destinationId, result)
+      // A ticket that failed outright matters more than one waiting in the spool
+      const printError = printErrors.find((e) => !(e instanceof PrintQueuedError)) ?? printErrors[0]
+      if (printError !== undefined) {
+        const errorMsg = printError instanceof Error ? printError.message : String(printError)
+        onNotify(
+          printError instanceof PrintQueuedError
+            ? `Réservation enregistrée. ${errorMsg}`
+            : `Réservation enregistrée, erreur impression: ${errorMsg}`,
+          'error'
+        )
+      } else {
+        onNotify(
+          result.hasExitPass
+            ? `${seats} siège(s) réservé(s), laissez-passer imprimé`
+            : `${seats} siège(s) réservé(s) pour ${destination.destinationName}`,
+          'success'
+        )
+      }
+      onClose()
+    } catch (err) {
+      if (isUncertainOutcome(err)) {
+        // Only a retry with the same key can tell; journaling could sell the seats twice
+        if (attemptRef.current) attemptRef.current.uncertain = true
+        setError("Le serveur n'a pas confirmé la vente, elle a peut-être été enregistrée. Réessayez: elle ne sera pas comptée deux fois")
+        return
+      }
+      if (isOfflineError(err)) {
+        await bookOffline(destination, idempotencyKey)
+        return
+      }
+      console.error('Failed to create booking:', err)
+      setError(err instanceof Error ? err.message : String(err))
+    } finally {
+      inFlightRef.current = false
+      setBooking(false)
+    }
+  }
+
+  // Seats are sold on the last known queue and journaled; the ticket still
+  // prints because the printer service runs on this machine
+  const bookOffline = async (destination: QueueSummary, idempotencyKey: string) => {
+    // The journal replays bookings by queue entry. An unanswered booking by
+    // destination may already be on the server under another endpoint, where
+    // the replayed key would not be recognised
+    if (!entry && attemptRef.current?.uncertain) {
+      setError("Hors ligne: la vente précédente n'a pas été confirmée. Vérifiez-la quand le serveur répond avant de revendre")
+      return
+    }
+    const target = entry || entries.find((e) => e.availableSeats >= seats)
+    if (!target) {
+      setError(`Hors ligne: aucun véhicule avec ${seats} place(s) disponible(s)`)
+      return
+    }
+
+    // With a vehicle chosen the journal holds the exact request that failed,
+    // key included, so a copy that did reach the server is dropped on replay.
+    // By destination nothing reached it, and the booking moves to the vehicle
+    // picked here under a key of its own
+    offlineJournalService.record({
+      type: 'booking',
+      destinationId: destination.destinationId,
+      destinationName: destination.destinationName,
+      queueEntryId: target.id,
+      licensePlate: target.licensePlate,
+      seats,
+      totalAmount: grandTotal
+    }, entry ? idempotencyKey : undefined)
+    attemptRef.current = null
+
+    const staffInfo = getStaffInfo()
+    const staffName = staffInfo ? `${staffInfo.firstName} ${staffInfo.lastName}` : 'Agent'
+    const record: Booking = {
+      id: '',
+      queueId: target.id,
+      vehicleId: target.vehicleId,
+      licensePlate: target.licensePlate,
+      seatsBooked: seats,
+      seatNumber: 0,
+      totalAmount: Number(grandTotal.toFixed(3)),
+      bookingStatus: 'PENDING',
+      paymentStatus: 'PAID',
+      createdBy: staffInfo?.staffId || '',
+      createdByName: staffName,
+      createdAt: new Date().toISOString()
+    }
+
+    onBooked(destination.destinationId, { bookings: [], hasExitPass: false })
+    try {
+      await printBookingTicket(record, staffName)
+      onNotify(`Serveur injoignable: ${seats} siège(s) vendu(s) hors ligne sur ${target.licensePlate}`, 'success')
+    } catch (printError) {
+      console.error('Failed to print booking ticket:', printError)
+      const errorMsg = printError instanceof Error ? printError.message : String(printError)
+      onNotify(
+        printError instanceof PrintQueuedError
+          ? `Vente hors ligne enregistrée. ${errorMsg}`
+          : `Vente hors ligne enregistrée, erreur impression: ${errorMsg}`,
+        'error'
+      )
+    }
+    onClose()
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-xl mx-4 max-h-[90vh] overflow-y-auto">
+        <div className="p-6 space-y-4">
+          <div className="flex justify-between items-center">
+            <h2 className="text-xl font-semibold">Réserver des Sièges</h2>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-600 text-2xl leading-none"
+            >
+              ×
+            </button>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Destination</label>
+            <select
+              value={destinationId}
+              onChange={(e) => {
+                setDestinationId(e.target.value)
+                setEntryId('')
+              }}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="">Sélectionner une destination...</option>
+              {summaries.map((s) => (
+                <option key={s.destinationId} value={s.destinationId}>
+                  {s.destinationName} ({s.availableSeats} places dispo)
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {destination && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Véhicule</label>
+              {loadingEntries ? (
+                <div className="text-sm text-gray-500">Chargement...</div>
+              ) : entries.length === 0 ? (
+                <div className="text-sm text-red-600">Aucun véhicule avec des places disponibles</div>
+              ) : (
+                <div className="space-y-2 max-h-48 overflow-y-auto">
+                  <div
+                    onClick={() => setEntryId('')}
+                    className={`p-3 border rounded cursor-pointer transition-colors ${
+                      !entryId ? 'bg-blue-50 border-blue-500' : 'hover:bg-gray-50'
+                    }`}
+                  >
+                    <div className="font-medium">Premier véhicule disponible</div>
+                    <div className="text-xs text-gray-500">
+                      {totalAvailable} places disponibles sur {entries.length} véhicule(s)
+                    </div>
+                  </div>
+                  {entries.map((e) => (
+                    <div
+                      key={e.id}
+                      onClick={() => setEntryId(e.id)}
+                      className={`p-3 border rounded cursor-pointer transition-colors ${
+                        entryId === e.id ? 'bg-blue-50 border-blue-500' : 'hover:bg-gray-50'
+                      }`}
+                    >
+                      <div className="font-medium">#{e.queuePosition} - {e.licensePlate}</div>
+                      <div className="text-xs text-gray-500">
+                        {e.availableSeats} places disponibles sur {e.totalSeats}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Nombre de sièges</label>
+            <input
+              type="number"
+              min={1}
+              max={Math.max(1, maxSeats)}
+              value={seatCount}
+              onChange={(e) => {
+                const parsed = parseInt(e.target.value, 10)
+                setSeatCount(Number.isNaN(parsed) ? 1 : Math.max(1, parsed))
+              }}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            {destination && !loadingEntries && seats > maxSeats && (
+              <div className="text-xs text-red-600 mt-1">Seulement {maxSeats} place(s) disponible(s)</div>
+            )}
+          </div>
+
+          {destination && (
+            <div className="p-4 bg-gray-50 rounded-lg border space-y-2 text-sm">
+              <div className="flex justify-between">
+                <span>Prix par siège</span>
+                <span className="font-medium">{basePrice.toFixed(2)} TND</span>
+              </div>
+              <div className="flex justify-between">
+                <span>Total billets ({seats} sièges)</span>
+                <span className="font-medium">{baseTotal.toFixed(2)} TND</span>
+              </div>
+              <div className="flex justify-between">
+                <span>Frais station ({STATION_FEE_PER_SEAT.toFixed(3)} TND x {seats})</span>
+                <span className="font-medium">{stationFeeTotal.toFixed(3)} TND</span>
+              </div>
+              <div className="flex justify-between text-base font-semibold border-t pt-2">
+                <span>Montant TTC</span>
+                <span>{grandTotal.toFixed(3)} TND</span>
+              </div>
+            </div>
+          )}
+
+          {error && <div className="text-sm text-red-600">{error}</div>}
+
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300 transition-colors"
+            >
+              Annuler
+            </button>
+            <button
+              onClick={handleBook}
+              disabled={!canBook}
+              className={`px-4 py-2 rounded-md text-white transition-colors ${
+                canBook ? 'bg-blue-500 hover:bg-blue-600' : 'bg-blue-300 cursor-not-allowed'
+              }`}
+            >
+              {booking ? 'Réservation...' : 'Réserver et imprimer'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,238 @@
+import { useCallback, useEffect, useState } from 'react'
+import {
+  cancelBooking,
+  cancelOneBookingByQueueEntry,
+  getStaffInfo,
+  listBookingsByQueueEntry
+} from '@/api/client'
+import { printerService, TicketData } from '@/services/printerService'
+import { STATION_FEE_PER_SEAT } from '@/config'
+import type { Booking, CancelBookingResult, QueueEntry } from '@/api/types'
+
+type Props = {
+  isOpen: boolean
+  onClose: () => void
+  entry: QueueEntry | null
+  destinationName: string
+  basePrice: number
+  onCancelled: (entryId: string, seats: number) => void
+  onNotify: (message: string, type: 'success' | 'error') => void
+}
+
+// Refund covers the route base price plus the station fee for each cancelled seat
+function refundFor(seats: number, basePrice: number) {
+  return seats * (basePrice + STATION_FEE_PER_SEAT)
+}
+
+export default function BookingHistory({
+  isOpen,
+  onClose,
+  entry,
+  destinationName,
+  basePrice,
+  onCancelled,
+  onNotify
+}: Props) {
+  const [bookings, setBookings] = useState<Booking[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [cancellingId, setCancellingId] = useState<string | null>(null)
+  const [lastRefund, setLastRefund] = useState<{ seats: number; amount: number } | null>(null)
+
+  const entryId = entry?.id
+
+  const loadBookings = useCallback(async () => {
+    if (!entryId) return
+    setLoading(true)
+    setError(null)
+    try {
+      const response = await listBookingsByQueueEntry(entryId)
+      setBookings([...response.data].sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()))
+    } catch (err) {
+      console.error('Failed to load bookings:', err)
+      setBookings([])
+      setError('Erreur lors du chargement des réservations')
+    } finally {
+      setLoading(false)
+    }
+  }, [entryId])
+
+  useEffect(() => {
+    if (isOpen) {
+      setLastRefund(null)
+      loadBookings()
+    }
+  }, [isOpen, loadBookings])
+
+  if (!isOpen || !entry) return null
+
+  const activeBookings = bookings.filter((b) => b.bookingStatus !== 'CANCELLED')
+
+  const printCancellationReceipt = async (booking: Booking | undefined, seats: number, amount: number) => {
+    const staffInfo = getStaffInfo()
+    const staffName = staffInfo ? `${staffInfo.firstName} ${staffInfo.lastName}` : 'Agent'
+    const ticketData: TicketData = {
+      licensePlate: booking?.licensePlate || entry.licensePlate,
+      destinationName,
+      seatNumber: seats,
+      totalAmount: Number(amount.toFixed(3)),
+      stationFee: STATION_FEE_PER_SEAT,
+      basePrice,
+      createdBy: staffName,
+      createdAt: new Date().toISOString(),
+      stationName: 'Station',
+      routeName: destinationName,
+      staffFirstName: staffInfo?.firstName || '',
+      staffLastName: staffInfo?.lastName || '',
+      bookingId: booking?.id,
+    }
+    await printerService.printCancellationTicket(ticketData)
+  }
+
+  // Services that do not report the refund get the desk price
+  const completeCancellation = async (booking: Booking | undefined, seats: number, result: CancelBookingResult) => {
+    const refund = result.refundAmount
+    const amount = refund !== undefined && Number.isFinite(refund) ? refund : refundFor(seats, basePrice)
+    setLastRefund({ seats, amount })
+    onCancelled(entry.id, seats)
+
+    try {
+      await printCancellationReceipt(booking, seats, amount)
+      onNotify(`Réservation annulée, ${amount.toFixed(3)} TND à rembourser`, 'success')
+    } catch (printError) {
+      console.error('Failed to print cancellation receipt:', printError)
+      const errorMsg = printError instanceof Error ? printError.message : String(printError)
+      onNotify(`Réservation annulée, erreur impression reçu: ${errorMsg}`, 'error')
+    }
+    await loadBookings()
+  }
+
+  const handleCancelBooking = async (booking: Booking) => {
+    if (!confirm(`Annuler la réservation de ${booking.seatsBooked} siège(s) sur ${booking.licensePlate} ?`)) return
+    setCancellingId(booking.id)
+    try {
+      const response = await cancelBooking(booking.id)
+      await completeCancellation(booking, booking.seatsBooked, response.data)
+    } catch (err) {
+      console.error('Failed to cancel booking:', err)
+      const errorMsg = err instanceof Error ? err.message : String(err)
+      onNotify(`Erreur annulation: ${errorMsg}`, 'error')
+    } finally {
+      setCancellingId(null)
+    }
+  }
+
+  const handleCancelLastSeat = async () => {
+    if (!confirm(`Annuler le dernier siège vendu sur ${entry.licensePlate} ?`)) return
+    setCancellingId('last')
+    try {
+      const response = await cancelOneBookingByQueueEntry({ queueEntryId: entry.id })
+      const cancelled = bookings.find((b) => b.id === response.data.id)
+      // Only one seat is released even when it belonged to a multi-seat booking
+      await completeCancellation(cancelled, 1, response.data)
+    } catch (err) {
+      console.error('Failed to cancel last seat:', err)
+      const errorMsg = err instanceof Error ? err.message : String(err)
+      onNotify(`Erreur annulation: ${errorMsg}`, 'error')
+    } finally {
+      setCancellingId(null)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-2xl mx-4 max-h-[90vh] overflow-y-auto">
+        <div className="p-6 space-y-4">
+          <div className="flex justify-between items-center">
+            <h2 className="text-xl font-semibold">Réservations - {entry.licensePlate}</h2>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-600 text-2xl leading-none"
+            >
+              ×
+            </button>
+          </div>
+
+          <div className="p-3 bg-blue-50 rounded-lg text-sm">
+            <div className="font-semibold">{destinationName}</div>
+            <div className="text-gray-600">
+              {entry.bookedSeats}/{entry.totalSeats} sièges réservés - {entry.availableSeats} disponibles
+            </div>
+            <div className="text-xs text-gray-500 mt-1">
+              Remboursement par siège : {basePrice.toFixed(2)} TND + {STATION_FEE_PER_SEAT.toFixed(3)} TND de frais station
+            </div>
+          </div>
+
+          {lastRefund && (
+            <div className="p-3 bg-green-50 border border-green-200 rounded-lg text-sm text-green-800">
+              {lastRefund.seats} siège(s) annulé(s) - montant remboursé : <strong>{lastRefund.amount.toFixed(3)} TND</strong>
+            </div>
+          )}
+
+          {loading ? (
+            <div className="text-center py-8 text-gray-500">Chargement...</div>
+          ) : error ? (
+            <div className="text-sm text-red-600 bg-red-50 p-2 rounded">{error}</div>
+          ) : bookings.length === 0 ? (
+            <div className="text-center py-8 text-gray-500">Aucune réservation pour ce véhicule</div>
+          ) : (
+            <div className="space-y-2 max-h-80 overflow-y-auto">
+              {bookings.map((booking) => {
+                const cancelled = booking.bookingStatus === 'CANCELLED'
+                return (
+                  <div
+                    key={booking.id}
+                    className={`p-3 border rounded flex justify-between items-center ${cancelled ? 'bg-gray-50 opacity-60' : ''}`}
+                  >
+                    <div>
+                      <div className="font-medium">
+                        {booking.seatsBooked} siège(s) - {Number(booking.totalAmount).toFixed(3)} TND
+                      </div>
+                      <div className="text-xs text-gray-500">
+                        {new Date(booking.createdAt).toLocaleTimeString('fr-FR', { hour: '2-digit', minute: '2-digit' })}
+                        {booking.createdByName ? ` - ${booking.createdByName}` : ''}
+                        {cancelled ? ' - Annulée' : ''}
+                      </div>
+                    </div>
+                    {!cancelled && (
+                      <button
+                        onClick={() => handleCancelBooking(booking)}
+                        disabled={cancellingId !== null}
+                        className="px-3 py-1 text-sm bg-red-500 text-white rounded hover:bg-red-600 transition-colors disabled:bg-red-300 disabled:cursor-not-allowed"
+                      >
+                        {cancellingId === booking.id ? 'Annulation...' : 'Annuler'}
+                      </button>
+                    )}
+                  </div>
+                )
+              })}
+            </div>
+          )}
+
+          <div className="flex justify-between gap-2">
+            <button
+              onClick={handleCancelLastSeat}
+              disabled={cancellingId !== null || entry.bookedSeats === 0}
+              className="px-4 py-2 bg-orange-500 text-white rounded-md hover:bg-orange-600 transition-colors disabled:bg-orange-300 disabled:cursor-not-allowed"
+              title="Annuler le dernier siège vendu sur ce véhicule"
+            >
+              {cancellingId === 'last' ? 'Annulation...' : 'Annuler le dernier siège'}
+            </button>
+            <button
+              onClick={onClose}
+              className="px-4 py-2 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300 transition-colors"
+            >
+              Fermer
+            </button>
+          </div>
+
+          {activeBookings.length > 0 && (
+            <div className="text-xs text-gray-500 text-right">
+              {activeBookings.length} réservation(s) active(s)
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,220 @@
+import { useEffect, useState } from 'react'
+import { getDestinationRoutes, getTodayStationIncome, listTodayTrips } from '@/api/client'
+import type { PeriodIncome, Trip } from '@/api/types'
+import { endpointSettingsService } from '@/services/endpointSettingsService'
+import { summarizeDestinations, type DestinationStats } from '@/services/destinationAnalytics'
+
+interface DestinationAnalyticsProps {
+  // Bumped by the parent whenever the figures should be fetched again
+  refreshKey?: number
+}
+
+type Analytics = {
+  trips: Trip[]
+  destinations: DestinationStats[]
+  // Station totals, when the statistics service has them
+  stationIncome: PeriodIncome | null
+}
+
+const hourLabel = (hour: number) => `${String(hour).padStart(2, '0')}h`
+
+// Full vehicles call for more on the route, near-empty ones for fewer
+const loadClass = (loadFactor: number) => {
+  if (loadFactor >= 0.8) return 'bg-green-500'
+  if (loadFactor >= 0.5) return 'bg-orange-400'
+  return 'bg-red-400'
+}
+
+// Today's departures by destination: seats, load factor, revenue and demand per hour
+export default function DestinationAnalytics({ refreshKey }: DestinationAnalyticsProps) {
+  const [analytics, setAnalytics] = useState<Analytics | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    const stationId = endpointSettingsService.getStationId()
+    setLoading(true)
+    setError(null)
+    Promise.all([
+      listTodayTrips(),
+      // Routes and station totals only complete the picture; trips are enough
+      getDestinationRoutes().then((r) => r.data).catch((err) => {
+        console.warn('Could not load routes:', err)
+        return []
+      }),
+      stationId
+        ? getTodayStationIncome(stationId).then((r) => r.data).catch((err) => {
+            console.warn('Could not load station income:', err)
+            return null
+          })
+        : null,
+    ])
+      .then(([trips, routes, stationIncome]) => {
+        if (cancelled) return
+        setAnalytics({
+          trips: trips.data,
+          destinations: summarizeDestinations(trips.data, routes),
+          stationIncome,
+        })
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : String(err))
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [refreshKey])
+
+  const destinations = analytics?.destinations || []
+  const trips = analytics?.trips || []
+  const totalSeats = destinations.reduce((sum, d) => sum + d.seats, 0)
+  const totalRevenue = destinations.reduce((sum, d) => sum + d.revenue, 0)
+  const loads = trips.filter((t) => t.vehicleCapacity > 0).map((t) => Math.min(1, t.seatsBooked / t.vehicleCapacity))
+  const averageLoad = loads.length > 0 ? loads.reduce((sum, r) => sum + r, 0) / loads.length : 0
+
+  // Demand grid spans the hours between the first and the last departure
+  const departed = destinations.filter((d) => d.trips > 0)
+  const activeHours = Array.from({ length: 24 }, (_, hour) => hour).filter((hour) =>
+    departed.some((d) => d.hourlyTrips[hour] > 0)
+  )
+  const hours = activeHours.length > 0
+    ? Array.from({ length: activeHours[activeHours.length - 1] - activeHours[0] + 1 }, (_, i) => activeHours[0] + i)
+    : []
+  const maxHourSeats = Math.max(0, ...departed.flatMap((d) => hours.map((hour) => d.hourlySeats[hour])))
+
+  return (
+    <div className="bg-white border rounded-lg shadow-sm p-6">
+      <div className="mb-4">
+        <h3 className="font-semibold text-gray-800">Analyse par Destination</h3>
+        <p className="text-xs text-gray-500 mt-1">Départs du jour, taux de remplissage et demande par heure</p>
+      </div>
+
+      {loading && !analytics && <div className="text-center py-8 text-gray-500 text-sm">Chargement...</div>}
+      {error && <div className="text-center py-4 text-red-600 text-sm">{error}</div>}
+
+      {analytics && (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-4">
+            <div className="border rounded p-3">
+              <div className="text-xs text-gray-500">Départs</div>
+              <div className="text-xl font-bold text-gray-800">{trips.length}</div>
+            </div>
+            <div className="border rounded p-3">
+              <div className="text-xs text-gray-500">Sièges vendus</div>
+              <div className="text-xl font-bold text-gray-800">{totalSeats}</div>
+            </div>
+            <div className="border rounded p-3">
+              <div className="text-xs text-gray-500">Remplissage moyen</div>
+              <div className="text-xl font-bold text-gray-800">{Math.round(averageLoad * 100)}%</div>
+            </div>
+            <div className="border rounded p-3">
+              <div className="text-xs text-gray-500">{analytics.stationIncome ? 'Recettes station' : 'Revenus billets'}</div>
+              <div className="text-xl font-bold text-gray-800">
+                {(analytics.stationIncome?.totalIncome ?? totalRevenue).toFixed(3)} TND
+              </div>
+            </div>
+          </div>
+
+          {destinations.length === 0 ? (
+            <div className="text-center py-8 text-gray-500 text-sm">Aucun départ enregistré aujourd'hui</div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="bg-gray-50 border-b-2 border-gray-200">
+                    <th className="py-2 px-3 text-left font-semibold text-gray-700">Destination</th>
+                    <th className="py-2 px-3 text-right font-semibold text-gray-700">Départs</th>
+                    <th className="py-2 px-3 text-right font-semibold text-gray-700">Sièges</th>
+                    <th className="py-2 px-3 text-left font-semibold text-gray-700">Remplissage</th>
+                    <th className="py-2 px-3 text-right font-semibold text-gray-700">Revenus</th>
+                    <th className="py-2 px-3 text-right font-semibold text-gray-700">Part</th>
+                    <th className="py-2 px-3 text-right font-semibold text-gray-700">Heure de pointe</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {destinations.map((d) => (
+                    <tr key={d.destinationId || d.name} className={`border-b ${d.trips === 0 ? 'text-gray-400' : ''}`}>
+                      <td className="py-2 px-3 font-medium">{d.name}</td>
+                      <td className="py-2 px-3 text-right">{d.trips}</td>
+                      <td className="py-2 px-3 text-right">
+                        {d.seats}
+                        {d.capacity > 0 && <span className="text-xs text-gray-400"> / {d.capacity}</span>}
+                      </td>
+                      <td className="py-2 px-3">
+                        {d.trips > 0 && (
+                          <div className="flex items-center gap-2">
+                            <div className="w-24 bg-gray-200 rounded-full h-2">
+                              <div
+                                className={`h-2 rounded-full ${loadClass(d.loadFactor)}`}
+                                style={{ width: `${Math.round(d.loadFactor * 100)}%` }}
+                              ></div>
+                            </div>
+                            <span className="text-xs">{Math.round(d.loadFactor * 100)}%</span>
+                          </div>
+                        )}
+                      </td>
+                      <td className="py-2 px-3 text-right">{d.revenue.toFixed(3)} TND</td>
+                      <td className="py-2 px-3 text-right">
+                        {totalRevenue > 0 ? `${((d.revenue / totalRevenue) * 100).toFixed(1)}%` : '-'}
+                      </td>
+                      <td className="py-2 px-3 text-right">
+                        {d.peakHour !== null
+                          ? `${hourLabel(d.peakHour)} (${d.hourlyTrips[d.peakHour]} départ${d.hourlyTrips[d.peakHour] > 1 ? 's' : ''})`
+                          : '-'}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {hours.length > 0 && (
+            <div className="mt-6 overflow-x-auto">
+              <h4 className="text-sm font-medium text-gray-700 mb-2">Sièges par heure de départ</h4>
+              <table className="text-xs border-separate" style={{ borderSpacing: '2px' }}>
+                <thead>
+                  <tr>
+                    <th></th>
+                    {hours.map((hour) => (
+                      <th key={hour} className="font-normal text-gray-500 w-10">
+                        {hourLabel(hour)}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {departed.map((d) => (
+                    <tr key={d.destinationId || d.name}>
+                      <td className="pr-2 text-gray-700 whitespace-nowrap">{d.name}</td>
+                      {hours.map((hour) => {
+                        const seats = d.hourlySeats[hour]
+                        return (
+                          <td
+                            key={hour}
+                            className="h-7 text-center rounded"
+                            style={{
+                              backgroundColor: seats > 0 ? `rgba(59, 130, 246, ${0.15 + 0.85 * (seats / maxHourSeats)})` : '#F3F4F6',
+                              color: seats / maxHourSeats > 0.5 ? '#fff' : '#374151',
+                            }}
+                            title={`${d.name} ${hourLabel(hour)} - ${seats} sièges, ${d.hourlyTrips[hour]} départ(s)`}
+                          >
+                            {seats > 0 ? seats : ''}
+                          </td>
+                        )
+                      })}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
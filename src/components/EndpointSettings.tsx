@@ -0,0 +1,165 @@
+import { useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import type { ServiceEndpoints } from "@/config";
+import {
+  endpointSettingsService,
+  ENDPOINT_LABELS,
+  type EndpointErrors,
+  type EndpointKey,
+  type EndpointTestResult,
+} from "@/services/endpointSettingsService";
+
+type Props = { onSaved?: () => void };
+
+export default function EndpointSettings({ onSaved }: Props) {
+  const [endpoints, setEndpoints] = useState<ServiceEndpoints>(() => endpointSettingsService.getEndpoints());
+  const [stationId, setStationId] = useState(() => endpointSettingsService.getSavedStationId());
+  const [errors, setErrors] = useState<EndpointErrors>({});
+  const [results, setResults] = useState<Partial<Record<EndpointKey, EndpointTestResult>>>({});
+  const [testing, setTesting] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<{ text: string; type: "success" | "error" } | null>(null);
+
+  const keys = endpointSettingsService.getKeys();
+  const dirty =
+    keys.some((key) => endpoints[key] !== endpointSettingsService.getEndpoints()[key]) ||
+    stationId.trim() !== endpointSettingsService.getSavedStationId();
+
+  const updateEndpoint = (key: EndpointKey, value: string) => {
+    setEndpoints((prev) => ({ ...prev, [key]: value }));
+    setErrors((prev) => ({ ...prev, [key]: undefined }));
+    setResults((prev) => ({ ...prev, [key]: undefined }));
+    setMessage(null);
+  };
+
+  const testAll = async () => {
+    const validation = endpointSettingsService.validate(endpoints);
+    setErrors(validation);
+    if (Object.keys(validation).length > 0) return;
+
+    setTesting(true);
+    setResults({});
+    try {
+      const all = await endpointSettingsService.testAll(endpoints);
+      setResults(Object.fromEntries(all.map((r) => [r.key, r])));
+      const failed = all.filter((r) => !r.ok).length;
+      setMessage(
+        failed === 0
+          ? { text: "Tous les services répondent", type: "success" }
+          : { text: `${failed} service(s) ne répondent pas`, type: "error" }
+      );
+    } finally {
+      setTesting(false);
+    }
+  };
+
+  const save = async () => {
+    const validation = endpointSettingsService.validate(endpoints);
+    setErrors(validation);
+    if (Object.keys(validation).length > 0) return;
+
+    setSaving(true);
+    try {
+      await endpointSettingsService.save(endpoints);
+      await endpointSettingsService.saveStationId(stationId);
+      setEndpoints(endpointSettingsService.getEndpoints());
+      setStationId(endpointSettingsService.getSavedStationId());
+      setMessage({ text: "Paramètres enregistrés", type: "success" });
+      onSaved?.();
+    } catch (e) {
+      setMessage({ text: e instanceof Error ? e.message : String(e), type: "error" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const restoreDefaults = () => {
+    setEndpoints(endpointSettingsService.getDefaults());
+    setErrors({});
+    setResults({});
+    setMessage(null);
+  };
+
+  return (
+    <Card className="p-6 space-y-4">
+      <div>
+        <h2 className="text-xl font-semibold">Adresses des services</h2>
+        <p className="text-sm text-muted-foreground">
+          Serveurs utilisés par ce poste. Les changements sont conservés après redémarrage et mise à jour.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-[200px_1fr_160px] gap-2 items-start">
+        <label className="text-sm font-medium pt-2">Identifiant de la station</label>
+        <div>
+          <Input
+            value={stationId}
+            onChange={(e) => {
+              setStationId(e.target.value);
+              setMessage(null);
+            }}
+            placeholder="Station de l'agent connecté"
+          />
+          <p className="text-xs text-muted-foreground mt-1">
+            Files suivies en temps réel et recettes de la station. Vide: la station de l'agent connecté.
+          </p>
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        {keys.map((key) => {
+          const result = results[key];
+          return (
+            <div key={key} className="grid grid-cols-1 md:grid-cols-[200px_1fr_160px] gap-2 items-start">
+              <label className="text-sm font-medium pt-2">{ENDPOINT_LABELS[key]}</label>
+              <div>
+                <Input
+                  value={endpoints[key]}
+                  onChange={(e) => updateEndpoint(key, e.target.value)}
+                  placeholder={endpointSettingsService.getDefaults()[key]}
+                  className={errors[key] ? "border-red-500" : ""}
+                />
+                {errors[key] && <p className="text-xs text-red-600 mt-1">{errors[key]}</p>}
+              </div>
+              <div className="text-sm pt-2">
+                {testing && !result && <span className="text-muted-foreground">vérification…</span>}
+                {result &&
+                  (result.ok ? (
+                    <span className="text-green-600">ok ({result.latency} ms)</span>
+                  ) : (
+                    <span className="text-red-600" title={result.error}>
+                      hors service
+                    </span>
+                  ))}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {message && (
+        <div
+          className={`p-3 rounded-lg text-sm ${
+            message.type === "success" ? "bg-green-50 text-green-800" : "bg-red-50 text-red-700"
+          }`}
+        >
+          {message.text}
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-2 justify-end">
+        <Button variant="ghost" onClick={restoreDefaults} disabled={saving || testing}>
+          Valeurs par défaut
+        </Button>
+        <Button variant="outline" onClick={testAll} disabled={saving || testing}>
+          {testing ? "Test en cours…" : "Tester tous les services"}
+        </Button>
+        <Button onClick={save} disabled={saving || testing || !dirty}>
+          {saving ? "Enregistrement…" : "Enregistrer"}
+        </Button>
+      </div>
+    </Card>
+  );
+}
@@ -2,14 +2,67 @@ import { useState, useEffect, useRef } from 'react'
 import { 
   getAllStaffIncomeForDate,
   getIncomeForDay,
-  getIncomeForMonth
+  getIncomeForMonth,
+  getIncomeByTimePeriod,
+  listTrips
 } from '@/api/client'
 import { connectStatistics, type WSClient } from '@/ws/client'
 import { Button } from '@/components/ui/button'
 import { printerService, StatisticsReportData } from '@/services/printerService'
 import { getStaffInfo } from '@/api/client'
+import { exportStatistics, type ExportFormat } from '@/services/statisticsExport'
+import HourlyIncomeChart from './HourlyIncomeChart'
+import StaffTransactionsModal from './StaffTransactionsModal'
+import ShiftCloseoutReview from './ShiftCloseoutReview'
+import DestinationAnalytics from './DestinationAnalytics'
+import { summarizeDestinations, tripsBetween } from '@/services/destinationAnalytics'
 
-type DateRange = 'today' | 'specific-day' | 'month'
+type DateRange = 'today' | 'specific-day' | 'month' | 'week' | 'last-7-days' | 'year' | 'custom'
+
+const RANGES: Array<[DateRange, string]> = [
+  ['today', "Aujourd'hui"],
+  ['specific-day', 'Jour Spécifique'],
+  ['month', 'Ce Mois'],
+  ['week', 'Cette Semaine'],
+  ['last-7-days', '7 Derniers Jours'],
+  ['year', 'Depuis le 1er Janvier'],
+  ['custom', 'Personnalisée'],
+]
+
+// Shift windows for custom ranges; the night shift ends the next morning
+const SHIFTS = [
+  { label: 'Matin', start: '05:00', end: '13:00' },
+  { label: 'Après-midi', start: '13:00', end: '21:00' },
+  { label: 'Nuit', start: '21:00', end: '05:00' },
+]
+
+// Live sales refetch the charts at most this often, however many arrive
+const LIVE_CHART_INTERVAL_MS = 30_000
+
+const pad2 = (n: number) => String(n).padStart(2, '0')
+
+// YYYY-MM-DD in local time, unlike toISOString
+const localDate = (d: Date) => `${d.getFullYear()}-${pad2(d.getMonth() + 1)}-${pad2(d.getDate())}`
+
+const formatDateTime = (d: Date) =>
+  d.toLocaleString('fr-FR', { day: '2-digit', month: '2-digit', year: 'numeric', hour: '2-digit', minute: '2-digit' })
+
+// Preset ranges run from midnight of their first day until now
+const presetBounds = (range: 'week' | 'last-7-days' | 'year'): [Date, Date] => {
+  const now = new Date()
+  const start = new Date(now)
+  start.setHours(0, 0, 0, 0)
+  if (range === 'week') start.setDate(start.getDate() - ((start.getDay() + 6) % 7))
+  if (range === 'last-7-days') start.setDate(start.getDate() - 6)
+  if (range === 'year') start.setMonth(0, 1)
+  return [start, now]
+}
+
+// Ticket sales per destination from the trips that left within the bounds
+const loadDestinations = async ([start, end]: [Date, Date]): Promise<NonNullable<StatisticsReportData['destinationData']>> => {
+  const trips = tripsBetween((await listTrips()).data, start, end)
+  return summarizeDestinations(trips).map((d) => ({ name: d.name, trips: d.trips, seats: d.seats, income: d.revenue }))
+}
 
 export default function EnhancedStatistics() {
   const [loading, setLoading] = useState(false)
@@ -22,12 +75,69 @@ export default function EnhancedStatistics() {
   // Month selection
   const [selectedMonth, setSelectedMonth] = useState(new Date().getMonth() + 1)
   const [selectedYear, setSelectedYear] = useState(new Date().getFullYear())
+
+  // Custom range, as datetime-local values; the morning shift by default
+  const [customStart, setCustomStart] = useState(() => `${localDate(new Date())}T05:00`)
+  const [customEnd, setCustomEnd] = useState(() => `${localDate(new Date())}T13:00`)
+
+  // Day the figures are for, when they cover a single day: drives the hourly
+  // chart and the per-staff drill-down. The counters refetch the charts, all
+  // of them on a manual reload, only what a sale moves on live updates
+  const [statsDay, setStatsDay] = useState<string | null>(null)
+  const [chartRefresh, setChartRefresh] = useState(0)
+  const [liveRefresh, setLiveRefresh] = useState(0)
+  const liveTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+  const [drillStaff, setDrillStaff] = useState<{ id: string; name: string } | null>(null)
+  const [exporting, setExporting] = useState(false)
   
   // Statistics data
   const [stats, setStats] = useState<any>(null)
   const [actualIncome, setActualIncome] = useState<any>(null)
   const [wsConnected, setWsConnected] = useState(false)
 
+  const customBounds = (): [Date, Date] | null => {
+    const start = new Date(customStart)
+    const end = new Date(customEnd)
+    if (isNaN(start.getTime()) || isNaN(end.getTime()) || end <= start) return null
+    return [start, end]
+  }
+
+  const rangeBounds = (): [Date, Date] | null => {
+    if (dateRange === 'custom') return customBounds()
+    if (dateRange === 'week' || dateRange === 'last-7-days' || dateRange === 'year') return presetBounds(dateRange)
+    return null
+  }
+
+  // Bounds of whatever range is selected, day and month ranges included
+  const reportBounds = (): [Date, Date] | null => {
+    switch (dateRange) {
+      case 'today': {
+        const start = new Date()
+        start.setHours(0, 0, 0, 0)
+        return [start, new Date()]
+      }
+      case 'specific-day': {
+        if (!selectedDay) return null
+        const start = new Date(`${selectedDay}T00:00:00`)
+        const end = new Date(start)
+        end.setDate(end.getDate() + 1)
+        return [start, end]
+      }
+      case 'month':
+        return [new Date(selectedYear, selectedMonth - 1, 1), new Date(selectedYear, selectedMonth, 1)]
+      default:
+        return rangeBounds()
+    }
+  }
+
+  const applyShift = (shift: typeof SHIFTS[number]) => {
+    const day = customStart.split('T')[0] || localDate(new Date())
+    const end = new Date(`${day}T00:00:00`)
+    if (shift.end <= shift.start) end.setDate(end.getDate() + 1)
+    setCustomStart(`${day}T${shift.start}`)
+    setCustomEnd(`${localDate(end)}T${shift.end}`)
+  }
+
   const loadStatistics = async () => {
     setLoading(true)
     try {
@@ -39,32 +149,50 @@ export default function EnhancedStatistics() {
           dateISO = new Date().toISOString().split('T')[0]
           response = await getAllStaffIncomeForDate(dateISO)
           console.log('📋 Full API Response:', response)
+          setStatsDay(localDate(new Date()))
           break
         case 'specific-day':
           if (selectedDay) {
             response = await getIncomeForDay(selectedDay)
+            setStatsDay(selectedDay)
           }
           break
+        case 'week':
+        case 'last-7-days':
+        case 'year':
+        case 'custom': {
+          // The period endpoint returns totals only, without the staff breakdown
+          setStatsDay(null)
+          const bounds = rangeBounds()
+          if (!bounds) {
+            setStats(null)
+            return
+          }
+          const period = await getIncomeByTimePeriod(bounds[0].toISOString(), bounds[1].toISOString())
+          setStats({ totalStats: period.data, staffData: [] })
+          return
+        }
         case 'month':
           response = await getIncomeForMonth(selectedYear, selectedMonth)
           // Reset actual income when loading month data
           setActualIncome(null)
+          setStatsDay(null)
           break
       }
 
       if (response && response.data) {
         // Calculate total stats from staff data
-        const staffData = Array.isArray(response.data) ? response.data : []
+        const staffData = response.data
         console.log('📊 Staff Data:', staffData)
         
         // Only set stats if we have actual data
         if (staffData.length > 0) {
-          const totalStats = staffData.reduce((acc: any, staff: any) => ({
-            totalSeatsBooked: acc.totalSeatsBooked + (staff.seatBookings || 0),
-            totalSeatIncome: acc.totalSeatIncome + (Number(staff.seatIncome) || 0),
-            totalDayPassesSold: acc.totalDayPassesSold + (staff.dayPassSales || 0),
-            totalDayPassIncome: acc.totalDayPassIncome + (Number(staff.dayPassIncome) || 0),
-            totalIncome: acc.totalIncome + (Number(staff.totalIncome) || 0)
+          const totalStats = staffData.reduce((acc, staff) => ({
+            totalSeatsBooked: acc.totalSeatsBooked + staff.seatBookings,
+            totalSeatIncome: acc.totalSeatIncome + staff.seatIncome,
+            totalDayPassesSold: acc.totalDayPassesSold + staff.dayPassSales,
+            totalDayPassIncome: acc.totalDayPassIncome + staff.dayPassIncome,
+            totalIncome: acc.totalIncome + staff.totalIncome
           }), {
             totalSeatsBooked: 0,
             totalSeatIncome: 0,
@@ -90,6 +218,15 @@ export default function EnhancedStatistics() {
     }
   }
 
+  // Sales arriving together are charted once, when the interval runs out
+  const scheduleLiveRefresh = () => {
+    if (liveTimerRef.current) return
+    liveTimerRef.current = setTimeout(() => {
+      liveTimerRef.current = null
+      setLiveRefresh((n) => n + 1)
+    }, LIVE_CHART_INTERVAL_MS)
+  }
+
   useEffect(() => {
     loadStatistics()
   }, [dateRange])
@@ -121,6 +258,7 @@ export default function EnhancedStatistics() {
             message.type === 'staff_income_update') {
           console.log('Auto-refreshing statistics...')
           loadStatistics()
+          scheduleLiveRefresh()
         }
       }
     })
@@ -131,11 +269,13 @@ export default function EnhancedStatistics() {
     return () => {
       console.log('🧹 Cleaning up Statistics WebSocket connection...')
       wsClient.close()
+      if (liveTimerRef.current) clearTimeout(liveTimerRef.current)
     }
   }, []) // eslint-disable-line react-hooks/exhaustive-deps
 
   const handleLoad = () => {
     loadStatistics()
+    setChartRefresh((n) => n + 1)
   }
 
   // Helper function to convert image to base64
@@ -166,6 +306,113 @@ export default function EnhancedStatistics() {
     })
   }
 
+  // The loaded statistics as printed and exported, with the period label
+  const buildReportData = async (): Promise<StatisticsReportData> => {
+    // Staff rows as the table shows them
+    const printStaffChartData = stats?.staffData?.map((staff: any) => ({
+      name: staff.staffName || staff.staffId,
+      seats: staff.seatBookings || 0,
+      seatIncome: Number(staff.seatIncome) || 0,
+      dayPasses: staff.dayPassSales || 0,
+      dayPassIncome: Number(staff.dayPassIncome) || 0,
+      income: Number(staff.totalIncome) || 0
+    })) || []
+
+    // Get period label
+    let periodLabel = ''
+    switch (dateRange) {
+      case 'today':
+        periodLabel = `Aujourd'hui - ${new Date().toLocaleDateString('fr-FR', { 
+          day: '2-digit', 
+          month: 'long', 
+          year: 'numeric' 
+        })}`
+        break
+      case 'specific-day':
+        if (selectedDay) {
+          const date = new Date(selectedDay)
+          periodLabel = date.toLocaleDateString('fr-FR', { 
+            day: '2-digit', 
+            month: 'long', 
+            year: 'numeric' 
+          })
+        }
+        break
+      case 'month': {
+        const monthName = new Date(selectedYear, selectedMonth - 1).toLocaleString('fr', { month: 'long' })
+        periodLabel = `${monthName.charAt(0).toUpperCase() + monthName.slice(1)} ${selectedYear}`
+        break
+      }
+      default: {
+        const bounds = rangeBounds()
+        if (bounds) {
+          periodLabel = `${formatDateTime(bounds[0])} - ${formatDateTime(bounds[1])}`
+        }
+      }
+    }
+
+    // Get staff info for createdBy
+    const staffInfo = getStaffInfo()
+    const staffName = staffInfo ? `${staffInfo.firstName} ${staffInfo.lastName}` : 'System'
+
+    const notes: string[] = []
+    // Period totals come without the staff breakdown
+    const hasStaffBreakdown = dateRange === 'today' || dateRange === 'specific-day' || dateRange === 'month'
+    if (!hasStaffBreakdown) notes.push('Détail par agent non disponible pour cette période')
+
+    let destinationData: StatisticsReportData['destinationData']
+    const bounds = reportBounds()
+    try {
+      if (bounds) destinationData = await loadDestinations(bounds)
+    } catch (err) {
+      console.warn('Could not load destination breakdown:', err)
+      notes.push('Détail par destination non disponible: trajets non chargés')
+    }
+
+    return {
+      periodLabel,
+      totalSeatsBooked: stats.totalStats.totalSeatsBooked,
+      totalSeatIncome: Number(stats.totalStats.totalSeatIncome),
+      totalDayPassesSold: stats.totalStats.totalDayPassesSold,
+      totalDayPassIncome: Number(stats.totalStats.totalDayPassIncome),
+      totalIncome: Number(stats.totalStats.totalIncome),
+      staffData: hasStaffBreakdown ? printStaffChartData : undefined,
+      destinationData,
+      notes,
+      createdBy: staffName,
+      createdAt: new Date().toISOString()
+    }
+  }
+
+  const exportFileName = () => {
+    switch (dateRange) {
+      case 'today':
+        return `statistiques-${localDate(new Date())}`
+      case 'specific-day':
+        return `statistiques-${selectedDay}`
+      case 'month':
+        return `statistiques-${selectedYear}-${pad2(selectedMonth)}`
+      default: {
+        const bounds = rangeBounds()
+        return bounds ? `statistiques-${localDate(bounds[0])}-au-${localDate(bounds[1])}` : 'statistiques'
+      }
+    }
+  }
+
+  const handleExport = async (format: ExportFormat) => {
+    if (!stats?.totalStats) return
+    setExporting(true)
+    try {
+      const filePath = await exportStatistics(await buildReportData(), format, exportFileName())
+      if (filePath) alert(`Fichier enregistré: ${filePath}`)
+    } catch (error) {
+      console.error('Failed to export statistics:', error)
+      alert(`Erreur export: ${error instanceof Error ? error.message : String(error)}`)
+    } finally {
+      setExporting(false)
+    }
+  }
+
   const handlePrint = async () => {
     if (!stats?.totalStats) {
       alert('Aucune donnée à imprimer')
@@ -179,54 +426,7 @@ export default function EnhancedStatistics() {
     }
 
     try {
-      // Compute staff chart data for printing
-      const printStaffChartData = stats?.staffData?.map((staff: any) => ({
-        name: staff.staffName || staff.staffId,
-        seats: staff.seatBookings || 0,
-        seatIncome: Number(staff.seatIncome) || 0,
-        dayPasses: staff.dayPassSales || 0,
-        dayPassIncome: Number(staff.dayPassIncome) || 0,
-        income: Number(staff.totalIncome) || 0
-      })) || []
-
-      // Get period label
-      let periodLabel = ''
-      switch (dateRange) {
-        case 'today':
-          periodLabel = `Aujourd'hui - ${new Date().toLocaleDateString('fr-FR', { 
-            day: '2-digit', 
-            month: 'long', 
-            year: 'numeric' 
-          })}`
-          break
-        case 'specific-day':
-          if (selectedDay) {
-            const date = new Date(selectedDay)
-            periodLabel = date.toLocaleDateString('fr-FR', { 
-              day: '2-digit', 
-              month: 'long', 
-              year: 'numeric' 
-            })
-          }
-          break
-      }
-
-      // Get staff info for createdBy
-      const staffInfo = getStaffInfo()
-      const staffName = staffInfo ? `${staffInfo.firstName} ${staffInfo.lastName}` : 'System'
-
-      // Prepare statistics report data
-      const reportData: StatisticsReportData = {
-        periodLabel,
-        totalSeatsBooked: stats.totalStats.totalSeatsBooked,
-        totalSeatIncome: Number(stats.totalStats.totalSeatIncome),
-        totalDayPassesSold: stats.totalStats.totalDayPassesSold,
-        totalDayPassIncome: Number(stats.totalStats.totalDayPassIncome),
-        totalIncome: Number(stats.totalStats.totalIncome),
-        staffData: printStaffChartData,
-        createdBy: staffName,
-        createdAt: new Date().toISOString()
-      }
+      const reportData = await buildReportData()
 
       // Print using printer service
       await printerService.printStatisticsReport(reportData)
@@ -621,6 +821,7 @@ export default function EnhancedStatistics() {
   ] : []
 
   const staffChartData = stats?.staffData?.map((staff: any) => ({
+    id: staff.staffId,
     name: staff.staffName || staff.staffId,
     seats: staff.seatBookings || 0,
     seatIncome: Number(staff.seatIncome) || 0,
@@ -649,6 +850,19 @@ export default function EnhancedStatistics() {
             <p className="text-xs text-gray-500 mt-1">Sélectionnez la période pour consulter les statistiques</p>
           </div>
           <div className="flex gap-2">
+            {!loading && stats?.totalStats && stats.totalStats.totalIncome > 0 && (
+              ([['csv', 'CSV'], ['xlsx', 'Excel'], ['pdf', 'PDF']] as Array<[ExportFormat, string]>).map(([format, label]) => (
+                <Button
+                  key={format}
+                  onClick={() => handleExport(format)}
+                  disabled={exporting}
+                  variant="outline"
+                  size="default"
+                >
+                  Exporter {label}
+                </Button>
+              ))
+            )}
             {dateRange === 'month' && !loading && stats?.totalStats && stats.totalStats.totalIncome > 0 && (
               <Button
                 onClick={handlePrintMonthlySummary}
@@ -672,33 +886,71 @@ export default function EnhancedStatistics() {
           </div>
         </div>
         
-        <div className="grid grid-cols-3 gap-3 mb-3">
-          <button
-            onClick={() => setDateRange('today')}
-            className={`px-3 py-2 rounded text-sm ${
-              dateRange === 'today' ? 'bg-blue-500 text-white' : 'bg-gray-200'
-            }`}
-          >
-            Aujourd'hui
-          </button>
-          <button
-            onClick={() => setDateRange('specific-day')}
-            className={`px-3 py-2 rounded text-sm ${
-              dateRange === 'specific-day' ? 'bg-blue-500 text-white' : 'bg-gray-200'
-            }`}
-          >
-            Jour Spécifique
-          </button>
-          <button
-            onClick={() => setDateRange('month')}
-            className={`px-3 py-2 rounded text-sm ${
-              dateRange === 'month' ? 'bg-blue-500 text-white' : 'bg-gray-200'
-            }`}
-          >
-            Ce Mois
-          </button>
+        <div className="grid grid-cols-4 md:grid-cols-7 gap-3 mb-3">
+          {RANGES.map(([range, label]) => (
+            <button
+              key={range}
+              onClick={() => setDateRange(range)}
+              className={`px-3 py-2 rounded text-sm ${
+                dateRange === range ? 'bg-blue-500 text-white' : 'bg-gray-200'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
         </div>
 
+        {(dateRange === 'week' || dateRange === 'last-7-days' || dateRange === 'year') && (
+          <p className="text-xs text-gray-500">
+            Du {formatDateTime(presetBounds(dateRange)[0])} à maintenant
+          </p>
+        )}
+
+        {dateRange === 'custom' && (
+          <div className="space-y-2">
+            <div className="flex gap-3 items-end">
+              <div className="flex-1">
+                <label className="text-xs text-gray-500 mb-1 block">Début</label>
+                <input
+                  type="datetime-local"
+                  value={customStart}
+                  onChange={(e) => setCustomStart(e.target.value)}
+                  className="w-full px-3 py-2 border rounded"
+                />
+              </div>
+              <div className="flex-1">
+                <label className="text-xs text-gray-500 mb-1 block">Fin</label>
+                <input
+                  type="datetime-local"
+                  value={customEnd}
+                  onChange={(e) => setCustomEnd(e.target.value)}
+                  className="w-full px-3 py-2 border rounded"
+                />
+              </div>
+              <button
+                onClick={handleLoad}
+                disabled={!customBounds()}
+                className="px-4 py-2 bg-blue-500 text-white rounded disabled:bg-gray-300"
+              >
+                Charger
+              </button>
+            </div>
+            <div className="flex gap-2 items-center text-xs">
+              <span className="text-gray-500">Services :</span>
+              {SHIFTS.map((shift) => (
+                <button
+                  key={shift.label}
+                  onClick={() => applyShift(shift)}
+                  className="px-2 py-1 rounded bg-gray-100 hover:bg-gray-200"
+                >
+                  {shift.label} {shift.start}-{shift.end}
+                </button>
+              ))}
+            </div>
+            {!customBounds() && <p className="text-xs text-red-600">La fin doit être après le début</p>}
+          </div>
+        )}
+
         {dateRange === 'specific-day' && (
           <div className="flex gap-3 items-end">
             <div className="flex-1">
@@ -757,6 +1009,13 @@ export default function EnhancedStatistics() {
 
       {loading && <div className="text-center py-8 text-gray-500">Chargement...</div>}
 
+      {statsDay && (dateRange === 'today' || dateRange === 'specific-day') && (
+        <HourlyIncomeChart date={statsDay} refreshKey={chartRefresh} liveKey={liveRefresh} />
+      )}
+
+      {/* Trips are only listed for today */}
+      {dateRange === 'today' && <DestinationAnalytics refreshKey={chartRefresh + liveRefresh} />}
+
       {!loading && stats?.totalStats && stats.totalStats.totalIncome > 0 && (
         <>
           {/* Revenue Overview Section */}
@@ -894,7 +1153,12 @@ export default function EnhancedStatistics() {
           {/* Staff Performance Table */}
           {staffChartData.length > 0 && (
             <div className="bg-white border rounded-lg shadow-sm p-6">
-              <h3 className="font-semibold text-gray-800 mb-4">Performance du Personnel</h3>
+              <h3 className="font-semibold text-gray-800 mb-1">Performance du Personnel</h3>
+              <p className="text-xs text-gray-500 mb-4">
+                {statsDay && dateRange !== 'month'
+                  ? 'Cliquez sur un agent pour voir le détail de ses opérations'
+                  : 'Le détail des opérations est disponible pour une journée'}
+              </p>
               <div className="overflow-x-auto">
                 <table className="w-full">
                   <thead>
@@ -909,7 +1173,13 @@ export default function EnhancedStatistics() {
                   </thead>
                   <tbody>
                     {staffChartData.map((staff: any, index: number) => (
-                      <tr key={index} className="border-b hover:bg-gray-50 transition-colors">
+                      <tr
+                        key={index}
+                        onClick={() => statsDay && dateRange !== 'month' && setDrillStaff({ id: staff.id, name: staff.name })}
+                        className={`border-b hover:bg-gray-50 transition-colors ${
+                          statsDay && dateRange !== 'month' ? 'cursor-pointer' : ''
+                        }`}
+                      >
                         <td className="py-3 px-4 font-medium text-gray-800">{staff.name}</td>
                         <td className="py-3 px-4 text-right text-gray-700">{staff.seats}</td>
                         <td className="py-3 px-4 text-right text-gray-700">{staff.seatIncome.toFixed(3)} TND</td>
@@ -934,6 +1204,15 @@ export default function EnhancedStatistics() {
         </>
       )}
 
+      {drillStaff && statsDay && (
+        <StaffTransactionsModal
+          staffId={drillStaff.id}
+          staffName={drillStaff.name}
+          date={statsDay}
+          onClose={() => setDrillStaff(null)}
+        />
+      )}
+
       {!loading && stats?.totalStats && stats.totalStats.totalIncome === 0 && (
         <div className="bg-white border rounded-lg shadow-sm p-12 text-center">
           <div className="mb-4">
@@ -961,6 +1240,8 @@ export default function EnhancedStatistics() {
           </p>
         </div>
       )}
+
+      <ShiftCloseoutReview />
     </div>
   )
 }
@@ -0,0 +1,180 @@
+import { useEffect, useState } from 'react'
+import { getIncomeByTimePeriod } from '@/api/client'
+import type { PeriodIncome } from '@/api/types'
+
+interface HourlyIncomeChartProps {
+  // Day to chart, as YYYY-MM-DD in local time
+  date: string
+  // Bumped by the parent whenever the figures should be fetched again
+  refreshKey?: number
+  // Bumped on live sales: only the current hour is fetched again
+  liveKey?: number
+}
+
+type Metric = 'income' | 'seats'
+
+// Income is null when the hour could not be loaded
+type HourBucket = { hour: number; income: PeriodIncome | null }
+
+// Period queries in flight at once, so a day does not flood the statistics service
+const CONCURRENCY = 4
+
+const hourBounds = (date: string, hour: number) => {
+  const start = new Date(`${date}T00:00:00`)
+  start.setHours(hour)
+  const end = new Date(start)
+  end.setHours(hour + 1)
+  return [start.toISOString(), end.toISOString()] as const
+}
+
+// One query per hour, a few at a time; an hour that fails is left out
+// instead of blanking the whole day
+async function loadHours(date: string, isCancelled: () => boolean): Promise<HourBucket[]> {
+  const buckets: HourBucket[] = Array.from({ length: 24 }, (_, hour) => ({ hour, income: null }))
+  const pending = buckets.map((b) => b.hour)
+  const worker = async () => {
+    for (let hour = pending.shift(); hour !== undefined && !isCancelled(); hour = pending.shift()) {
+      const [start, end] = hourBounds(date, hour)
+      try {
+        buckets[hour].income = (await getIncomeByTimePeriod(start, end)).data
+      } catch (err) {
+        console.warn(`Could not load income for ${hour}h:`, err)
+      }
+    }
+  }
+  await Promise.all(Array.from({ length: CONCURRENCY }, worker))
+  return buckets
+}
+
+// Income or seats sold per hour of one day, one period query per hour
+export default function HourlyIncomeChart({ date, refreshKey, liveKey }: HourlyIncomeChartProps) {
+  const [buckets, setBuckets] = useState<HourBucket[] | null>(null)
+  const [metric, setMetric] = useState<Metric>('income')
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    setLoading(true)
+    setError(null)
+    loadHours(date, () => cancelled)
+      .then((result) => {
+        if (cancelled) return
+        if (result.every((b) => !b.income)) {
+          setError('Statistiques horaires indisponibles')
+          setBuckets(null)
+          return
+        }
+        setBuckets(result)
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : String(err))
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [date, refreshKey])
+
+  // Past hours are settled, so a sale only moves the current one
+  useEffect(() => {
+    if (!liveKey || new Date(`${date}T00:00:00`).toDateString() !== new Date().toDateString()) return
+    let cancelled = false
+    const hour = new Date().getHours()
+    const [start, end] = hourBounds(date, hour)
+    getIncomeByTimePeriod(start, end)
+      .then((response) => {
+        if (cancelled) return
+        setBuckets((prev) => prev && prev.map((b) => (b.hour === hour ? { hour, income: response.data } : b)))
+      })
+      .catch((err) => console.warn(`Could not refresh income for ${hour}h:`, err))
+    return () => {
+      cancelled = true
+    }
+  }, [liveKey]) // eslint-disable-line react-hooks/exhaustive-deps
+
+  const valueOf = (bucket: HourBucket) =>
+    metric === 'income' ? bucket.income?.totalIncome ?? 0 : bucket.income?.totalSeatsBooked ?? 0
+
+  const missing = (buckets || []).filter((b) => !b.income).map((b) => `${String(b.hour).padStart(2, '0')}h`)
+  // Only the hours between the first and the last sale of the day
+  const active = (buckets || []).filter((b) => !!b.income && (b.income.totalIncome > 0 || b.income.totalSeatsBooked > 0))
+  const shown = active.length > 0
+    ? (buckets || []).filter((b) => b.hour >= active[0].hour && b.hour <= active[active.length - 1].hour)
+    : []
+  const maxValue = Math.max(0, ...shown.map(valueOf))
+  const busiest = shown.reduce<HourBucket | null>((best, b) => (!best || valueOf(b) > valueOf(best) ? b : best), null)
+
+  return (
+    <div className="bg-white border rounded-lg shadow-sm p-6">
+      <div className="flex justify-between items-center mb-4">
+        <div>
+          <h3 className="font-semibold text-gray-800">Activité par Heure</h3>
+          {busiest && (
+            <p className="text-xs text-gray-500 mt-1">
+              Heure la plus chargée : {String(busiest.hour).padStart(2, '0')}h
+              {' - '}
+              {metric === 'income'
+                ? `${valueOf(busiest).toFixed(3)} TND`
+                : `${valueOf(busiest)} sièges`}
+            </p>
+          )}
+        </div>
+        <div className="flex gap-1">
+          <button
+            onClick={() => setMetric('income')}
+            className={`px-3 py-1 rounded text-xs ${metric === 'income' ? 'bg-blue-500 text-white' : 'bg-gray-200'}`}
+          >
+            Revenus
+          </button>
+          <button
+            onClick={() => setMetric('seats')}
+            className={`px-3 py-1 rounded text-xs ${metric === 'seats' ? 'bg-blue-500 text-white' : 'bg-gray-200'}`}
+          >
+            Sièges
+          </button>
+        </div>
+      </div>
+
+      {loading && !buckets && <div className="text-center py-8 text-gray-500 text-sm">Chargement...</div>}
+      {error && <div className="text-center py-4 text-red-600 text-sm">{error}</div>}
+
+      {missing.length > 0 && (
+        <div className="mb-2 text-xs text-orange-600">
+          Données manquantes pour {missing.length} heure(s): {missing.join(', ')}
+        </div>
+      )}
+
+      {buckets && shown.length === 0 && !error && (
+        <div className="text-center py-8 text-gray-500 text-sm">Aucune vente enregistrée ce jour</div>
+      )}
+
+      {shown.length > 0 && (
+        <div className="flex items-end gap-1 h-48">
+          {shown.map((bucket) => {
+            const value = valueOf(bucket)
+            const percentage = maxValue > 0 ? (value / maxValue) * 100 : 0
+            const label = !bucket.income
+              ? 'non chargé'
+              : metric === 'income' ? `${value.toFixed(3)} TND` : `${value} sièges`
+            return (
+              <div key={bucket.hour} className="flex-1 h-full flex flex-col items-center justify-end">
+                <div className="text-[10px] text-gray-600 mb-1">
+                  {!bucket.income ? '?' : value > 0 ? (metric === 'income' ? value.toFixed(0) : value) : ''}
+                </div>
+                <div
+                  className={`w-full rounded-t ${bucket === busiest ? 'bg-purple-500' : 'bg-blue-400'}`}
+                  style={{ height: `${percentage}%`, minHeight: value > 0 ? '4px' : '0' }}
+                  title={`${String(bucket.hour).padStart(2, '0')}h - ${label}`}
+                ></div>
+                <div className="text-[10px] text-gray-500 mt-1">{String(bucket.hour).padStart(2, '0')}h</div>
+              </div>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -2,6 +2,7 @@ import { useEffect, useState } from "react";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { healthAuth, healthBooking, healthQueue, healthWS } from "@/api/client";
+import EndpointSettings from "@/components/EndpointSettings";
 
 type Props = { onReady: () => void };
 
@@ -12,6 +13,7 @@ export default function InitScreen({ onReady }: Props) {
     booking: null,
     ws: null,
   });
+  const [showSettings, setShowSettings] = useState(false);
   const allOk = Object.values(status).every((v) => v === true);
 
   const checkAll = async () => {
@@ -33,6 +35,26 @@ export default function InitScreen({ onReady }: Props) {
     if (allOk) onReady();
   }, [allOk, onReady]);
 
+  // A new station cannot reach the default servers, so the endpoints must be
+  // editable before login
+  if (showSettings) {
+    return (
+      <div className="min-h-screen w-full flex items-center justify-center p-6">
+        <div className="w-full max-w-3xl space-y-3">
+          <EndpointSettings
+            onSaved={() => {
+              setShowSettings(false);
+              checkAll();
+            }}
+          />
+          <Button variant="ghost" className="w-full" onClick={() => setShowSettings(false)}>
+            Retour
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen w-full flex items-center justify-center p-6">
       <Card className="w-full max-w-md p-6 space-y-4">
@@ -52,9 +74,14 @@ export default function InitScreen({ onReady }: Props) {
           </li>
         </ul>
         {!allOk && (
-          <Button className="w-full" onClick={checkAll}>
-            Réessayer
-          </Button>
+          <>
+            <Button className="w-full" onClick={checkAll}>
+              Réessayer
+            </Button>
+            <Button variant="outline" className="w-full" onClick={() => setShowSettings(true)}>
+              Paramètres serveur
+            </Button>
+          </>
         )}
       </Card>
     </div>
@@ -5,9 +5,10 @@ import UpdateStatus from './UpdateStatus'
 
 interface LayoutProps {
   children: React.ReactNode
-  activeTab: 'statistics' | 'queue' | 'staff' | 'vehicles'
-  onTabChange: (tab: 'statistics' | 'queue' | 'staff' | 'vehicles') => void
+  activeTab: 'statistics' | 'queue' | 'staff' | 'vehicles' | 'verify' | 'settings'
+  onTabChange: (tab: 'statistics' | 'queue' | 'staff' | 'vehicles' | 'verify' | 'settings') => void
   onLogout: () => void
+  onCloseShift?: () => void
   isSupervisor: boolean
   userName?: string
   userRole?: string
@@ -18,6 +19,7 @@ export default function Layout({
   activeTab,
   onTabChange,
   onLogout,
+  onCloseShift,
   isSupervisor,
   userName,
   userRole
@@ -33,6 +35,7 @@ export default function Layout({
           activeTab={activeTab}
           onTabChange={onTabChange}
           onLogout={onLogout}
+          onCloseShift={onCloseShift}
           isSupervisor={isSupervisor}
           userName={userName}
           userRole={userRole}
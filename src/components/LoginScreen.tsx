@@ -4,9 +4,13 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { login, setAuthToken } from "@/api/client";
 
-type Props = { onLoggedIn: (token: string, staffInfo: { firstName: string; lastName: string; role: string }) => void };
+type Props = {
+  onLoggedIn: (token: string, staffInfo: { firstName: string; lastName: string; role: string }) => void;
+  // Shown above the form, e.g. when the previous session expired
+  notice?: string | null;
+};
 
-export default function LoginScreen({ onLoggedIn }: Props) {
+export default function LoginScreen({ onLoggedIn, notice }: Props) {
   const [cin, setCin] = useState("");
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -62,6 +66,12 @@ export default function LoginScreen({ onLoggedIn }: Props) {
           </div>
         </div>
 
+        {notice && !error && (
+          <div className="p-3 rounded-lg bg-amber-50 border border-amber-200">
+            <p className="text-sm text-amber-800 font-medium">{notice}</p>
+          </div>
+        )}
+
         <form className="space-y-4" onSubmit={submit}>
           <div className="space-y-2">
             <label className="text-sm font-semibold text-foreground">Numéro CIN</label>
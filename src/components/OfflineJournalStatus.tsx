@@ -0,0 +1,197 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { getStaffInfo } from '@/api/client'
+import { offlineJournalService, type JournalEntry } from '@/services/offlineJournalService'
+
+type Props = {
+  // Called after entries were replayed so the screen can reload from the server
+  onSynced: () => void
+  onNotify: (message: string, type: 'success' | 'error') => void
+}
+
+const REPLAY_INTERVAL_MS = 30000
+
+function describeAction(entry: JournalEntry) {
+  const action = entry.action
+  if (action.type === 'queue_add') {
+    return `Ajout ${action.licensePlate} → ${action.destinationName}${action.dayPassSold ? ' + pass journalier' : ''}`
+  }
+  return `${action.seats} siège(s) ${action.licensePlate} → ${action.destinationName} (${action.totalAmount.toFixed(3)} TND)`
+}
+
+function formatTime(iso: string) {
+  return new Date(iso).toLocaleTimeString('fr-FR', { hour: '2-digit', minute: '2-digit' })
+}
+
+export default function OfflineJournalStatus({ onSynced, onNotify }: Props) {
+  const [pending, setPending] = useState<JournalEntry[]>(() => offlineJournalService.getPending())
+  const [conflicts, setConflicts] = useState<JournalEntry[]>(() => offlineJournalService.getConflicts())
+  const [held, setHeld] = useState<JournalEntry[]>(() => offlineJournalService.getHeld())
+  const [open, setOpen] = useState(false)
+  const [syncing, setSyncing] = useState(false)
+  // Latest callbacks, so the background timer is not reset on every parent render
+  const callbacksRef = useRef({ onSynced, onNotify })
+  callbacksRef.current = { onSynced, onNotify }
+
+  useEffect(() => offlineJournalService.subscribe(() => {
+    setPending(offlineJournalService.getPending())
+    setConflicts(offlineJournalService.getConflicts())
+    setHeld(offlineJournalService.getHeld())
+  }), [])
+
+  const sync = useCallback(async (manual: boolean) => {
+    if (offlineJournalService.getPending().length === 0) return
+    setSyncing(true)
+    try {
+      const result = await offlineJournalService.replay()
+      const { onSynced, onNotify } = callbacksRef.current
+      if (result.replayed + result.rejected > 0) {
+        onSynced()
+        onNotify(
+          result.rejected > 0
+            ? `Synchronisation: ${result.replayed} action(s) envoyée(s), ${result.rejected} rejetée(s)`
+            : `Synchronisation: ${result.replayed} action(s) envoyée(s)`,
+          result.rejected > 0 ? 'error' : 'success'
+        )
+      } else if (manual && result.interrupted) {
+        onNotify('Serveur toujours injoignable, nouvel essai automatique', 'error')
+      } else if (manual && result.held > 0) {
+        onNotify(`${result.held} action(s) d'un autre agent en attente de validation`, 'error')
+      }
+    } finally {
+      setSyncing(false)
+    }
+  }, [])
+
+  // Retry in the background for as long as something is waiting
+  useEffect(() => {
+    if (pending.length === 0) return
+    const timer = setInterval(() => sync(false), REPLAY_INTERVAL_MS)
+    return () => clearInterval(timer)
+  }, [pending.length, sync])
+
+  const approve = (entry: JournalEntry) => {
+    const staff = getStaffInfo()
+    const me = staff ? `${staff.firstName} ${staff.lastName}`.trim() : 'vous'
+    if (!confirm(
+      `Action enregistrée hors ligne par ${entry.staffName || 'un agent inconnu'}:\n${describeAction(entry)}\n\n` +
+      `L'envoyer au serveur sous la session de ${me} ?`
+    )) return
+    offlineJournalService.approve(entry.id)
+    sync(true)
+  }
+
+  if (pending.length === 0 && conflicts.length === 0) return null
+
+  return (
+    <>
+      <button
+        onClick={() => setOpen(true)}
+        className={`px-3 py-1 rounded-full text-xs font-medium border ${
+          conflicts.length > 0
+            ? 'bg-red-50 text-red-700 border-red-300'
+            : 'bg-orange-50 text-orange-700 border-orange-300'
+        }`}
+        title="Journal hors ligne"
+      >
+        {pending.length > 0 && `Hors ligne: ${pending.length} en attente`}
+        {pending.length > 0 && conflicts.length > 0 && ' · '}
+        {conflicts.length > 0 && `${conflicts.length} conflit(s)`}
+      </button>
+
+      {open && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg shadow-xl w-full max-w-2xl mx-4 max-h-[90vh] overflow-y-auto">
+            <div className="p-6 space-y-4">
+              <div className="flex justify-between items-center">
+                <h2 className="text-xl font-semibold">Journal hors ligne</h2>
+                <button
+                  onClick={() => setOpen(false)}
+                  className="text-gray-400 hover:text-gray-600 text-2xl leading-none"
+                >
+                  ×
+                </button>
+              </div>
+
+              <div>
+                <h3 className="font-medium mb-2">En attente d'envoi ({pending.length})</h3>
+                {pending.length === 0 ? (
+                  <div className="text-sm text-gray-500">Aucune action en attente</div>
+                ) : (
+                  <div className="space-y-1 max-h-48 overflow-y-auto">
+                    {pending.map((entry) => (
+                      <div key={entry.id} className="p-2 border rounded text-sm flex justify-between items-center gap-2">
+                        <span>{describeAction(entry)}</span>
+                        <span className="text-gray-500 flex items-center gap-2 whitespace-nowrap">
+                          {formatTime(entry.recordedAt)} - {entry.staffName}
+                          {held.some((h) => h.id === entry.id) && (
+                            <button
+                              onClick={() => approve(entry)}
+                              disabled={syncing}
+                              className="px-2 py-1 text-xs bg-amber-100 text-amber-800 rounded hover:bg-amber-200"
+                              title="Enregistré par un autre agent"
+                            >
+                              Envoyer sous mon nom
+                            </button>
+                          )}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              <div>
+                <h3 className="font-medium mb-2">Conflits ({conflicts.length})</h3>
+                {conflicts.length === 0 ? (
+                  <div className="text-sm text-gray-500">Aucun conflit</div>
+                ) : (
+                  <div className="space-y-2 max-h-64 overflow-y-auto">
+                    {conflicts.map((entry) => (
+                      <div
+                        key={entry.id}
+                        className={`p-3 border rounded text-sm flex justify-between items-start gap-2 ${
+                          entry.status === 'rejected' ? 'bg-red-50 border-red-200' : 'bg-amber-50 border-amber-200'
+                        }`}
+                      >
+                        <div>
+                          <div className="font-medium">{describeAction(entry)}</div>
+                          <div className="text-xs text-gray-600">
+                            {formatTime(entry.recordedAt)} - {entry.staffName}
+                            {entry.status === 'rejected' ? ' - rejeté par le serveur' : ''}
+                          </div>
+                          <div className="text-xs mt-1">{entry.error || entry.warning}</div>
+                        </div>
+                        <button
+                          onClick={() => offlineJournalService.resolve(entry.id)}
+                          className="px-2 py-1 text-xs bg-gray-200 rounded hover:bg-gray-300 whitespace-nowrap"
+                        >
+                          Traité
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              <div className="flex justify-end gap-2">
+                <button
+                  onClick={() => setOpen(false)}
+                  className="px-4 py-2 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300 transition-colors"
+                >
+                  Fermer
+                </button>
+                <button
+                  onClick={() => sync(true)}
+                  disabled={syncing || pending.length === 0}
+                  className="px-4 py-2 bg-blue-500 text-white rounded-md hover:bg-blue-600 transition-colors disabled:bg-blue-300 disabled:cursor-not-allowed"
+                >
+                  {syncing ? 'Synchronisation...' : 'Synchroniser maintenant'}
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  )
+}
@@ -0,0 +1,81 @@
+import { useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { passSignatureService } from "@/services/passSignatureService";
+
+export default function PassSigningSettings() {
+  const [secret, setSecret] = useState(() => passSignatureService.getSecret());
+  const [visible, setVisible] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<{ text: string; type: "success" | "error" } | null>(null);
+
+  const dirty = secret.trim() !== passSignatureService.getSecret();
+
+  const save = async () => {
+    setSaving(true);
+    setMessage(null);
+    try {
+      await passSignatureService.setSecret(secret);
+      setSecret(passSignatureService.getSecret());
+      setMessage({ text: "Clé enregistrée", type: "success" });
+    } catch (e) {
+      setMessage({ text: e instanceof Error ? e.message : String(e), type: "error" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const regenerate = () => {
+    if (!confirm("Les passes déjà imprimés ne seront plus reconnus avec une nouvelle clé. Continuer ?")) return;
+    setSecret(passSignatureService.generateSecret());
+    setVisible(true);
+    setMessage(null);
+  };
+
+  return (
+    <Card className="p-6 space-y-4">
+      <div>
+        <h2 className="text-xl font-semibold">Signature des passes</h2>
+        <p className="text-sm text-muted-foreground">
+          Clé utilisée pour signer les QR codes des passes. Saisissez la même clé sur tous les postes qui impriment ou
+          contrôlent des passes.
+        </p>
+      </div>
+
+      <div className="flex gap-2">
+        <Input
+          type={visible ? "text" : "password"}
+          value={secret}
+          onChange={(e) => {
+            setSecret(e.target.value);
+            setMessage(null);
+          }}
+          className="font-mono"
+        />
+        <Button variant="outline" onClick={() => setVisible((v) => !v)}>
+          {visible ? "Masquer" : "Afficher"}
+        </Button>
+      </div>
+
+      {message && (
+        <div
+          className={`p-3 rounded-lg text-sm ${
+            message.type === "success" ? "bg-green-50 text-green-800" : "bg-red-50 text-red-700"
+          }`}
+        >
+          {message.text}
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-2 justify-end">
+        <Button variant="ghost" onClick={regenerate} disabled={saving}>
+          Générer une nouvelle clé
+        </Button>
+        <Button onClick={save} disabled={saving || !dirty}>
+          {saving ? "Enregistrement…" : "Enregistrer"}
+        </Button>
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,182 @@
+import { useRef, useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { getVehicleDayPass, listTodayTrips, searchVehicles } from "@/api/client";
+import { passDate, passSignatureService, type PassType, type SignedPass } from "@/services/passSignatureService";
+
+type Check = { label: string; ok: boolean; detail?: string };
+type Result = { type: PassType; licensePlate: string; checks: Check[] };
+
+const TYPE_LABELS: Record<PassType, string> = {
+  daypass: "Pass journalier",
+  exitpass: "Autorisation de sortie",
+};
+
+function samePlate(a: string, b: string) {
+  return a.replace(/\s+/g, "").toUpperCase() === b.replace(/\s+/g, "").toUpperCase();
+}
+
+// Compare the pass with what the backend recorded today
+async function checkWithServer(type: PassType, licensePlate: string, passId?: string): Promise<Check> {
+  try {
+    if (type === "daypass") {
+      const vehicles = await searchVehicles(licensePlate);
+      const vehicle = vehicles.data.find((v) => samePlate(v.licensePlate, licensePlate));
+      if (!vehicle) return { label: "Pass enregistré", ok: false, detail: "Véhicule inconnu" };
+      const dayPass = (await getVehicleDayPass(vehicle.id)).data;
+      if (!dayPass) return { label: "Pass enregistré", ok: false, detail: "Aucun pass journalier valide pour ce véhicule" };
+      if (passId && dayPass.id !== passId) {
+        return { label: "Pass enregistré", ok: false, detail: "Le pass valide du véhicule porte un autre numéro" };
+      }
+      return { label: "Pass enregistré", ok: true, detail: `Acheté le ${new Date(dayPass.purchaseDate).toLocaleString("fr-FR")}` };
+    }
+
+    const trips = (await listTodayTrips(licensePlate)).data.filter((t) => samePlate(t.licensePlate, licensePlate));
+    if (trips.length === 0) return { label: "Sortie enregistrée", ok: false, detail: "Aucun départ aujourd'hui pour ce véhicule" };
+    // A scanned pass names its trip; a typed control code only names the vehicle
+    const trip = passId ? trips.find((t) => t.id === passId) : trips[trips.length - 1];
+    if (!trip) {
+      return { label: "Sortie enregistrée", ok: false, detail: "Aucun départ de ce véhicule ne porte ce numéro aujourd'hui" };
+    }
+    return {
+      label: "Sortie enregistrée",
+      ok: true,
+      detail: `${trip.destinationName} à ${new Date(trip.startTime).toLocaleTimeString("fr-FR", { hour: "2-digit", minute: "2-digit" })}`,
+    };
+  } catch (error) {
+    return {
+      label: "Vérification serveur",
+      ok: false,
+      detail: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+// Gate check: scan the QR code of a pass (scanners type it followed by Enter)
+// or type the control code printed under it together with the plate
+export default function PassVerification() {
+  const [code, setCode] = useState("");
+  const [plate, setPlate] = useState("");
+  const [checking, setChecking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<Result | null>(null);
+  const codeInputRef = useRef<HTMLInputElement>(null);
+
+  const scanned = passSignatureService.parseQrPayload(code);
+  const typed = scanned ? null : passSignatureService.parseControlCode(code);
+
+  const reset = () => {
+    setCode("");
+    setPlate("");
+    setError(null);
+    setResult(null);
+    codeInputRef.current?.focus();
+  };
+
+  const verifyScanned = async (pass: SignedPass): Promise<Result> => {
+    const signatureOk = await passSignatureService.verifyQr(pass);
+    const checks: Check[] = [
+      { label: "Signature", ok: signatureOk, detail: signatureOk ? undefined : "QR code falsifié ou émis par une autre station" },
+      { label: "Date", ok: pass.date === passDate(), detail: pass.date },
+    ];
+    if (signatureOk) checks.push(await checkWithServer(pass.type, pass.licensePlate, pass.passId));
+    return { type: pass.type, licensePlate: pass.licensePlate, checks };
+  };
+
+  const verifyTyped = async (type: PassType, controlCode: string): Promise<Result> => {
+    const licensePlate = plate.trim().toUpperCase();
+    // The control code only matches on the day the pass was issued
+    const codeOk = await passSignatureService.verifyControlCode(controlCode, { type, licensePlate, date: passDate() });
+    const checks: Check[] = [
+      { label: "Code de contrôle", ok: codeOk, detail: codeOk ? undefined : "Code invalide pour ce véhicule aujourd'hui" },
+    ];
+    if (codeOk) checks.push(await checkWithServer(type, licensePlate));
+    return { type, licensePlate, checks };
+  };
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setResult(null);
+    if (!scanned && !typed) {
+      setError("Code non reconnu: scannez le QR code ou saisissez un code du type D-1A2B3C4D");
+      return;
+    }
+    if (typed && !plate.trim()) {
+      setError("Saisissez le matricule du véhicule");
+      return;
+    }
+    setChecking(true);
+    try {
+      setResult(scanned ? await verifyScanned(scanned) : await verifyTyped(typed!.type, typed!.code));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  const valid = !!result && result.checks.every((c) => c.ok);
+
+  return (
+    <Card className="p-6 max-w-2xl space-y-4">
+      <div>
+        <h2 className="text-xl font-semibold">Contrôle des passes</h2>
+        <p className="text-sm text-muted-foreground">
+          Scannez le QR code d'un pass journalier ou d'une autorisation de sortie, ou saisissez le code imprimé dessous.
+        </p>
+      </div>
+
+      <form className="space-y-3" onSubmit={submit}>
+        <Input
+          ref={codeInputRef}
+          value={code}
+          onChange={(e) => {
+            setCode(e.target.value);
+            setResult(null);
+            setError(null);
+          }}
+          placeholder="QR code ou code de contrôle (D-1A2B3C4D)"
+          className="font-mono"
+          autoFocus
+        />
+        {typed && (
+          <Input
+            value={plate}
+            onChange={(e) => setPlate(e.target.value)}
+            placeholder="Matricule du véhicule (ex: 123 TUN 4567)"
+          />
+        )}
+        {error && <p className="text-sm text-destructive font-medium">{error}</p>}
+        <div className="flex gap-2">
+          <Button type="submit" disabled={checking || !code.trim()}>
+            {checking ? "Vérification..." : "Vérifier"}
+          </Button>
+          <Button type="button" variant="outline" onClick={reset}>
+            Nouveau contrôle
+          </Button>
+        </div>
+      </form>
+
+      {result && (
+        <div className={`p-4 rounded-lg border ${valid ? "bg-green-50 border-green-300" : "bg-red-50 border-red-300"}`}>
+          <div className={`text-lg font-bold ${valid ? "text-green-800" : "text-red-800"}`}>
+            {valid ? "PASS VALIDE" : "PASS REFUSÉ"}
+          </div>
+          <div className="text-sm mb-2">
+            {TYPE_LABELS[result.type]} - {result.licensePlate}
+          </div>
+          <ul className="space-y-1 text-sm">
+            {result.checks.map((check) => (
+              <li key={check.label} className={check.ok ? "text-green-800" : "text-red-800"}>
+                {check.ok ? "✓" : "✗"} {check.label}
+                {check.detail && <span className="text-gray-600"> - {check.detail}</span>}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,161 @@
+import { useCallback, useEffect, useState } from 'react'
+import { printerService, PrintQueuedError, type PrintJobSummary } from '@/services/printerService'
+
+type Props = {
+  onNotify: (message: string, type: 'success' | 'error') => void
+}
+
+// The badge refreshes slowly; the open panel follows the spool closely
+const POLL_INTERVAL_MS = 15000
+const OPEN_POLL_INTERVAL_MS = 3000
+
+const STATUS_LABELS: Record<PrintJobSummary['status'], { label: string; className: string }> = {
+  queued: { label: 'En attente', className: 'bg-orange-100 text-orange-800' },
+  printing: { label: 'Impression', className: 'bg-blue-100 text-blue-800' },
+  done: { label: 'Imprimé', className: 'bg-green-100 text-green-800' },
+  failed: { label: 'Échec', className: 'bg-red-100 text-red-800' },
+}
+
+function formatTime(iso: string) {
+  return new Date(iso).toLocaleTimeString('fr-FR', { hour: '2-digit', minute: '2-digit', second: '2-digit' })
+}
+
+export default function PrintHistory({ onNotify }: Props) {
+  const [jobs, setJobs] = useState<PrintJobSummary[]>([])
+  const [open, setOpen] = useState(false)
+  const [busyId, setBusyId] = useState<string | null>(null)
+
+  const refresh = useCallback(async () => {
+    try {
+      setJobs(await printerService.listPrintJobs())
+    } catch (error) {
+      // Printer service not running (browser dev mode): nothing to show
+      console.error('Failed to load print jobs:', error)
+    }
+  }, [])
+
+  useEffect(() => {
+    refresh()
+    const timer = setInterval(refresh, open ? OPEN_POLL_INTERVAL_MS : POLL_INTERVAL_MS)
+    return () => clearInterval(timer)
+  }, [open, refresh])
+
+  const run = async (job: PrintJobSummary, action: 'reprint' | 'cancel') => {
+    setBusyId(job.id)
+    try {
+      if (action === 'cancel') {
+        await printerService.cancelPrintJob(job.id)
+        onNotify('Impression annulée', 'success')
+      } else {
+        await printerService.reprintJob(job.id)
+        onNotify(job.status === 'done' ? 'Duplicata imprimé' : 'Ticket imprimé', 'success')
+      }
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error)
+      onNotify(error instanceof PrintQueuedError ? errorMsg : `Erreur impression: ${errorMsg}`, 'error')
+    } finally {
+      setBusyId(null)
+      refresh()
+    }
+  }
+
+  const queued = jobs.filter((job) => job.status === 'queued' || job.status === 'printing').length
+  const failed = jobs.filter((job) => job.status === 'failed').length
+
+  return (
+    <>
+      <button
+        onClick={() => setOpen(true)}
+        className={`px-3 py-1 rounded-full text-xs font-medium border ${
+          queued > 0 ? 'bg-orange-50 text-orange-700 border-orange-300' : 'bg-gray-50 text-gray-700 border-gray-300'
+        }`}
+        title="Historique d'impression"
+      >
+        Impressions{queued > 0 ? `: ${queued} en attente` : ''}
+      </button>
+
+      {open && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg shadow-xl w-full max-w-3xl mx-4 max-h-[90vh] overflow-y-auto">
+            <div className="p-6 space-y-4">
+              <div className="flex justify-between items-center">
+                <h2 className="text-xl font-semibold">Impressions du jour</h2>
+                <button
+                  onClick={() => setOpen(false)}
+                  className="text-gray-400 hover:text-gray-600 text-2xl leading-none"
+                >
+                  ×
+                </button>
+              </div>
+
+              {queued > 0 && (
+                <div className="p-3 rounded bg-orange-50 text-orange-800 text-sm">
+                  {queued} ticket(s) attendent l'imprimante et sortiront automatiquement dès qu'elle répond.
+                </div>
+              )}
+              {failed > 0 && (
+                <div className="p-3 rounded bg-red-50 text-red-700 text-sm">
+                  {failed} impression(s) en échec: utilisez Réessayer une fois l'imprimante rétablie.
+                </div>
+              )}
+
+              {jobs.length === 0 ? (
+                <div className="text-sm text-gray-500">Aucune impression aujourd'hui</div>
+              ) : (
+                <div className="space-y-1 max-h-[60vh] overflow-y-auto">
+                  {jobs.map((job) => (
+                    <div key={job.id} className="p-2 border rounded text-sm flex justify-between items-center gap-2">
+                      <div className="min-w-0">
+                        <div className="font-medium truncate">
+                          {job.summary}
+                          {job.reprintOf && <span className="ml-2 text-xs text-gray-500">(duplicata)</span>}
+                        </div>
+                        <div className="text-xs text-gray-500">
+                          {formatTime(job.createdAt)} - {job.printer}
+                          {job.attempts > 1 ? ` - ${job.attempts} essais` : ''}
+                        </div>
+                        {job.error && job.status !== 'done' && <div className="text-xs text-red-600">{job.error}</div>}
+                      </div>
+                      <div className="flex items-center gap-2 shrink-0">
+                        <span className={`px-2 py-0.5 rounded text-xs ${STATUS_LABELS[job.status].className}`}>
+                          {STATUS_LABELS[job.status].label}
+                        </span>
+                        {job.status === 'queued' && (
+                          <button
+                            onClick={() => run(job, 'cancel')}
+                            disabled={busyId !== null}
+                            className="px-2 py-1 text-xs bg-gray-200 rounded hover:bg-gray-300 disabled:opacity-50"
+                          >
+                            Annuler
+                          </button>
+                        )}
+                        {job.status !== 'printing' && (
+                          <button
+                            onClick={() => run(job, 'reprint')}
+                            disabled={busyId !== null}
+                            className="px-2 py-1 text-xs bg-blue-500 text-white rounded hover:bg-blue-600 disabled:bg-blue-300"
+                          >
+                            {busyId === job.id ? '...' : job.status === 'done' ? 'Réimprimer' : 'Réessayer'}
+                          </button>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              <div className="flex justify-end">
+                <button
+                  onClick={() => setOpen(false)}
+                  className="px-4 py-2 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300 transition-colors"
+                >
+                  Fermer
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  )
+}
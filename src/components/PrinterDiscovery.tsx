@@ -0,0 +1,72 @@
+import { useState } from 'react';
+import { printerIpConfigService } from '@/services/printerIpConfigService';
+import type { DiscoveredPrinter } from '@/services/printerDiscovery';
+
+interface PrinterDiscoveryProps {
+  onPick: (printer: DiscoveredPrinter) => void;
+  // Addresses already configured, marked in the results
+  knownIps?: string[];
+}
+
+// "Rechercher des imprimantes": scan the local network and pick a result
+export default function PrinterDiscovery({ onPick, knownIps = [] }: PrinterDiscoveryProps) {
+  const [scanning, setScanning] = useState(false);
+  const [results, setResults] = useState<DiscoveredPrinter[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const scan = async () => {
+    setScanning(true);
+    setError(null);
+    setResults(null);
+    try {
+      setResults(await printerIpConfigService.discoverPrinters());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setScanning(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <button
+        type="button"
+        onClick={scan}
+        disabled={scanning}
+        className="px-3 py-1.5 text-sm border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+      >
+        {scanning ? 'Recherche sur le réseau…' : 'Rechercher des imprimantes'}
+      </button>
+
+      {error && <p className="text-xs text-red-600">{error}</p>}
+
+      {results && results.length === 0 && (
+        <p className="text-xs text-gray-500">Aucun appareil n'écoute sur le port 9100 du réseau local.</p>
+      )}
+
+      {results && results.length > 0 && (
+        <ul className="border rounded-md divide-y max-h-48 overflow-y-auto">
+          {results.map((printer) => (
+            <li key={`${printer.ip}:${printer.port}`} className="flex items-center justify-between gap-2 px-3 py-2 text-sm">
+              <div>
+                <span className="font-mono">{printer.ip}</span>
+                <span className="ml-2 text-xs text-gray-500">
+                  {printer.escpos ? 'Imprimante ESC/POS' : 'Appareil non identifié'}
+                  {printer.status.paperNearEnd ? ' - papier presque fini' : ''}
+                  {knownIps.includes(printer.ip) ? ' - déjà configurée' : ''}
+                </span>
+              </div>
+              <button
+                type="button"
+                onClick={() => onPick(printer)}
+                className="px-2 py-1 text-xs bg-blue-600 text-white rounded hover:bg-blue-700"
+              >
+                Choisir
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
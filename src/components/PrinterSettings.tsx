@@ -0,0 +1,196 @@
+import { useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  MAIN_PRINTER_ID,
+  printerIpConfigService,
+  type NamedPrinter,
+  type PrintRoute,
+  type PrinterRouting,
+} from "@/services/printerIpConfigService";
+import type { DiscoveredPrinter } from "@/services/printerDiscovery";
+import PrinterDiscovery from "./PrinterDiscovery";
+
+const ROUTE_LABELS: Record<PrintRoute, string> = {
+  booking: "Tickets de réservation",
+  daypass: "Pass journée",
+  exitpass: "Autorisations de sortie",
+  cancellation: "Annulations",
+  statistics: "Rapports",
+  closeout: "Clôtures de caisse",
+};
+
+type TestResult = { connected: boolean; error?: string };
+
+export default function PrinterSettings() {
+  const [printers, setPrinters] = useState<NamedPrinter[]>(() => printerIpConfigService.getPrinters());
+  const [routing, setRouting] = useState<PrinterRouting>(() => printerIpConfigService.getRouting());
+  const [tests, setTests] = useState<Record<string, TestResult | "pending">>({});
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<{ text: string; type: "success" | "error" } | null>(null);
+
+  const update = (id: string, patch: Partial<NamedPrinter>) => {
+    setPrinters((list) => list.map((p) => (p.id === id ? { ...p, ...patch } : p)));
+    setMessage(null);
+  };
+
+  const addPrinter = (ip = "", port = 9100) => {
+    const main = printers[0];
+    setPrinters((list) => [
+      ...list,
+      { id: `printer-${Date.now()}`, name: `Imprimante ${list.length + 1}`, ip, port, width: main?.width || 48 },
+    ]);
+    setMessage(null);
+  };
+
+  const pickDiscovered = (found: DiscoveredPrinter) => {
+    const existing = printers.find((p) => p.ip === found.ip && p.port === found.port);
+    if (existing) {
+      setMessage({ text: `${found.ip} est déjà configurée (${existing.name})`, type: "error" });
+      return;
+    }
+    addPrinter(found.ip, found.port);
+  };
+
+  const removePrinter = (id: string) => {
+    setPrinters((list) => list.filter((p) => p.id !== id));
+    setRouting((r) => Object.fromEntries(Object.entries(r).filter(([, printerId]) => printerId !== id)));
+    setMessage(null);
+  };
+
+  const save = async () => {
+    setSaving(true);
+    setMessage(null);
+    try {
+      await printerIpConfigService.savePrinters(printers, routing);
+      setMessage({ text: "Imprimantes enregistrées", type: "success" });
+    } catch (e) {
+      setMessage({ text: e instanceof Error ? e.message : String(e), type: "error" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Tests the saved configuration, as the printer service knows it
+  const test = async (id: string) => {
+    setTests((t) => ({ ...t, [id]: "pending" }));
+    const result = await printerIpConfigService.testPrinterConnection(id);
+    setTests((t) => ({ ...t, [id]: result }));
+  };
+
+  const saved = printerIpConfigService.getPrinters();
+
+  return (
+    <Card className="p-6 space-y-4">
+      <div>
+        <h2 className="text-xl font-semibold">Imprimantes</h2>
+        <p className="text-sm text-muted-foreground">
+          Imprimantes de ce poste et celle qui imprime chaque type de ticket. Sans choix, l'imprimante principale est
+          utilisée.
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        {printers.map((printer) => {
+          const result = tests[printer.id];
+          const isSaved = saved.some((p) => p.id === printer.id);
+          return (
+            <div key={printer.id} className="grid grid-cols-12 gap-2 items-center">
+              <Input
+                className="col-span-3"
+                value={printer.name}
+                onChange={(e) => update(printer.id, { name: e.target.value })}
+                placeholder="Nom (ex. Guichet 1)"
+              />
+              <Input
+                className="col-span-3 font-mono"
+                value={printer.ip}
+                onChange={(e) => update(printer.id, { ip: e.target.value.trim() })}
+                placeholder="192.168.192.12"
+              />
+              <Input
+                className="col-span-2 font-mono"
+                type="number"
+                value={printer.port}
+                onChange={(e) => update(printer.id, { port: Number(e.target.value) })}
+              />
+              <select
+                className="col-span-2 h-10 rounded-md border px-2 text-sm"
+                value={printer.width}
+                onChange={(e) => update(printer.id, { width: Number(e.target.value) })}
+              >
+                <option value={48}>80 mm</option>
+                <option value={32}>58 mm</option>
+              </select>
+              <div className="col-span-2 flex gap-1 justify-end">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => test(printer.id)}
+                  disabled={!isSaved || result === "pending"}
+                  title={isSaved ? "Tester la connexion" : "Enregistrez avant de tester"}
+                >
+                  {result === "pending" ? "…" : result ? (result.connected ? "En ligne" : "Hors ligne") : "Tester"}
+                </Button>
+                {printer.id !== MAIN_PRINTER_ID && (
+                  <Button variant="ghost" size="sm" onClick={() => removePrinter(printer.id)} title="Supprimer">
+                    ×
+                  </Button>
+                )}
+              </div>
+            </div>
+          );
+        })}
+        <Button variant="outline" size="sm" onClick={() => addPrinter()}>
+          Ajouter une imprimante
+        </Button>
+        <PrinterDiscovery onPick={pickDiscovered} knownIps={printers.map((p) => p.ip)} />
+      </div>
+
+      <div className="space-y-2">
+        <h3 className="font-medium">Routage des impressions</h3>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+          {(Object.keys(ROUTE_LABELS) as PrintRoute[]).map((route) => (
+            <label key={route} className="flex items-center justify-between gap-2 text-sm">
+              <span>{ROUTE_LABELS[route]}</span>
+              <select
+                className="h-9 rounded-md border px-2 text-sm"
+                value={routing[route] || ""}
+                onChange={(e) => {
+                  setRouting((r) => ({ ...r, [route]: e.target.value || undefined }));
+                  setMessage(null);
+                }}
+              >
+                <option value="">{printers[0]?.name || "Imprimante principale"} (principale)</option>
+                {printers
+                  .filter((p) => p.id !== MAIN_PRINTER_ID)
+                  .map((p) => (
+                    <option key={p.id} value={p.id}>
+                      {p.name}
+                    </option>
+                  ))}
+              </select>
+            </label>
+          ))}
+        </div>
+      </div>
+
+      {message && (
+        <div
+          className={`p-3 rounded-lg text-sm ${
+            message.type === "success" ? "bg-green-50 text-green-800" : "bg-red-50 text-red-700"
+          }`}
+        >
+          {message.text}
+        </div>
+      )}
+
+      <div className="flex justify-end">
+        <Button onClick={save} disabled={saving}>
+          {saving ? "Enregistrement…" : "Enregistrer"}
+        </Button>
+      </div>
+    </Card>
+  );
+}
@@ -1,13 +1,26 @@
 import { useState, useEffect, useRef } from 'react';
-import { printerIpConfigService } from '@/services/printerIpConfigService';
+import { printerIpConfigService, type PrinterStatusReport } from '@/services/printerIpConfigService';
+import PrinterDiscovery from './PrinterDiscovery';
 
 interface PrinterStatus {
   connected: boolean;
   error?: string;
 }
 
+// Problems the operator should act on, most urgent first
+function describeIssues(report: PrinterStatusReport): { text: string; severity: 'error' | 'warning' }[] {
+  if (!report.connected) return [{ text: 'hors ligne', severity: 'error' }];
+  const issues: { text: string; severity: 'error' | 'warning' }[] = [];
+  if (report.paperEnd) issues.push({ text: 'plus de papier', severity: 'error' });
+  if (report.coverOpen) issues.push({ text: 'capot ouvert', severity: 'error' });
+  if (report.error) issues.push({ text: 'erreur imprimante', severity: 'error' });
+  if (report.paperNearEnd && !report.paperEnd) issues.push({ text: 'papier presque fini', severity: 'warning' });
+  return issues;
+}
+
 export default function PrinterStatusDisplay() {
   const [status, setStatus] = useState<PrinterStatus>({ connected: false });
+  const [reports, setReports] = useState<PrinterStatusReport[]>([]);
   const [loading, setLoading] = useState(false);
   const [showIpModal, setShowIpModal] = useState(false);
   const [currentIp, setCurrentIp] = useState('');
@@ -57,16 +70,31 @@ export default function PrinterStatusDisplay() {
     setLoading(true);
     setError(null);
     try {
-      const testStatus = await printerIpConfigService.testPrinterConnection();
-      setStatus(testStatus);
+      // Sync local printers to the printer service, then read every printer's paper and cover state
+      await printerIpConfigService.syncToPrinterService();
+      const printers = printerIpConfigService.getPrinters();
+      const results = await Promise.all(printers.map((p) => printerIpConfigService.getPrinterStatus(p.id)));
+      setReports(results);
+      const main = results[0];
+      setStatus({ connected: !!main?.connected, error: main?.connected ? undefined : 'Could not connect to printer' });
     } catch (err) {
       setError(`Échec de la connexion : ${err}`);
-      setStatus({ connected: false, error: err as string });
+      setReports([]);
+      setStatus({ connected: false, error: err instanceof Error ? err.message : String(err) });
     } finally {
       setLoading(false);
     }
   };
 
+  const issues = reports.flatMap((report) =>
+    describeIssues(report).map((issue) => ({
+      ...issue,
+      text: reports.length > 1 ? `${report.name} : ${issue.text}` : issue.text,
+    }))
+  );
+  const hasError = !status.connected || issues.some((issue) => issue.severity === 'error');
+  const hasWarning = issues.some((issue) => issue.severity === 'warning');
+
   const handleSaveIp = async () => {
     if (!newIp.trim()) {
       setError("L'adresse IP ne peut pas être vide");
@@ -153,13 +181,25 @@ export default function PrinterStatusDisplay() {
       <div className="flex items-center space-x-2">
         <div 
           className={`w-3 h-3 rounded-full transition-colors ${
-            status.connected ? 'bg-green-500' : 'bg-red-500'
+            hasError ? 'bg-red-500' : hasWarning ? 'bg-orange-400' : 'bg-green-500'
           } ${loading ? 'animate-pulse' : ''}`}
           title={status.connected ? 'Imprimante connectée' : 'Imprimante déconnectée'}
         ></div>
         <span className="text-sm text-gray-600">
           Imprimante {status.connected ? 'en ligne' : 'hors ligne'}
         </span>
+        {issues
+          .filter((issue) => issue.text !== 'hors ligne' || reports.length > 1)
+          .map((issue) => (
+            <span
+              key={issue.text}
+              className={`px-2 py-0.5 rounded text-xs font-medium ${
+                issue.severity === 'error' ? 'bg-red-100 text-red-700' : 'bg-orange-100 text-orange-800'
+              }`}
+            >
+              {issue.text}
+            </span>
+          ))}
         {status.error && (
           <span className="text-xs text-red-500" title={status.error}>
             !
@@ -208,6 +248,16 @@ export default function PrinterStatusDisplay() {
                 </div>
               </div>
 
+              <div className="mb-4">
+                <PrinterDiscovery
+                  knownIps={[currentIp]}
+                  onPick={(printer) => {
+                    setNewIp(printer.ip);
+                    setError(null);
+                  }}
+                />
+              </div>
+
               {/* Messages d'erreur / de succès */}
               {error && (
                 <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md">
@@ -5,6 +5,7 @@ import {
   reorderQueue, 
   deleteQueueEntry,
   changeDestination,
+  transferSeats,
   addVehicleToQueue,
   searchVehicles,
   getVehicleAuthorizedRoutes,
@@ -13,7 +14,8 @@ import {
   getStaffInfo,
   listTodayTrips,
   clearQueue,
-  clearAllQueues
+  clearAllQueues,
+  newIdempotencyKey
 } from '@/api/client'
 import { 
   DndContext, 
@@ -32,34 +34,119 @@ import {
   useSortable
 } from '@dnd-kit/sortable'
 import { CSS } from '@dnd-kit/utilities'
-import { printerService, TicketData } from '@/services/printerService'
-import { printerIpConfigService, PrinterIpConfig } from '@/services/printerIpConfigService'
+import { printerService, PrintQueuedError, TicketData } from '@/services/printerService'
+import { printerIpConfigService, NamedPrinter } from '@/services/printerIpConfigService'
+import { connectQueue } from '@/ws/client'
+import { parseQueueEvent, type QueueEvent } from '@/ws/events'
+import { STATION_FEE_PER_SEAT } from '@/config'
+import { endpointSettingsService } from '@/services/endpointSettingsService'
+import { parseQueueEntry, type QueueEntry, type QueueSummary, type Vehicle } from '@/api/types'
 import PrinterStatusDisplay from './PrinterStatusDisplay'
+import BookingDesk from './BookingDesk'
+import BookingHistory from './BookingHistory'
+import LatencyDisplay from './LatencyDisplay'
+import OfflineJournalStatus from './OfflineJournalStatus'
+import PrintHistory from './PrintHistory'
+import { ticketTemplateService } from '@/services/ticketTemplateService'
+import { offlineJournalService, isOfflineError } from '@/services/offlineJournalService'
+
+function renumberQueue(entries: QueueEntry[]): QueueEntry[] {
+  return [...entries]
+    .sort((a, b) => a.queuePosition - b.queuePosition)
+    .map((e, index) => (e.queuePosition === index + 1 ? e : { ...e, queuePosition: index + 1 }))
+}
+
+// Patch a destination queue from a WebSocket event.
+// Returns null when the event does not carry enough data and the queue must be reloaded.
+function applyQueueEvent(queue: QueueEntry[], event: QueueEvent): QueueEntry[] | null {
+  switch (event.type) {
+    case 'queue_entry_added':
+      return renumberQueue([...queue.filter(e => e.id !== event.entry.id), event.entry])
+    case 'queue_entry_updated': {
+      const existing = queue.find(e => e.id === event.entryId)
+      if (!existing) return null
+      return renumberQueue(queue.map(e => (
+        e.id === existing.id ? parseQueueEntry({ ...e, ...event.changes }, 'event.data') : e
+      )))
+    }
+    case 'queue_entry_removed':
+      return renumberQueue(queue.filter(e => e.id !== event.entryId))
+    case 'exit_pass_created': {
+      // The vehicle leaves the queue once its exit pass is issued
+      const { entryId, vehicleId } = event
+      if (!entryId && !vehicleId) return null
+      return renumberQueue(queue.filter(e => (entryId ? e.id !== entryId : e.vehicleId !== vehicleId)))
+    }
+    case 'queue_reordered': {
+      const { entryIds } = event
+      if (!entryIds) return event.entries ? renumberQueue(event.entries) : null
+      const byId = new Map(queue.map(e => [e.id, e]))
+      if (entryIds.length !== queue.length || entryIds.some(id => !byId.has(id))) return null
+      return entryIds.map((id, index) => ({ ...byId.get(id)!, queuePosition: index + 1 }))
+    }
+    case 'queue_updated':
+      return event.entries ? renumberQueue(event.entries) : null
+    case 'day_pass_created':
+      if (!event.vehicleId) return queue
+      return queue.map(e => (
+        e.vehicleId === event.vehicleId ? { ...e, hasDayPass: true, dayPassStatus: 'recent_pass' } : e
+      ))
+  }
+}
 
-const STATION_FEE_PER_SEAT = 0.15
+// Malformed event payloads trigger a reload instead of corrupting the local state
+function patchOrReload<T>(patch: () => T | null): T | null {
+  try {
+    return patch()
+  } catch (error) {
+    console.error('Invalid queue event payload:', error)
+    return null
+  }
+}
 
-type Summary = { 
-  destinationId: string
-  destinationName: string
-  totalVehicles: number
-  totalSeats: number
-  availableSeats: number
-  basePrice: number
+function summarizeQueue(summary: QueueSummary, queue: QueueEntry[]): QueueSummary {
+  return {
+    ...summary,
+    totalVehicles: queue.length,
+    totalSeats: queue.reduce((sum, e) => sum + e.totalSeats, 0),
+    availableSeats: queue.reduce((sum, e) => sum + e.availableSeats, 0),
+  }
 }
 
-type QueueEntry = {
-  id: string
-  vehicleId: string
-  licensePlate: string
-  availableSeats: number
-  totalSeats: number
-  queuePosition: number
-  bookedSeats: number
-  status?: string
-  hasDayPass?: boolean
-  dayPassStatus?: string
-  destinationId?: string
-  destinationName?: string
+// Patch destination summaries from a WebSocket event for a destination whose queue is not loaded.
+// Returns null when the summaries must be reloaded.
+function applySummaryEvent(summaries: QueueSummary[], event: QueueEvent): QueueSummary[] | null {
+  const { destinationId } = event
+  if (event.type === 'day_pass_created' || event.type === 'queue_reordered') return summaries
+  if (!destinationId || !summaries.some(s => s.destinationId === destinationId)) return null
+
+  const patch = (update: (s: QueueSummary) => QueueSummary) =>
+    summaries.map(s => (s.destinationId === destinationId ? update(s) : s))
+
+  switch (event.type) {
+    case 'queue_entry_added': {
+      const { entry } = event
+      return patch(s => ({
+        ...s,
+        totalVehicles: s.totalVehicles + 1,
+        totalSeats: s.totalSeats + entry.totalSeats,
+        availableSeats: s.availableSeats + entry.availableSeats,
+      }))
+    }
+    case 'queue_updated': {
+      const { entries, totals } = event
+      if (entries) return patch(s => summarizeQueue(s, entries))
+      if (!totals) return null
+      return patch(s => ({
+        ...s,
+        totalVehicles: totals.totalVehicles,
+        totalSeats: totals.totalSeats ?? s.totalSeats,
+        availableSeats: totals.availableSeats,
+      }))
+    }
+    default:
+      return null
+  }
 }
 
 function DayPassBadge({ entry }: { entry: QueueEntry }) {
@@ -91,11 +178,17 @@ function DayPassBadge({ entry }: { entry: QueueEntry }) {
 function ActionMenu({ 
   entry,
   onRemove, 
-  onChangeDestination
+  onChangeDestination,
+  onBook,
+  onShowBookings,
+  onTransferSeats
 }: { 
   entry: QueueEntry
   onRemove: () => void
   onChangeDestination: () => void
+  onBook: () => void
+  onShowBookings: () => void
+  onTransferSeats: () => void
 }) {
   const [isOpen, setIsOpen] = useState(false)
   const menuRef = useRef<HTMLDivElement>(null)
@@ -133,6 +226,46 @@ function ActionMenu({
       {isOpen && (
         <div className="absolute right-0 top-full mt-1 w-48 bg-white border border-gray-200 rounded-lg shadow-lg z-50">
           <div className="py-1">
+            <button
+              onClick={() => {
+                onBook()
+                setIsOpen(false)
+              }}
+              disabled={!entry.availableSeats || entry.availableSeats === 0}
+              className={`w-full px-4 py-2 text-left text-sm transition-colors ${
+                !entry.availableSeats || entry.availableSeats === 0
+                  ? 'text-gray-400 cursor-not-allowed'
+                  : 'text-blue-600 hover:bg-blue-50'
+              }`}
+              title={!entry.availableSeats || entry.availableSeats === 0 ? 'Véhicule complet' : 'Réserver des sièges sur ce véhicule'}
+            >
+              🎫 Réserver des sièges
+            </button>
+            <button
+              onClick={() => {
+                onShowBookings()
+                setIsOpen(false)
+              }}
+              className="w-full px-4 py-2 text-left text-sm text-gray-700 hover:bg-gray-50 transition-colors"
+              title="Voir et annuler les réservations de ce véhicule"
+            >
+              🧾 Réservations / annulation
+            </button>
+            <button
+              onClick={() => {
+                onTransferSeats()
+                setIsOpen(false)
+              }}
+              disabled={!entry.bookedSeats}
+              className={`w-full px-4 py-2 text-left text-sm transition-colors ${
+                !entry.bookedSeats
+                  ? 'text-gray-400 cursor-not-allowed'
+                  : 'text-purple-600 hover:bg-purple-50'
+              }`}
+              title={!entry.bookedSeats ? 'Aucun siège réservé à transférer' : 'Transférer des sièges vers un autre véhicule'}
+            >
+              🔀 Transférer des sièges
+            </button>
             <button
               onClick={() => {
                 onRemove()
@@ -256,15 +389,154 @@ function ChangeDestinationModal({
   )
 }
 
+function TransferSeatsModal({
+  isOpen,
+  onClose,
+  fromEntry,
+  candidates,
+  onConfirm
+}: {
+  isOpen: boolean
+  onClose: () => void
+  fromEntry: QueueEntry | null
+  candidates: QueueEntry[]
+  onConfirm: (toEntry: QueueEntry, seats: number) => Promise<void>
+}) {
+  const [targetId, setTargetId] = useState('')
+  const [seats, setSeats] = useState(1)
+  const [submitting, setSubmitting] = useState(false)
+
+  // Live queue updates replace the entry object; only a different entry resets the form
+  useEffect(() => {
+    if (isOpen) {
+      setTargetId('')
+      setSeats(fromEntry?.bookedSeats || 1)
+      setSubmitting(false)
+    }
+  }, [isOpen, fromEntry?.id]) // eslint-disable-line react-hooks/exhaustive-deps
+
+  if (!isOpen || !fromEntry) return null
+
+  const target = candidates.find(e => e.id === targetId) || null
+  const maxSeats = Math.min(fromEntry.bookedSeats, target?.availableSeats ?? fromEntry.bookedSeats)
+  const validationError = !target
+    ? null
+    : seats > target.availableSeats
+      ? `${target.licensePlate} n'a que ${target.availableSeats} place(s) disponible(s)`
+      : seats > fromEntry.bookedSeats
+        ? `${fromEntry.licensePlate} n'a que ${fromEntry.bookedSeats} siège(s) réservé(s)`
+        : null
+  const canConfirm = !!target && seats > 0 && !validationError && !submitting
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-md mx-4">
+        <div className="p-6">
+          <div className="flex justify-between items-center mb-4">
+            <h2 className="text-xl font-semibold">Transférer des sièges</h2>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-600 text-2xl"
+            >
+              ×
+            </button>
+          </div>
+
+          <div className="mb-4 p-3 bg-purple-50 rounded-lg">
+            <div className="text-sm text-gray-600 mb-1">Depuis :</div>
+            <div className="font-semibold">{fromEntry.licensePlate}</div>
+            <div className="text-sm text-gray-500 mt-1">
+              {fromEntry.bookedSeats} siège(s) réservé(s)
+            </div>
+          </div>
+
+          <div className="mb-4">
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Véhicule de destination :
+            </label>
+            {candidates.length === 0 ? (
+              <div className="text-sm text-red-600">Aucun autre véhicule avec des places disponibles</div>
+            ) : (
+              <select
+                value={targetId}
+                onChange={(e) => setTargetId(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500"
+              >
+                <option value="">Choisir un véhicule...</option>
+                {candidates.map(candidate => (
+                  <option key={candidate.id} value={candidate.id}>
+                    #{candidate.queuePosition} {candidate.licensePlate} ({candidate.availableSeats} places dispo)
+                  </option>
+                ))}
+              </select>
+            )}
+          </div>
+
+          <div className="mb-4">
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Nombre de sièges :
+            </label>
+            <input
+              type="number"
+              min={1}
+              max={Math.max(1, maxSeats)}
+              value={seats}
+              onChange={(e) => {
+                const parsed = parseInt(e.target.value, 10)
+                setSeats(Number.isNaN(parsed) ? 1 : Math.max(1, parsed))
+              }}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500"
+            />
+            {validationError && <div className="text-xs text-red-600 mt-1">{validationError}</div>}
+          </div>
+
+          <div className="flex gap-2">
+            <button
+              onClick={onClose}
+              className="flex-1 px-4 py-2 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300 transition-colors"
+            >
+              Annuler
+            </button>
+            <button
+              onClick={async () => {
+                if (!target) return
+                setSubmitting(true)
+                try {
+                  await onConfirm(target, seats)
+                } finally {
+                  setSubmitting(false)
+                }
+              }}
+              disabled={!canConfirm}
+              className={`flex-1 px-4 py-2 rounded-md transition-colors ${
+                canConfirm
+                  ? 'bg-purple-500 text-white hover:bg-purple-600'
+                  : 'bg-gray-300 text-gray-500 cursor-not-allowed'
+              }`}
+            >
+              {submitting ? 'Transfert...' : 'Transférer'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
 
 function SortableQueueItem({ 
   entry,
   onRemove,
   onChangeDestination,
+  onBook,
+  onShowBookings,
+  onTransferSeats,
 }: { 
   entry: QueueEntry
   onRemove: () => void
   onChangeDestination: () => void
+  onBook: () => void
+  onShowBookings: () => void
+  onTransferSeats: () => void
 }) {
   const {
     attributes,
@@ -310,6 +582,9 @@ function SortableQueueItem({
           entry={entry}
           onRemove={onRemove}
           onChangeDestination={onChangeDestination}
+          onBook={onBook}
+          onShowBookings={onShowBookings}
+          onTransferSeats={onTransferSeats}
         />
       </div>
     </div>
@@ -317,10 +592,14 @@ function SortableQueueItem({
 }
 
 export default function QueueManagement() {
-  const [summaries, setSummaries] = useState<Summary[]>([])
-  const [selected, setSelected] = useState<Summary | null>(null)
+  const [summaries, setSummaries] = useState<QueueSummary[]>([])
+  const [selected, setSelected] = useState<QueueSummary | null>(null)
   const [queue, setQueue] = useState<QueueEntry[]>([])
   const [loading, setLoading] = useState(false)
+
+  // Live queue connection state
+  const [wsConnected, setWsConnected] = useState(false)
+  const [wsLatency, setWsLatency] = useState<number | undefined>(undefined)
   
   // Notification state
   const [notification, setNotification] = useState<{message: string; type: 'success' | 'error'} | null>(null)
@@ -343,6 +622,8 @@ export default function QueueManagement() {
   const [vehicleAuthorizedStations, setVehicleAuthorizedStations] = useState<any[]>([])
   const [selectedDestination, setSelectedDestination] = useState<{stationId: string; stationName: string; basePrice?: number} | null>(null)
   const [addingVehicle, setAddingVehicle] = useState(false)
+  // Set synchronously so a double click cannot queue the vehicle twice
+  const addingVehicleRef = useRef(false)
 
   // Day pass checker state
   const [dayPassModalOpen, setDayPassModalOpen] = useState(false)
@@ -371,13 +652,24 @@ export default function QueueManagement() {
   const [printingDayPassVehicleIds, setPrintingDayPassVehicleIds] = useState<Set<string>>(new Set())
   const dayPassPrinterTimeoutRef = useRef<NodeJS.Timeout>()
 
+  // Booking desk state
+  const [bookingDeskOpen, setBookingDeskOpen] = useState(false)
+  const [bookingDeskTarget, setBookingDeskTarget] = useState<{ destinationId?: string; entryId?: string }>({})
+
+  // Booking history / cancellation state
+  const [bookingHistoryEntryId, setBookingHistoryEntryId] = useState<string | null>(null)
+
+  // Seat transfer state
+  const [transferFromEntryId, setTransferFromEntryId] = useState<string | null>(null)
+  const transferFromEntry = queue.find(e => e.id === transferFromEntryId) || null
+
   // Manual client ticket printer state
   const [ticketPrinterModalOpen, setTicketPrinterModalOpen] = useState(false)
   const [ticketDestinationId, setTicketDestinationId] = useState('')
   const [ticketSeatCount, setTicketSeatCount] = useState(1)
   const [ticketPrinting, setTicketPrinting] = useState(false)
   const [ticketError, setTicketError] = useState<string | null>(null)
-  const [ticketPrinterConfig, setTicketPrinterConfig] = useState<PrinterIpConfig | null>(null)
+  const [ticketPrinterConfig, setTicketPrinterConfig] = useState<NamedPrinter | null>(null)
   const selectedTicketDestination = ticketDestinationId
     ? summaries.find((s) => s.destinationId === ticketDestinationId) || null
     : null
@@ -390,38 +682,17 @@ export default function QueueManagement() {
     if (!selectedTicketDestination) {
       return 'Sélectionnez une destination pour voir un aperçu du ticket.'
     }
-    const now = new Date()
-    const dateStr = now.toLocaleDateString('fr-FR')
-    const timeStr = now.toLocaleTimeString('fr-FR', { hour: '2-digit', minute: '2-digit' })
-    const destName = selectedTicketDestination.destinationName
-    const basePricePerSeat = ticketBasePrice
-    const stationFeePerSeat = STATION_FEE_PER_SEAT
-
-    const lines = [
-      '================================',
-      '  STE DHRAIFF SERVICES',
-      '     TRANSPORT',
-      '================================',
-      '',
-      '      BILLET CLIENT',
-      '--------------------------------',
-      `Destination: ${destName}`,
-      `Nombre de sièges: ${ticketSeatCountSafe}`,
-      `Prix par siège: ${basePricePerSeat.toFixed(2)} TND`,
-      `Total billets: ${ticketBaseTotal.toFixed(2)} TND`,
-      `Frais station (${stationFeePerSeat.toFixed(3)} TND x ${ticketSeatCountSafe})`,
-      `Total frais: ${ticketStationFeeTotal.toFixed(3)} TND`,
-      '--------------------------------',
-      `Montant TTC: ${ticketGrandTotal.toFixed(3)} TND`,
-      `Date: ${dateStr} ${timeStr}`,
-      'Agent: __________',
-      '',
-      'Bon voyage !',
-      '',
-      ''
-    ]
-    return lines.join('\n')
-  }, [selectedTicketDestination, ticketSeatCountSafe, ticketBasePrice, ticketBaseTotal, ticketStationFeeTotal, ticketGrandTotal])
+    const staffInfo = getStaffInfo()
+    return ticketTemplateService.preview('booking', {
+      destinationName: selectedTicketDestination.destinationName,
+      seatNumber: ticketSeatCountSafe,
+      totalAmount: ticketGrandTotal,
+      basePrice: ticketBasePrice,
+      stationFee: STATION_FEE_PER_SEAT,
+      createdBy: staffInfo ? `${staffInfo.firstName} ${staffInfo.lastName}` : 'Agent',
+      createdAt: new Date(),
+    }, ticketPrinterConfig?.width || 48)
+  }, [selectedTicketDestination, ticketSeatCountSafe, ticketBasePrice, ticketGrandTotal, ticketPrinterConfig])
 
   const sensors = useSensors(
     useSensor(PointerSensor),
@@ -515,27 +786,107 @@ export default function QueueManagement() {
     setLoading(true)
     try {
       const response = await listQueue(selected.destinationId)
-      // Handle empty response or null data
-      const data = response.data || []
-      const items = Array.isArray(data) ? data.map((e) => ({
-        ...e,
-        availableSeats: Number(e.availableSeats ?? 0),
-        totalSeats: Number(e.totalSeats ?? 0),
-        queuePosition: Number(e.queuePosition ?? 0),
-        bookedSeats: Number(e.bookedSeats ?? 0),
-        status: e.status,
-        hasDayPass: e.hasDayPass ?? false,
-        dayPassStatus: e.dayPassStatus ?? 'no_pass',
-      })) as QueueEntry[] : []
-      setQueue(items)
+      setQueue(response.data)
+      offlineJournalService.rememberQueue(selected.destinationId, response.data)
     } catch (error) {
       console.error('Failed to load queue:', error)
-      setQueue([]) // Set empty array on error
+      // Offline: keep working on the last known queue, including offline changes
+      const cached = isOfflineError(error) ? offlineJournalService.getCachedQueue(selected.destinationId) : null
+      setQueue(cached || [])
     } finally {
       setLoading(false)
     }
   }
 
+  // Keep the latest state and loaders reachable from the WebSocket handler
+  const selectedRef = useRef<QueueSummary | null>(selected)
+  const queueRef = useRef<QueueEntry[]>(queue)
+  const summariesRef = useRef<QueueSummary[]>(summaries)
+  const loadQueueRef = useRef(loadQueue)
+  const loadSummariesRef = useRef(loadSummaries)
+  selectedRef.current = selected
+  queueRef.current = queue
+  summariesRef.current = summaries
+  loadQueueRef.current = loadQueue
+  loadSummariesRef.current = loadSummaries
+
+  const handleQueueEvent = useCallback((event: QueueEvent) => {
+    const { destinationId } = event
+    const current = selectedRef.current
+    const affectsSelected = !!current && (!destinationId || destinationId === current.destinationId)
+
+    if (affectsSelected && current) {
+      const patched = patchOrReload(() => applyQueueEvent(queueRef.current, event))
+      if (patched) {
+        queueRef.current = patched
+        setQueue(patched)
+        summariesRef.current = summariesRef.current.map(s => (
+          s.destinationId === current.destinationId ? summarizeQueue(s, patched) : s
+        ))
+        setSummaries(summariesRef.current)
+      } else {
+        loadQueueRef.current()
+        loadSummariesRef.current()
+      }
+      // Events without a destination may concern other queues as well
+      if (destinationId) return
+    }
+
+    const patchedSummaries = patchOrReload(() => applySummaryEvent(summariesRef.current, event))
+    if (patchedSummaries) {
+      summariesRef.current = patchedSummaries
+      setSummaries(patchedSummaries)
+    } else {
+      loadSummariesRef.current()
+    }
+  }, [])
+
+  useEffect(() => {
+    // Without a known station there is no channel to follow; queues load on demand
+    const stationId = endpointSettingsService.getStationId()
+    if (!stationId) {
+      console.warn('No station configured, live queue updates are disabled')
+      setWsConnected(false)
+      return
+    }
+    let hasConnected = false
+    const client = connectQueue(stationId, {
+      onOpen: () => {
+        // Resynchronise after a reconnection, events may have been missed meanwhile
+        if (hasConnected) {
+          // Send what was done offline first so the reload includes it
+          offlineJournalService.replay().finally(() => {
+            loadSummariesRef.current()
+            if (selectedRef.current) loadQueueRef.current()
+          })
+        }
+        hasConnected = true
+      },
+      onConnectionStatus: (connected, latency) => {
+        setWsConnected(connected)
+        if (!connected) {
+          setWsLatency(undefined)
+        } else if (latency) {
+          setWsLatency(latency)
+        }
+      },
+      onMessage: (message) => {
+        let event: QueueEvent | null
+        try {
+          event = parseQueueEvent(message, 'event')
+        } catch (error) {
+          // Something changed that this desk cannot follow: start again from the server
+          console.error('Invalid queue event payload:', error)
+          loadSummariesRef.current()
+          if (selectedRef.current) loadQueueRef.current()
+          return
+        }
+        if (event) handleQueueEvent(event)
+      },
+    })
+    return () => client.close()
+  }, [handleQueueEvent])
+
   const handleDragEnd = async (event: DragEndEvent) => {
     const { active, over } = event
     if (!selected || !over || active.id === over.id) return
@@ -561,6 +912,64 @@ export default function QueueManagement() {
     }
   }
 
+  const openBookingDesk = (destinationId?: string, entryId?: string) => {
+    setBookingDeskTarget({ destinationId, entryId })
+    setBookingDeskOpen(true)
+  }
+
+  const handleBooked = async (destinationId: string) => {
+    await loadSummaries()
+    if (selected?.destinationId === destinationId) {
+      await loadQueue()
+    }
+  }
+
+  // Release cancelled seats right away, the queue events will confirm the new counts
+  const handleBookingCancelled = (entryId: string, seats: number) => {
+    const patched = queue.map(e => (
+      e.id === entryId
+        ? {
+            ...e,
+            availableSeats: Math.min(e.totalSeats, e.availableSeats + seats),
+            bookedSeats: Math.max(0, e.bookedSeats - seats),
+          }
+        : e
+    ))
+    setQueue(patched)
+    if (selected) {
+      setSummaries(prev => prev.map(s => (
+        s.destinationId === selected.destinationId ? summarizeQueue(s, patched) : s
+      )))
+    }
+  }
+
+  const handleConfirmTransferSeats = async (toEntry: QueueEntry, seats: number) => {
+    if (!selected || !transferFromEntry) return
+    const fromEntry = transferFromEntry
+    try {
+      const response = await transferSeats(selected.destinationId, fromEntry.id, toEntry.id, seats)
+      const result = response.data
+      // Prefer the entries returned by the backend, otherwise move the seats locally
+      const updatedFrom = result.fromEntry?.id === fromEntry.id
+        ? result.fromEntry
+        : { ...fromEntry, availableSeats: fromEntry.availableSeats + seats, bookedSeats: fromEntry.bookedSeats - seats }
+      const updatedTo = result.toEntry?.id === toEntry.id
+        ? result.toEntry
+        : { ...toEntry, availableSeats: toEntry.availableSeats - seats, bookedSeats: toEntry.bookedSeats + seats }
+      const patched = queue.map(e => (e.id === fromEntry.id ? updatedFrom : e.id === toEntry.id ? updatedTo : e))
+      setQueue(patched)
+      setSummaries(prev => prev.map(s => (
+        s.destinationId === selected.destinationId ? summarizeQueue(s, patched) : s
+      )))
+      setTransferFromEntryId(null)
+      showNotification(`${seats} siège(s) transféré(s) de ${fromEntry.licensePlate} vers ${toEntry.licensePlate}`, 'success')
+    } catch (error) {
+      console.error('Failed to transfer seats:', error)
+      const errorMsg = error instanceof Error ? error.message : String(error)
+      showNotification(`Erreur transfert sièges: ${errorMsg}`, 'error')
+    }
+  }
+
   const handleRemove = async (entry: QueueEntry) => {
     if (!selected) return
     if (!confirm(`Êtes-vous sûr de vouloir retirer ${entry.licensePlate} de la file ?`)) return
@@ -667,10 +1076,16 @@ export default function QueueManagement() {
       const response = await searchVehicles(query)
       setSearchResults(response.data || [])
       setSearchError(null)
+      offlineJournalService.rememberVehicles(response.data)
     } catch (error) {
       console.error('Search error:', error)
-      setSearchResults([])
-      setSearchError("Erreur")
+      if (isOfflineError(error)) {
+        setSearchResults(offlineJournalService.searchCachedVehicles(query))
+        setSearchError(null)
+      } else {
+        setSearchResults([])
+        setSearchError("Erreur")
+      }
     } finally {
       setSearching(false)
     }
@@ -682,8 +1097,19 @@ export default function QueueManagement() {
     try {
       const response = await getVehicleAuthorizedRoutes(vehicle.id)
       setVehicleAuthorizedStations(response.data)
+      offlineJournalService.rememberAuthorizedStations(vehicle.id, response.data)
     } catch (error) {
       console.error('Failed to load authorized stations:', error)
+      if (isOfflineError(error)) {
+        const cached = offlineJournalService.getCachedAuthorizedStations(vehicle.id)
+        setVehicleAuthorizedStations(cached || summaries.map(s => ({
+          id: s.destinationId,
+          stationId: s.destinationId,
+          stationName: s.destinationName,
+          priority: 0,
+          isDefault: false
+        })))
+      }
     }
   }
 
@@ -704,7 +1130,6 @@ export default function QueueManagement() {
     setVehicleAuthorizedStations([])
     setSearchResults([])
     setSearchError(null)
-    setAddingVehicle(false)
     // Keep the query and searching state - let the user keep typing
   }
 
@@ -719,7 +1144,7 @@ export default function QueueManagement() {
   useEffect(() => {
     if (ticketPrinterModalOpen) {
       try {
-        const config = printerIpConfigService.getConfig()
+        const config = printerIpConfigService.getPrinterFor('booking')
         setTicketPrinterConfig(config)
       } catch (error) {
         console.error('Failed to load printer config for ticket preview:', error)
@@ -768,24 +1193,33 @@ export default function QueueManagement() {
     } catch (error) {
       console.error('Failed to print booking ticket:', error)
       const errorMsg = error instanceof Error ? error.message : String(error)
-      showNotification(`Erreur impression ticket: ${errorMsg}`, 'error')
+      showNotification(error instanceof PrintQueuedError ? errorMsg : `Erreur impression ticket: ${errorMsg}`, 'error')
+      // A queued ticket prints on reconnection; printing it again would duplicate it
+      if (error instanceof PrintQueuedError) {
+        setTicketPrinterModalOpen(false)
+        resetTicketPrinterForm()
+      }
     } finally {
       setTicketPrinting(false)
     }
   }
 
   const handleAddVehicle = async () => {
-    if (!selectedVehicle || !selectedDestination) return
+    if (!selectedVehicle || !selectedDestination || addingVehicleRef.current) return
     
     const destinationId = selectedDestination.stationId
     const destinationName = selectedDestination.stationName
     const vehicleId = selectedVehicle.id
+    // Also replayed from the offline journal if the request times out
+    const idempotencyKey = newIdempotencyKey()
     
     // Reset form FIRST - this unblocks the input immediately
     resetAddVehicleForm()
+    addingVehicleRef.current = true
+    setAddingVehicle(true)
     
     try {
-      const response = await addVehicleToQueue(destinationId, vehicleId, destinationName)
+      const response = await addVehicleToQueue(destinationId, vehicleId, destinationName, { idempotencyKey })
       
       const staffInfo = getStaffInfo()
       const staffName = staffInfo ? `${staffInfo.firstName} ${staffInfo.lastName}` : 'Unknown'
@@ -802,6 +1236,7 @@ export default function QueueManagement() {
         })
         
         const ticketData: TicketData = {
+          passId: dayPassData.id,
           licensePlate: dayPassData.licensePlate || selectedVehicle.licensePlate,
           destinationName: destinationName,
           seatNumber: 0,
@@ -821,7 +1256,7 @@ export default function QueueManagement() {
         } catch (printError) {
           console.error('Print error:', printError)
           const errorMsg = printError instanceof Error ? printError.message : String(printError)
-          showNotification(`Erreur impression: ${errorMsg}`, 'error')
+          showNotification(printError instanceof PrintQueuedError ? `Véhicule ajouté. ${errorMsg}` : `Erreur impression: ${errorMsg}`, 'error')
         }
       } else {
         showNotification('Véhicule ajouté avec succès!', 'success')
@@ -834,23 +1269,73 @@ export default function QueueManagement() {
         if (targetSummary) {
           setSelected(targetSummary)
           const response = await listQueue(destinationId)
-          const items = (response.data as any[]).map((e) => ({
-            ...e,
-            availableSeats: Number(e.availableSeats ?? 0),
-            totalSeats: Number(e.totalSeats ?? 0),
-            queuePosition: Number(e.queuePosition ?? 0),
-            bookedSeats: Number(e.bookedSeats ?? 0),
-            status: e.status,
-            hasDayPass: e.hasDayPass ?? false,
-            dayPassStatus: e.dayPassStatus ?? 'no_pass',
-          })) as QueueEntry[]
-          setQueue(items)
+          setQueue(response.data)
         }
       }
     } catch (error) {
+      if (isOfflineError(error)) {
+        await recordOfflineQueueAdd(selectedVehicle, destinationId, destinationName, idempotencyKey)
+        return
+      }
       console.error('Failed to add vehicle:', error)
       const errorMsg = error instanceof Error ? error.message : String(error)
       showNotification(`Erreur ajout véhicule: ${errorMsg}`, 'error')
+    } finally {
+      addingVehicleRef.current = false
+      setAddingVehicle(false)
+    }
+  }
+
+  // The server cannot tell whether the vehicle already paid today, so the
+  // operator decides; the journal flags any mismatch once replayed
+  const recordOfflineQueueAdd = async (vehicle: Pick<Vehicle, 'id' | 'licensePlate'>, destinationId: string, destinationName: string, idempotencyKey: string) => {
+    const dayPassSold = confirm(
+      `Serveur injoignable: l'ajout de ${vehicle.licensePlate} sera enregistré hors ligne.\n\n` +
+      'Vendre et imprimer un pass journalier (2.000 TND) ?'
+    )
+    offlineJournalService.record({
+      type: 'queue_add',
+      destinationId,
+      destinationName,
+      vehicleId: vehicle.id,
+      licensePlate: vehicle.licensePlate,
+      localEntryId: offlineJournalService.newLocalEntryId(),
+      dayPassSold
+    }, idempotencyKey)
+
+    if (dayPassSold) {
+      const staffInfo = getStaffInfo()
+      const staffName = staffInfo ? `${staffInfo.firstName} ${staffInfo.lastName}` : 'Unknown'
+      try {
+        await printerService.printDayPassTicket({
+          licensePlate: vehicle.licensePlate,
+          destinationName,
+          seatNumber: 0,
+          totalAmount: 2.0,
+          basePrice: 2.0,
+          createdBy: staffName,
+          createdAt: new Date().toISOString(),
+          stationName: 'Station',
+          routeName: destinationName,
+          staffFirstName: staffInfo?.firstName || '',
+          staffLastName: staffInfo?.lastName || '',
+        })
+      } catch (printError) {
+        console.error('Print error:', printError)
+        const errorMsg = printError instanceof Error ? printError.message : String(printError)
+        showNotification(
+          printError instanceof PrintQueuedError
+            ? `Ajout hors ligne enregistré. ${errorMsg}`
+            : `Ajout hors ligne enregistré, erreur impression: ${errorMsg}`,
+          'error'
+        )
+        return
+      }
+    }
+
+    showNotification('Serveur injoignable: ajout enregistré hors ligne, il sera envoyé au retour du réseau', 'success')
+    if (selected?.destinationId === destinationId) {
+      setQueue(offlineJournalService.getCachedQueue(destinationId) || [])
     }
   }
 
@@ -999,6 +1484,7 @@ export default function QueueManagement() {
       })
       
       const exitPassTicketData: TicketData = {
+        passId: trip.id,
         licensePlate: trip.licensePlate,
         destinationName: trip.destinationName,
         seatNumber: seatsBooked,
@@ -1025,7 +1511,11 @@ export default function QueueManagement() {
     } catch (error) {
       console.error('Failed to print exit pass for trip:', error)
       const errorMsg = error instanceof Error ? error.message : String(error)
-      showNotification(`Erreur impression laissez-passer: ${errorMsg}`, 'error')
+      showNotification(error instanceof PrintQueuedError ? errorMsg : `Erreur impression laissez-passer: ${errorMsg}`, 'error')
+      if (error instanceof PrintQueuedError) {
+        setExitPassModalOpen(false)
+        setTrips([])
+      }
     } finally {
       // Remove from printing set
       setPrintingTripIds(prev => {
@@ -1107,6 +1597,7 @@ export default function QueueManagement() {
       })
       
       const ticketData: TicketData = {
+        passId: dayPass.id,
         licensePlate: dayPass.licensePlate || vehicleWithDayPass.licensePlate,
         destinationName: dayPass.destinationName || 'Station',
         seatNumber: 0,
@@ -1131,7 +1622,11 @@ export default function QueueManagement() {
     } catch (error) {
       console.error('Failed to print day pass:', error)
       const errorMsg = error instanceof Error ? error.message : String(error)
-      showNotification(`Erreur impression pass journalier: ${errorMsg}`, 'error')
+      showNotification(error instanceof PrintQueuedError ? errorMsg : `Erreur impression pass journalier: ${errorMsg}`, 'error')
+      if (error instanceof PrintQueuedError) {
+        setDayPassPrinterModalOpen(false)
+        setDayPassesToPrint([])
+      }
     } finally {
       // Remove from printing set
       setPrintingDayPassVehicleIds(prev => {
@@ -1171,8 +1666,17 @@ export default function QueueManagement() {
         }
       `}</style>
 
-      {/* Printer Status Display */}
-      <div className="flex justify-end mb-4">
+      {/* Live connection and printer status */}
+      <div className="flex justify-end items-center gap-4 mb-4">
+        <OfflineJournalStatus
+          onSynced={() => {
+            loadSummaries()
+            if (selected) loadQueue()
+          }}
+          onNotify={showNotification}
+        />
+        <LatencyDisplay connected={wsConnected} latency={wsLatency} compact />
+        <PrintHistory onNotify={showNotification} />
         <PrinterStatusDisplay />
       </div>
 
@@ -1190,6 +1694,18 @@ export default function QueueManagement() {
         >
           Actualiser
         </button>
+        <button
+          onClick={async () => {
+            if (!summaries.length) {
+              await loadSummaries()
+            }
+            openBookingDesk(selected?.destinationId)
+          }}
+          className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600 transition-colors text-sm"
+          title="Réserver des sièges et imprimer les billets"
+        >
+          Réserver Sièges
+        </button>
         <button
           onClick={() => {
             setSelectedDayPassVehicle(null)
@@ -1436,6 +1952,9 @@ export default function QueueManagement() {
                       entry={entry}
                       onRemove={() => handleRemove(entry)}
                       onChangeDestination={() => handleChangeDestination(entry)}
+                      onBook={() => openBookingDesk(selected.destinationId, entry.id)}
+                      onShowBookings={() => setBookingHistoryEntryId(entry.id)}
+                      onTransferSeats={() => setTransferFromEntryId(entry.id)}
                     />
                   ))}
                 </div>
@@ -1445,6 +1964,37 @@ export default function QueueManagement() {
         </div>
       )}
 
+      {/* Booking desk */}
+      <BookingDesk
+        isOpen={bookingDeskOpen}
+        onClose={() => setBookingDeskOpen(false)}
+        summaries={summaries}
+        initialDestinationId={bookingDeskTarget.destinationId}
+        initialEntryId={bookingDeskTarget.entryId}
+        onBooked={handleBooked}
+        onNotify={showNotification}
+      />
+
+      {/* Booking history and cancellation */}
+      <BookingHistory
+        isOpen={!!bookingHistoryEntryId}
+        onClose={() => setBookingHistoryEntryId(null)}
+        entry={queue.find(e => e.id === bookingHistoryEntryId) || null}
+        destinationName={selected?.destinationName || ''}
+        basePrice={selected?.basePrice || 0}
+        onCancelled={handleBookingCancelled}
+        onNotify={showNotification}
+      />
+
+      {/* Seat transfer modal */}
+      <TransferSeatsModal
+        isOpen={!!transferFromEntry}
+        onClose={() => setTransferFromEntryId(null)}
+        fromEntry={transferFromEntry}
+        candidates={queue.filter(e => e.id !== transferFromEntryId && e.availableSeats > 0)}
+        onConfirm={handleConfirmTransferSeats}
+      />
+
       {/* Change destination modal */}
       <ChangeDestinationModal
         isOpen={changeDestModalOpen}
@@ -1687,7 +2237,7 @@ export default function QueueManagement() {
                   <span className="font-medium text-gray-700">Imprimante configurée</span>
                   {ticketPrinterConfig ? (
                     <span className="text-gray-600">
-                      {ticketPrinterConfig.ip}:{ticketPrinterConfig.port}
+                      {ticketPrinterConfig.name} ({ticketPrinterConfig.ip}:{ticketPrinterConfig.port})
                     </span>
                   ) : (
                     <span className="text-red-500">Non configurée</span>
@@ -0,0 +1,102 @@
+import { useEffect, useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { getStaffInfo, getTokenExpiry, isTokenExpired, renewSession } from "@/api/client";
+
+type Props = { onLogout: () => void };
+
+// Warn this long before the token expires
+const WARNING_BEFORE_MS = 5 * 60 * 1000;
+const CHECK_INTERVAL_MS = 15 * 1000;
+
+// Overlay rendered next to SupervisorMain: it never unmounts the screens, so
+// an expired session is renewed without losing the queue being worked on
+export default function SessionGuard({ onLogout }: Props) {
+  const [now, setNow] = useState(() => Date.now());
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [cin, setCin] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), CHECK_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  const expiry = getTokenExpiry();
+  if (expiry === null) return null;
+
+  const expired = isTokenExpired();
+  const remaining = expiry - now;
+  const staff = getStaffInfo();
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setLoading(true);
+    try {
+      await renewSession(cin.trim());
+      setCin("");
+      setDialogOpen(false);
+      setNow(Date.now());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Échec de la connexion");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (expired || dialogOpen) {
+    return (
+      <div className="fixed inset-0 bg-black bg-opacity-60 flex items-center justify-center z-[100]">
+        <Card className="w-full max-w-sm p-6 space-y-4 shadow-2xl">
+          <div>
+            <h2 className="text-xl font-semibold">{expired ? "Session verrouillée" : "Prolonger la session"}</h2>
+            {staff && <p className="text-sm font-medium mt-1">{staff.firstName} {staff.lastName}</p>}
+            <p className="text-sm text-muted-foreground mt-1">
+              Saisissez votre CIN pour continuer. Votre travail en cours est conservé.
+            </p>
+          </div>
+          <form className="space-y-3" onSubmit={submit}>
+            <Input
+              value={cin}
+              onChange={(e) => setCin(e.target.value)}
+              placeholder="Numéro CIN"
+              maxLength={8}
+              autoFocus
+            />
+            {error && <p className="text-sm text-destructive font-medium">{error}</p>}
+            <Button className="w-full" type="submit" disabled={loading || !cin.trim()}>
+              {loading ? "Vérification..." : "Déverrouiller"}
+            </Button>
+          </form>
+          <div className="flex justify-between">
+            {!expired && (
+              <Button variant="ghost" onClick={() => setDialogOpen(false)}>
+                Plus tard
+              </Button>
+            )}
+            <Button variant="ghost" className="text-destructive ml-auto" onClick={onLogout}>
+              Se déconnecter
+            </Button>
+          </div>
+        </Card>
+      </div>
+    );
+  }
+
+  if (remaining > WARNING_BEFORE_MS) return null;
+
+  const minutes = Math.max(1, Math.ceil(remaining / 60000));
+  return (
+    <div className="fixed bottom-4 right-4 z-[90] flex items-center gap-3 p-3 rounded-lg bg-amber-50 border border-amber-300 shadow-lg">
+      <span className="text-sm text-amber-900">
+        Votre session expire dans {minutes} min
+      </span>
+      <Button size="sm" onClick={() => setDialogOpen(true)}>
+        Prolonger
+      </Button>
+    </div>
+  );
+}
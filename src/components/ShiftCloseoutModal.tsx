@@ -0,0 +1,233 @@
+import { useEffect, useState } from 'react'
+import { getStaffInfo } from '@/api/client'
+import { printerService, PrintQueuedError } from '@/services/printerService'
+import {
+  countDenominations,
+  DENOMINATIONS,
+  shiftCloseoutService,
+  type ShiftCloseout,
+  type ShiftSales,
+} from '@/services/shiftCloseoutService'
+
+type Props = {
+  onClose: () => void
+  onLogout: () => void
+}
+
+function formatDateTime(iso: string) {
+  return new Date(iso).toLocaleString('fr-FR', { day: '2-digit', month: '2-digit', hour: '2-digit', minute: '2-digit' })
+}
+
+function formatVariance(variance: number) {
+  return `${variance > 0 ? '+' : ''}${variance.toFixed(3)} TND`
+}
+
+function varianceClass(variance: number) {
+  if (variance === 0) return 'text-green-700'
+  return variance > 0 ? 'text-orange-600' : 'text-red-600'
+}
+
+// "Clôturer ma caisse": count the drawer against the shift's sales, record
+// the variance and print the Z-report
+export default function ShiftCloseoutModal({ onClose, onLogout }: Props) {
+  const staff = getStaffInfo()
+  const staffName = staff ? `${staff.firstName} ${staff.lastName}`.trim() : ''
+  const [sales, setSales] = useState<ShiftSales | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [counts, setCounts] = useState<Record<string, number>>({})
+  const [note, setNote] = useState('')
+  const [closeout, setCloseout] = useState<ShiftCloseout | null>(null)
+  const [printMessage, setPrintMessage] = useState<{ text: string; type: 'success' | 'error' } | null>(null)
+  const [printing, setPrinting] = useState(false)
+
+  useEffect(() => {
+    if (!staff?.staffId) {
+      setError('Session invalide: reconnectez-vous pour clôturer la caisse')
+      return
+    }
+    shiftCloseoutService
+      .loadShift(staff.staffId)
+      .then(setSales)
+      .catch((err) => setError(err instanceof Error ? err.message : String(err)))
+  }, [staff?.staffId])
+
+  const counted = countDenominations(counts)
+  const variance = sales ? Math.round((counted - sales.expected.total) * 1000) / 1000 : 0
+
+  const printReport = async (record: ShiftCloseout) => {
+    setPrinting(true)
+    setPrintMessage(null)
+    try {
+      await printerService.printCloseoutReport(shiftCloseoutService.toReport(record))
+      setPrintMessage({ text: 'Ticket Z imprimé', type: 'success' })
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : String(err)
+      setPrintMessage({ text: err instanceof PrintQueuedError ? errorMsg : `Erreur impression: ${errorMsg}`, type: 'error' })
+    } finally {
+      setPrinting(false)
+    }
+  }
+
+  const submit = async () => {
+    if (!sales || !staff?.staffId) return
+    if (variance !== 0 && !note.trim()) {
+      setError("Expliquez l'écart dans la note avant de clôturer")
+      return
+    }
+    setError(null)
+    let record: ShiftCloseout
+    try {
+      record = await shiftCloseoutService.close({ staffId: staff.staffId, staffName, sales, denominations: counts, note })
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err))
+      return
+    }
+    setCloseout(record)
+    await printReport(record)
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-2xl mx-4 max-h-[90vh] overflow-y-auto">
+        <div className="p-6 space-y-4">
+          <div className="flex justify-between items-center">
+            <div>
+              <h2 className="text-xl font-semibold">Clôturer ma caisse</h2>
+              {sales && (
+                <p className="text-sm text-gray-500">
+                  {staffName} - service depuis {formatDateTime(sales.shiftStart)}
+                </p>
+              )}
+            </div>
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-600 text-2xl leading-none">
+              ×
+            </button>
+          </div>
+
+          {error && <div className="p-3 rounded bg-red-50 text-red-700 text-sm">{error}</div>}
+          {!sales && !error && <div className="text-center py-8 text-gray-500">Chargement des ventes...</div>}
+
+          {sales && !closeout && (
+            <>
+              <div className="border rounded p-3 text-sm space-y-1">
+                <div className="flex justify-between">
+                  <span>Sièges ({sales.expected.seats})</span>
+                  <span>{sales.expected.seatAmount.toFixed(3)} TND</span>
+                </div>
+                <div className="flex justify-between">
+                  <span>Frais station</span>
+                  <span>{sales.expected.stationFees.toFixed(3)} TND</span>
+                </div>
+                <div className="flex justify-between">
+                  <span>Pass journée ({sales.expected.dayPasses})</span>
+                  <span>{sales.expected.dayPassAmount.toFixed(3)} TND</span>
+                </div>
+                {sales.expected.refundAmount > 0 && (
+                  <div className="flex justify-between text-red-700">
+                    <span>Remboursements ({sales.expected.refundedSeats} sièges)</span>
+                    <span>-{sales.expected.refundAmount.toFixed(3)} TND</span>
+                  </div>
+                )}
+                <div className="flex justify-between font-semibold border-t pt-1">
+                  <span>Montant attendu</span>
+                  <span>{sales.expected.total.toFixed(3)} TND</span>
+                </div>
+              </div>
+
+              <div>
+                <h3 className="font-medium mb-2">Comptage de la caisse</h3>
+                <div className="grid grid-cols-3 gap-2">
+                  {DENOMINATIONS.map((value) => (
+                    <label key={value} className="flex items-center gap-2 text-sm">
+                      <span className="w-16 text-right font-mono">{value >= 1 ? value : value.toFixed(3)}</span>
+                      <span className="text-gray-400">x</span>
+                      <input
+                        type="number"
+                        min="0"
+                        value={counts[String(value)] || ''}
+                        onChange={(e) =>
+                          setCounts((c) => ({ ...c, [String(value)]: Math.max(0, Math.floor(Number(e.target.value) || 0)) }))
+                        }
+                        className="w-16 px-2 py-1 border rounded"
+                      />
+                    </label>
+                  ))}
+                </div>
+              </div>
+
+              <div className="border rounded p-3 text-sm space-y-1">
+                <div className="flex justify-between">
+                  <span>Montant compté</span>
+                  <span className="font-semibold">{counted.toFixed(3)} TND</span>
+                </div>
+                <div className="flex justify-between">
+                  <span>Écart</span>
+                  <span className={`font-bold ${varianceClass(variance)}`}>{formatVariance(variance)}</span>
+                </div>
+              </div>
+
+              <textarea
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                placeholder={variance !== 0 ? "Explication de l'écart (obligatoire)" : 'Note (facultative)'}
+                className="w-full px-3 py-2 border rounded text-sm"
+                rows={2}
+              />
+
+              <div className="flex justify-end gap-2">
+                <button
+                  onClick={onClose}
+                  className="px-4 py-2 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300 transition-colors"
+                >
+                  Annuler
+                </button>
+                <button
+                  onClick={submit}
+                  className="px-4 py-2 bg-blue-500 text-white rounded-md hover:bg-blue-600"
+                >
+                  Clôturer et imprimer le ticket Z
+                </button>
+              </div>
+            </>
+          )}
+
+          {closeout && (
+            <>
+              <div className="p-3 rounded bg-green-50 text-green-800 text-sm">
+                Caisse clôturée: {closeout.counted.toFixed(3)} TND comptés pour {closeout.expected.total.toFixed(3)} TND
+                attendus, écart <span className={`font-bold ${varianceClass(closeout.variance)}`}>{formatVariance(closeout.variance)}</span>.
+              </div>
+              {printMessage && (
+                <div
+                  className={`p-3 rounded text-sm ${
+                    printMessage.type === 'success' ? 'bg-green-50 text-green-800' : 'bg-red-50 text-red-700'
+                  }`}
+                >
+                  {printMessage.text}
+                </div>
+              )}
+              <div className="flex justify-end gap-2">
+                <button
+                  onClick={() => printReport(closeout)}
+                  disabled={printing}
+                  className="px-4 py-2 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300 disabled:opacity-50"
+                >
+                  {printing ? 'Impression...' : 'Réimprimer le ticket Z'}
+                </button>
+                <button
+                  onClick={onClose}
+                  className="px-4 py-2 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300 transition-colors"
+                >
+                  Fermer
+                </button>
+                <button onClick={onLogout} className="px-4 py-2 bg-blue-500 text-white rounded-md hover:bg-blue-600">
+                  Se déconnecter
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,186 @@
+import { Fragment, useEffect, useState } from 'react'
+import { getStaffInfo } from '@/api/client'
+import { printerService, PrintQueuedError } from '@/services/printerService'
+import { DENOMINATIONS, shiftCloseoutService, type ShiftCloseout } from '@/services/shiftCloseoutService'
+
+function formatTime(iso: string) {
+  return new Date(iso).toLocaleTimeString('fr-FR', { hour: '2-digit', minute: '2-digit' })
+}
+
+function varianceClass(variance: number) {
+  if (variance === 0) return 'text-green-700'
+  return variance > 0 ? 'text-orange-600' : 'text-red-600'
+}
+
+function today() {
+  const now = new Date()
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`
+}
+
+// Supervisor view of the cash drawer close-outs made on this workstation
+export default function ShiftCloseoutReview() {
+  const [date, setDate] = useState(today)
+  const [closeouts, setCloseouts] = useState<ShiftCloseout[]>(() => shiftCloseoutService.getCloseoutsFor(today()))
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+  const [reviewNotes, setReviewNotes] = useState<Record<string, string>>({})
+  const [message, setMessage] = useState<{ text: string; type: 'success' | 'error' } | null>(null)
+
+  useEffect(() => {
+    const refresh = () => setCloseouts(shiftCloseoutService.getCloseoutsFor(date))
+    refresh()
+    return shiftCloseoutService.subscribe(refresh)
+  }, [date])
+
+  const validate = async (closeout: ShiftCloseout) => {
+    const staff = getStaffInfo()
+    const reviewer = staff ? `${staff.firstName} ${staff.lastName}`.trim() : 'Superviseur'
+    try {
+      await shiftCloseoutService.review(closeout.id, reviewer, reviewNotes[closeout.id])
+      setMessage({ text: `Clôture de ${closeout.staffName} validée`, type: 'success' })
+    } catch (err) {
+      setMessage({ text: err instanceof Error ? err.message : String(err), type: 'error' })
+    }
+  }
+
+  const reprint = async (closeout: ShiftCloseout) => {
+    setMessage(null)
+    try {
+      await printerService.printCloseoutReport(shiftCloseoutService.toReport(closeout))
+      setMessage({ text: 'Ticket Z imprimé', type: 'success' })
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : String(err)
+      setMessage({ text: err instanceof PrintQueuedError ? errorMsg : `Erreur impression: ${errorMsg}`, type: 'error' })
+    }
+  }
+
+  const pending = closeouts.filter((c) => !c.reviewedAt).length
+  const totalVariance = closeouts.reduce((sum, c) => sum + c.variance, 0)
+
+  return (
+    <div className="bg-white border rounded-lg shadow-sm p-6">
+      <div className="flex justify-between items-center mb-4">
+        <div>
+          <h3 className="font-semibold text-gray-800">Clôtures de Caisse</h3>
+          <p className="text-xs text-gray-500 mt-1">
+            {closeouts.length} clôture(s){pending > 0 ? `, ${pending} à valider` : ''} - écart total{' '}
+            <span className={varianceClass(Math.round(totalVariance * 1000) / 1000)}>{totalVariance.toFixed(3)} TND</span>
+          </p>
+        </div>
+        <input type="date" value={date} onChange={(e) => setDate(e.target.value)} className="px-3 py-2 border rounded text-sm" />
+      </div>
+
+      {message && (
+        <div
+          className={`p-3 mb-3 rounded text-sm ${
+            message.type === 'success' ? 'bg-green-50 text-green-800' : 'bg-red-50 text-red-700'
+          }`}
+        >
+          {message.text}
+        </div>
+      )}
+
+      {closeouts.length === 0 ? (
+        <div className="text-sm text-gray-500">Aucune clôture de caisse ce jour sur ce poste</div>
+      ) : (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="bg-gray-50 border-b-2 border-gray-200">
+              <th className="py-2 px-3 text-left font-semibold text-gray-700">Agent</th>
+              <th className="py-2 px-3 text-left font-semibold text-gray-700">Service</th>
+              <th className="py-2 px-3 text-right font-semibold text-gray-700">Attendu</th>
+              <th className="py-2 px-3 text-right font-semibold text-gray-700">Compté</th>
+              <th className="py-2 px-3 text-right font-semibold text-gray-700">Écart</th>
+              <th className="py-2 px-3 text-left font-semibold text-gray-700">Statut</th>
+            </tr>
+          </thead>
+          <tbody>
+            {closeouts.map((closeout) => (
+              <Fragment key={closeout.id}>
+                <tr
+                  onClick={() => setExpandedId(expandedId === closeout.id ? null : closeout.id)}
+                  className="border-b hover:bg-gray-50 cursor-pointer"
+                >
+                  <td className="py-2 px-3 font-medium">{closeout.staffName}</td>
+                  <td className="py-2 px-3">
+                    {formatTime(closeout.shiftStart)} - {formatTime(closeout.closedAt)}
+                  </td>
+                  <td className="py-2 px-3 text-right">{closeout.expected.total.toFixed(3)}</td>
+                  <td className="py-2 px-3 text-right">{closeout.counted.toFixed(3)}</td>
+                  <td className={`py-2 px-3 text-right font-semibold ${varianceClass(closeout.variance)}`}>
+                    {closeout.variance > 0 ? '+' : ''}
+                    {closeout.variance.toFixed(3)}
+                  </td>
+                  <td className="py-2 px-3">
+                    {closeout.reviewedAt ? (
+                      <span className="px-2 py-0.5 rounded text-xs bg-green-100 text-green-800">
+                        Validée par {closeout.reviewedBy}
+                      </span>
+                    ) : (
+                      <span className="px-2 py-0.5 rounded text-xs bg-orange-100 text-orange-800">À valider</span>
+                    )}
+                  </td>
+                </tr>
+                {expandedId === closeout.id && (
+                  <tr className="border-b bg-gray-50">
+                    <td colSpan={6} className="py-3 px-3 space-y-2">
+                      <div className="grid grid-cols-2 gap-4 text-xs">
+                        <div className="space-y-1">
+                          <div>
+                            Sièges: {closeout.expected.seats} - {closeout.expected.seatAmount.toFixed(3)} TND
+                          </div>
+                          <div>Frais station: {closeout.expected.stationFees.toFixed(3)} TND</div>
+                          <div>
+                            Pass journée: {closeout.expected.dayPasses} - {closeout.expected.dayPassAmount.toFixed(3)} TND
+                          </div>
+                          {closeout.expected.refundAmount > 0 && (
+                            <div>
+                              Remboursements: {closeout.expected.refundedSeats} - {closeout.expected.refundAmount.toFixed(3)} TND rendus
+                            </div>
+                          )}
+                          {closeout.note && <div className="text-gray-700">Note de l'agent: {closeout.note}</div>}
+                          {closeout.reviewNote && <div className="text-gray-700">Note du superviseur: {closeout.reviewNote}</div>}
+                        </div>
+                        <div className="space-y-1 font-mono">
+                          {DENOMINATIONS.filter((value) => closeout.denominations[String(value)]).map((value) => (
+                            <div key={value}>
+                              {value.toFixed(3)} x {closeout.denominations[String(value)]} ={' '}
+                              {(value * closeout.denominations[String(value)]).toFixed(3)}
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+                      <div className="flex gap-2 items-center">
+                        {!closeout.reviewedAt && (
+                          <>
+                            <input
+                              value={reviewNotes[closeout.id] || ''}
+                              onChange={(e) => setReviewNotes((n) => ({ ...n, [closeout.id]: e.target.value }))}
+                              placeholder="Note du superviseur (facultative)"
+                              className="flex-1 px-2 py-1 border rounded text-xs"
+                            />
+                            <button
+                              onClick={() => validate(closeout)}
+                              className="px-3 py-1 text-xs bg-blue-500 text-white rounded hover:bg-blue-600"
+                            >
+                              Valider
+                            </button>
+                          </>
+                        )}
+                        <button
+                          onClick={() => reprint(closeout)}
+                          className="px-3 py-1 text-xs bg-gray-200 rounded hover:bg-gray-300"
+                        >
+                          Réimprimer le ticket Z
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                )}
+              </Fragment>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  )
+}
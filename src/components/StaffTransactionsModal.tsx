@@ -0,0 +1,255 @@
+import { useEffect, useState } from 'react'
+import { getStaffTransactions } from '@/api/client'
+import type { StaffTransaction, StaffTransactionType } from '@/api/types'
+
+type Props = {
+  staffId: string
+  staffName: string
+  // Day to list, as YYYY-MM-DD
+  date: string
+  onClose: () => void
+}
+
+type Filter = 'all' | StaffTransactionType
+
+const TYPE_LABELS: Record<StaffTransactionType, { label: string; className: string }> = {
+  booking: { label: 'Réservation', className: 'bg-blue-100 text-blue-800' },
+  daypass: { label: 'Pass journée', className: 'bg-green-100 text-green-800' },
+  exitpass: { label: 'Sortie', className: 'bg-purple-100 text-purple-800' },
+  cancellation: { label: 'Annulation', className: 'bg-red-100 text-red-800' },
+}
+
+function formatTime(iso: string) {
+  const date = new Date(iso)
+  return isNaN(date.getTime()) ? iso : date.toLocaleTimeString('fr-FR', { hour: '2-digit', minute: '2-digit', second: '2-digit' })
+}
+
+function escapeHtml(value: string) {
+  return value.replace(/[&<>"']/g, (c) => `&#${c.charCodeAt(0)};`)
+}
+
+// Semicolon separated with a BOM, so Excel opens it with accents in a French locale
+function toCsv(rows: StaffTransaction[]) {
+  const cell = (value: string | number) => `"${String(value).replace(/"/g, '""')}"`
+  const lines = rows.map((t) =>
+    [formatTime(t.createdAt), TYPE_LABELS[t.type].label, t.licensePlate, t.destinationName, t.seats, t.amount.toFixed(3)]
+      .map(cell)
+      .join(';')
+  )
+  return '\uFEFF' + [['Heure', 'Type', 'Véhicule', 'Destination', 'Sièges', 'Montant (TND)'].map(cell).join(';'), ...lines].join('\r\n')
+}
+
+// Everything one staff member issued on one day, for settling cash disputes
+export default function StaffTransactionsModal({ staffId, staffName, date, onClose }: Props) {
+  const [transactions, setTransactions] = useState<StaffTransaction[] | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [filter, setFilter] = useState<Filter>('all')
+
+  useEffect(() => {
+    let cancelled = false
+    setTransactions(null)
+    setError(null)
+    getStaffTransactions(staffId, date)
+      .then((response) => {
+        if (cancelled) return
+        setTransactions([...response.data].sort((a, b) => a.createdAt.localeCompare(b.createdAt)))
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : String(err))
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [staffId, date])
+
+  const all = transactions || []
+  const shown = filter === 'all' ? all : all.filter((t) => t.type === filter)
+  const total = shown.reduce((sum, t) => sum + t.amount, 0)
+  const countOf = (type: StaffTransactionType) => all.filter((t) => t.type === type).length
+  const dayLabel = new Date(`${date}T00:00:00`).toLocaleDateString('fr-FR', { day: '2-digit', month: 'long', year: 'numeric' })
+  const filterLabel = filter === 'all' ? 'Toutes les opérations' : TYPE_LABELS[filter].label
+
+  const exportCsv = () => {
+    const url = URL.createObjectURL(new Blob([toCsv(shown)], { type: 'text/csv;charset=utf-8' }))
+    const link = document.createElement('a')
+    link.href = url
+    link.download = `operations-${staffName.replace(/\s+/g, '-')}-${date}.csv`
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  const printSheet = () => {
+    const rows = shown
+      .map(
+        (t) => `
+          <tr>
+            <td>${escapeHtml(formatTime(t.createdAt))}</td>
+            <td>${TYPE_LABELS[t.type].label}</td>
+            <td>${escapeHtml(t.licensePlate)}</td>
+            <td>${escapeHtml(t.destinationName)}</td>
+            <td class="text-right">${t.seats || ''}</td>
+            <td class="text-right">${t.amount.toFixed(3)} TND</td>
+          </tr>`
+      )
+      .join('')
+    const printWindow = window.open('', '_blank')
+    if (!printWindow) {
+      alert('Veuillez autoriser les pop-ups pour imprimer')
+      return
+    }
+    printWindow.document.write(`
+      <!DOCTYPE html>
+      <html>
+        <head>
+          <meta charset="UTF-8">
+          <title>Détail des opérations - ${escapeHtml(staffName)}</title>
+          <style>
+            @page { size: A4; margin: 1cm; }
+            body { font-family: 'Arial', sans-serif; font-size: 9pt; color: #000; }
+            h1 { font-size: 14pt; margin: 0 0 4px; }
+            .meta { color: #333; margin-bottom: 12px; }
+            table { width: 100%; border-collapse: collapse; }
+            th { background: #333; color: #fff; padding: 4px; text-align: left; border: 1px solid #000; }
+            td { padding: 3px 4px; border: 1px solid #000; }
+            .text-right { text-align: right; }
+            .total-row td { font-weight: bold; background: #e8e8e8; }
+            .signatures { display: flex; justify-content: space-between; margin-top: 40px; }
+            .signatures div { width: 40%; border-top: 1px solid #000; padding-top: 4px; text-align: center; }
+            @media print { body { print-color-adjust: exact; -webkit-print-color-adjust: exact; } }
+          </style>
+        </head>
+        <body>
+          <h1>Détail des opérations</h1>
+          <div class="meta">
+            ${escapeHtml(staffName)} - ${escapeHtml(dayLabel)} - ${escapeHtml(filterLabel)}<br>
+            Imprimé le ${new Date().toLocaleString('fr-FR')}
+          </div>
+          <table>
+            <thead>
+              <tr><th>Heure</th><th>Type</th><th>Véhicule</th><th>Destination</th><th class="text-right">Sièges</th><th class="text-right">Montant</th></tr>
+            </thead>
+            <tbody>
+              ${rows}
+              <tr class="total-row">
+                <td colspan="5">TOTAL (${shown.length} opérations)</td>
+                <td class="text-right">${total.toFixed(3)} TND</td>
+              </tr>
+            </tbody>
+          </table>
+          <div class="signatures"><div>Agent</div><div>Superviseur</div></div>
+        </body>
+      </html>
+    `)
+    printWindow.document.close()
+    printWindow.onload = () => {
+      setTimeout(() => printWindow.print(), 500)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-4xl mx-4 max-h-[90vh] overflow-y-auto">
+        <div className="p-6 space-y-4">
+          <div className="flex justify-between items-center">
+            <div>
+              <h2 className="text-xl font-semibold">{staffName}</h2>
+              <p className="text-sm text-gray-500">Opérations du {dayLabel}</p>
+            </div>
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-600 text-2xl leading-none">
+              ×
+            </button>
+          </div>
+
+          <div className="flex gap-2 flex-wrap">
+            <button
+              onClick={() => setFilter('all')}
+              className={`px-3 py-1 rounded text-sm ${filter === 'all' ? 'bg-blue-500 text-white' : 'bg-gray-200'}`}
+            >
+              Tout ({all.length})
+            </button>
+            {(Object.keys(TYPE_LABELS) as StaffTransactionType[]).map((type) => (
+              <button
+                key={type}
+                onClick={() => setFilter(type)}
+                className={`px-3 py-1 rounded text-sm ${filter === type ? 'bg-blue-500 text-white' : 'bg-gray-200'}`}
+              >
+                {TYPE_LABELS[type].label} ({countOf(type)})
+              </button>
+            ))}
+          </div>
+
+          {error && <div className="p-3 rounded bg-red-50 text-red-700 text-sm">{error}</div>}
+          {!transactions && !error && <div className="text-center py-8 text-gray-500">Chargement...</div>}
+
+          {transactions && shown.length === 0 && (
+            <div className="text-sm text-gray-500">Aucune opération pour ce filtre</div>
+          )}
+
+          {shown.length > 0 && (
+            <div className="max-h-[55vh] overflow-y-auto border rounded">
+              <table className="w-full text-sm">
+                <thead className="sticky top-0 bg-gray-50">
+                  <tr className="border-b">
+                    <th className="py-2 px-3 text-left font-semibold text-gray-700">Heure</th>
+                    <th className="py-2 px-3 text-left font-semibold text-gray-700">Type</th>
+                    <th className="py-2 px-3 text-left font-semibold text-gray-700">Véhicule</th>
+                    <th className="py-2 px-3 text-left font-semibold text-gray-700">Destination</th>
+                    <th className="py-2 px-3 text-right font-semibold text-gray-700">Sièges</th>
+                    <th className="py-2 px-3 text-right font-semibold text-gray-700">Montant</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {shown.map((t) => (
+                    <tr key={t.id} className="border-b hover:bg-gray-50">
+                      <td className="py-2 px-3 font-mono">{formatTime(t.createdAt)}</td>
+                      <td className="py-2 px-3">
+                        <span className={`px-2 py-0.5 rounded text-xs ${TYPE_LABELS[t.type].className}`}>
+                          {TYPE_LABELS[t.type].label}
+                        </span>
+                      </td>
+                      <td className="py-2 px-3 font-mono">{t.licensePlate}</td>
+                      <td className="py-2 px-3">{t.destinationName}</td>
+                      <td className="py-2 px-3 text-right">{t.seats || ''}</td>
+                      <td className="py-2 px-3 text-right">{t.amount.toFixed(3)} TND</td>
+                    </tr>
+                  ))}
+                </tbody>
+                <tfoot>
+                  <tr className="bg-gray-100 font-semibold">
+                    <td className="py-2 px-3" colSpan={5}>
+                      Total ({shown.length} opérations)
+                    </td>
+                    <td className="py-2 px-3 text-right">{total.toFixed(3)} TND</td>
+                  </tr>
+                </tfoot>
+              </table>
+            </div>
+          )}
+
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={exportCsv}
+              disabled={shown.length === 0}
+              className="px-4 py-2 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300 disabled:opacity-50"
+            >
+              Exporter CSV
+            </button>
+            <button
+              onClick={printSheet}
+              disabled={shown.length === 0}
+              className="px-4 py-2 bg-blue-500 text-white rounded-md hover:bg-blue-600 disabled:bg-blue-300"
+            >
+              Imprimer
+            </button>
+            <button
+              onClick={onClose}
+              className="px-4 py-2 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300 transition-colors"
+            >
+              Fermer
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
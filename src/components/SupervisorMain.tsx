@@ -5,6 +5,13 @@ import QueueManagement from './QueueManagement'
 import UpdateStatus from './UpdateStatus'
 import { Modal } from './ui/modal'
 import Layout from './Layout'
+import EndpointSettings from './EndpointSettings'
+import PassVerification from './PassVerification'
+import PassSigningSettings from './PassSigningSettings'
+import TicketLogoSettings from './TicketLogoSettings'
+import TicketTemplateSettings from './TicketTemplateSettings'
+import PrinterSettings from './PrinterSettings'
+import ShiftCloseoutModal from './ShiftCloseoutModal'
 
 function StaffView() {
   const [staff, setStaff] = useState<any[]>([])
@@ -853,7 +860,8 @@ function VehiclesView() {
 type Props = { onLogout: () => void };
 
 export default function SupervisorMain({ onLogout }: Props) {
-  const [activeTab, setActiveTab] = useState<'statistics' | 'queue' | 'staff' | 'vehicles'>('queue')
+  const [activeTab, setActiveTab] = useState<'statistics' | 'queue' | 'staff' | 'vehicles' | 'verify' | 'settings'>('queue')
+  const [closingShift, setClosingShift] = useState(false)
   
   // Get user role and info from localStorage
   const userRole = typeof window !== 'undefined' ? (localStorage.getItem('userRole') || 'WORKER') : 'WORKER'
@@ -877,8 +885,8 @@ export default function SupervisorMain({ onLogout }: Props) {
   // Workers can only see queue and vehicles, supervisors see all
   useEffect(() => {
     if (!isSupervisor) {
-      // Workers can only access queue and vehicles
-      if (activeTab !== 'queue' && activeTab !== 'vehicles') {
+      // Workers can only access queue, vehicles and pass checks
+      if (activeTab !== 'queue' && activeTab !== 'vehicles' && activeTab !== 'verify') {
         setActiveTab('queue')
       }
     }
@@ -889,6 +897,7 @@ export default function SupervisorMain({ onLogout }: Props) {
       activeTab={activeTab}
       onTabChange={setActiveTab}
       onLogout={onLogout}
+      onCloseShift={() => setClosingShift(true)}
       isSupervisor={isSupervisor}
       userName={userName}
       userRole={userRole}
@@ -902,12 +911,16 @@ export default function SupervisorMain({ onLogout }: Props) {
               {activeTab === 'queue' && 'Gestion de la Queue'}
               {activeTab === 'staff' && 'Gestion du Personnel'}
               {activeTab === 'vehicles' && 'Gestion des Véhicules'}
+              {activeTab === 'verify' && 'Contrôle des Passes'}
+              {activeTab === 'settings' && 'Paramètres'}
             </h1>
             <p className="text-muted-foreground mt-1">
               {activeTab === 'statistics' && 'Consultez les statistiques et rapports détaillés'}
               {activeTab === 'queue' && 'Gérez les files d\'attente et les réservations'}
               {activeTab === 'staff' && 'Gérez les membres du personnel'}
               {activeTab === 'vehicles' && 'Gérez la flotte de véhicules'}
+              {activeTab === 'verify' && 'Vérifiez les pass journaliers et autorisations de sortie'}
+              {activeTab === 'settings' && 'Configurez les serveurs, les tickets et la signature des passes de ce poste'}
             </p>
           </div>
           <UpdateStatus />
@@ -919,8 +932,20 @@ export default function SupervisorMain({ onLogout }: Props) {
           {activeTab === 'queue' && <QueueManagement />}
           {activeTab === 'staff' && isSupervisor && <StaffView />}
           {activeTab === 'vehicles' && <VehiclesView />}
+          {activeTab === 'verify' && <PassVerification />}
+          {activeTab === 'settings' && isSupervisor && (
+            <div className="space-y-6">
+              <EndpointSettings />
+              <PrinterSettings />
+              <TicketLogoSettings />
+              <TicketTemplateSettings />
+              <PassSigningSettings />
+            </div>
+          )}
         </div>
       </div>
+
+      {closingShift && <ShiftCloseoutModal onClose={() => setClosingShift(false)} onLogout={onLogout} />}
     </Layout>
   )
 }
@@ -0,0 +1,143 @@
+import { useEffect, useRef, useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { DEFAULT_LOGO_PATH, ticketLogoService, type TicketLogoMode } from "@/services/ticketLogoService";
+import { ditherBitmap, DOTS_PER_CHAR } from "@/services/logoRaster";
+
+const MODE_LABELS: Record<TicketLogoMode, string> = {
+  default: "Logo STE",
+  custom: "Logo personnalisé",
+  none: "Aucun logo (nom de la société en texte)",
+};
+
+// Logo width on an 80mm printer (48 columns), as the printer service sizes it
+const PREVIEW_WIDTH = (48 * DOTS_PER_CHAR) / 2;
+
+// Draw the logo the way the thermal printer will: scaled and dithered to 1-bit
+function drawPrintPreview(canvas: HTMLCanvasElement, source: string) {
+  const image = new Image();
+  image.onload = () => {
+    const width = Math.min(PREVIEW_WIDTH, image.naturalWidth);
+    const height = Math.max(1, Math.round((image.naturalHeight * width) / image.naturalWidth));
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return;
+    ctx.clearRect(0, 0, width, height);
+    ctx.drawImage(image, 0, 0, width, height);
+    const pixels = ctx.getImageData(0, 0, width, height);
+    const raster = ditherBitmap({ width, height, data: new Uint8Array(pixels.data.buffer) });
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const black = (raster.data[y * raster.widthBytes + (x >> 3)] & (0x80 >> (x & 7))) !== 0;
+        const i = (y * width + x) * 4;
+        pixels.data.set(black ? [0, 0, 0, 255] : [255, 255, 255, 255], i);
+      }
+    }
+    ctx.putImageData(pixels, 0, 0);
+  };
+  image.src = source;
+}
+
+export default function TicketLogoSettings() {
+  const [mode, setMode] = useState<TicketLogoMode>(() => ticketLogoService.getSettings().mode);
+  const [customLogo, setCustomLogo] = useState<string | undefined>(() => ticketLogoService.getSettings().customLogo);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<{ text: string; type: "success" | "error" } | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  const saved = ticketLogoService.getSettings();
+  const dirty = mode !== saved.mode || (mode === "custom" && customLogo !== saved.customLogo);
+  const previewSource = mode === "custom" ? customLogo : mode === "default" ? DEFAULT_LOGO_PATH : undefined;
+
+  useEffect(() => {
+    if (canvasRef.current && previewSource) drawPrintPreview(canvasRef.current, previewSource);
+  }, [previewSource]);
+
+  const pickFile = async (file: File | undefined) => {
+    if (!file) return;
+    setMessage(null);
+    try {
+      setCustomLogo(await ticketLogoService.readLogoFile(file));
+      setMode("custom");
+    } catch (e) {
+      setMessage({ text: e instanceof Error ? e.message : String(e), type: "error" });
+    }
+  };
+
+  const save = async () => {
+    setSaving(true);
+    setMessage(null);
+    try {
+      await ticketLogoService.save({ mode, customLogo });
+      setMessage({ text: "Logo enregistré", type: "success" });
+    } catch (e) {
+      setMessage({ text: e instanceof Error ? e.message : String(e), type: "error" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card className="p-6 space-y-4">
+      <div>
+        <h2 className="text-xl font-semibold">Logo des tickets</h2>
+        <p className="text-sm text-muted-foreground">
+          Imprimé en haut de chaque ticket et rapport. L'aperçu montre le rendu noir et blanc de l'imprimante.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          {(Object.keys(MODE_LABELS) as TicketLogoMode[]).map((value) => (
+            <label key={value} className="flex items-center gap-2 text-sm">
+              <input
+                type="radio"
+                name="ticket-logo-mode"
+                checked={mode === value}
+                disabled={value === "custom" && !customLogo}
+                onChange={() => {
+                  setMode(value);
+                  setMessage(null);
+                }}
+              />
+              {MODE_LABELS[value]}
+            </label>
+          ))}
+          <input
+            type="file"
+            accept="image/png,image/jpeg,image/bmp"
+            onChange={(e) => pickFile(e.target.files?.[0])}
+            className="text-sm"
+          />
+        </div>
+        <div className="flex items-center justify-center p-4 border rounded-lg bg-white min-h-[120px]">
+          {previewSource ? (
+            <canvas ref={canvasRef} className="max-w-full" />
+          ) : (
+            <div className="text-center font-bold">
+              STE DHRAIFF SERVICES
+              <div className="text-sm">TRANSPORT</div>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {message && (
+        <div
+          className={`p-3 rounded-lg text-sm ${
+            message.type === "success" ? "bg-green-50 text-green-800" : "bg-red-50 text-red-700"
+          }`}
+        >
+          {message.text}
+        </div>
+      )}
+
+      <div className="flex justify-end">
+        <Button onClick={save} disabled={saving || !dirty}>
+          {saving ? "Enregistrement…" : "Enregistrer"}
+        </Button>
+      </div>
+    </Card>
+  );
+}
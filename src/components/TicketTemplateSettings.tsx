@@ -0,0 +1,186 @@
+import { useMemo, useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { ticketTemplateService } from "@/services/ticketTemplateService";
+import {
+  DEFAULT_TEMPLATES,
+  TEMPLATE_DIRECTIVES,
+  TEMPLATE_PLACEHOLDERS,
+  validateTemplate,
+  type TicketTemplateData,
+  type TicketTemplateType,
+} from "@/services/ticketTemplates";
+
+const TYPE_LABELS: Record<TicketTemplateType, string> = {
+  booking: "Réservation",
+  daypass: "Pass journée",
+  exitpass: "Sortie",
+  cancellation: "Annulation",
+};
+
+// Realistic values so the preview shows every optional line
+const SAMPLE: TicketTemplateData = {
+  licensePlate: "245 TU 7812",
+  destinationName: "SOUSSE",
+  seatNumber: 2,
+  basePrice: 4.5,
+  stationFee: 0.15,
+  totalAmount: 9.3,
+  createdBy: "Sami Ben Ali",
+  exitPassCount: 3,
+  vehicleCapacity: 8,
+  bookingId: "BK-20481",
+  qrCode: "WASLA1|E|exemple",
+  controlCode: "E-7K2M9QXA",
+};
+
+const SAMPLE_BY_TYPE: Record<TicketTemplateType, TicketTemplateData> = {
+  booking: SAMPLE,
+  daypass: { ...SAMPLE, seatNumber: 0, totalAmount: 2, controlCode: "D-4HN8ZT2C" },
+  exitpass: { ...SAMPLE, seatNumber: 8, totalAmount: 36 },
+  cancellation: SAMPLE,
+};
+
+export default function TicketTemplateSettings() {
+  const [type, setType] = useState<TicketTemplateType>("booking");
+  const [drafts, setDrafts] = useState<Record<TicketTemplateType, string>>(() => ({
+    booking: ticketTemplateService.getTemplate("booking"),
+    daypass: ticketTemplateService.getTemplate("daypass"),
+    exitpass: ticketTemplateService.getTemplate("exitpass"),
+    cancellation: ticketTemplateService.getTemplate("cancellation"),
+  }));
+  const [width, setWidth] = useState(48);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<{ text: string; type: "success" | "error" } | null>(null);
+
+  const draft = drafts[type];
+  const errors = useMemo(() => validateTemplate(draft), [draft]);
+  const preview = useMemo(
+    () => ticketTemplateService.preview(type, { ...SAMPLE_BY_TYPE[type], createdAt: new Date() }, width, draft),
+    [type, width, draft]
+  );
+  const dirty = draft !== ticketTemplateService.getTemplate(type);
+
+  const edit = (value: string) => {
+    setDrafts((d) => ({ ...d, [type]: value }));
+    setMessage(null);
+  };
+
+  const run = async (action: () => Promise<void>, success: string) => {
+    setSaving(true);
+    setMessage(null);
+    try {
+      await action();
+      setDrafts((d) => ({ ...d, [type]: ticketTemplateService.getTemplate(type) }));
+      setMessage({ text: success, type: "success" });
+    } catch (e) {
+      setMessage({ text: e instanceof Error ? e.message : String(e), type: "error" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card className="p-6 space-y-4">
+      <div>
+        <h2 className="text-xl font-semibold">Modèles de tickets</h2>
+        <p className="text-sm text-muted-foreground">
+          Mise en page de chaque ticket. Une ligne dont un champ est vide (prix, référence...) n'est pas imprimée.
+        </p>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        {(Object.keys(TYPE_LABELS) as TicketTemplateType[]).map((value) => (
+          <Button
+            key={value}
+            variant={value === type ? "default" : "outline"}
+            size="sm"
+            onClick={() => {
+              setType(value);
+              setMessage(null);
+            }}
+          >
+            {TYPE_LABELS[value]}
+            {ticketTemplateService.isCustom(value) ? " *" : ""}
+          </Button>
+        ))}
+        <div className="ml-auto flex items-center gap-2 text-sm">
+          <span>Aperçu</span>
+          {[48, 32].map((value) => (
+            <Button key={value} variant={value === width ? "default" : "outline"} size="sm" onClick={() => setWidth(value)}>
+              {value} col. ({value === 48 ? "80" : "58"} mm)
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <textarea
+            value={draft}
+            onChange={(e) => edit(e.target.value)}
+            spellCheck={false}
+            rows={22}
+            className="w-full rounded-md border p-3 font-mono text-xs"
+          />
+          {errors.length > 0 && (
+            <ul className="text-xs text-red-600 space-y-0.5">
+              {errors.map((error) => (
+                <li key={error}>{error}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+        <pre className="bg-white border rounded-lg p-3 text-xs overflow-auto font-mono leading-tight">{preview}</pre>
+      </div>
+
+      <details className="text-xs text-muted-foreground">
+        <summary className="cursor-pointer">Champs et directives disponibles</summary>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-2">
+          <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-0.5">
+            {Object.entries(TEMPLATE_PLACEHOLDERS).map(([name, label]) => (
+              <div key={name} className="contents">
+                <dt className="font-mono">{`{${name}}`}</dt>
+                <dd>{label}</dd>
+              </div>
+            ))}
+          </dl>
+          <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-0.5">
+            {Object.entries(TEMPLATE_DIRECTIVES).map(([name, label]) => (
+              <div key={name} className="contents">
+                <dt className="font-mono">{name}</dt>
+                <dd>{label}</dd>
+              </div>
+            ))}
+          </dl>
+        </div>
+      </details>
+
+      {message && (
+        <div
+          className={`p-3 rounded-lg text-sm ${
+            message.type === "success" ? "bg-green-50 text-green-800" : "bg-red-50 text-red-700"
+          }`}
+        >
+          {message.text}
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-2 justify-end">
+        <Button
+          variant="ghost"
+          onClick={() => run(() => ticketTemplateService.reset(type), "Modèle d'origine rétabli")}
+          disabled={saving || (draft === DEFAULT_TEMPLATES[type] && !ticketTemplateService.isCustom(type))}
+        >
+          Modèle d'origine
+        </Button>
+        <Button
+          onClick={() => run(() => ticketTemplateService.save(type, draft), "Modèle enregistré")}
+          disabled={saving || !dirty || errors.length > 0}
+        >
+          {saving ? "Enregistrement…" : "Enregistrer"}
+        </Button>
+      </div>
+    </Card>
+  );
+}
@@ -2,9 +2,11 @@ import { cn } from '@/lib/utils'
 import UpdateStatus from '../UpdateStatus'
 
 interface SidebarProps {
-  activeTab: 'statistics' | 'queue' | 'staff' | 'vehicles'
-  onTabChange: (tab: 'statistics' | 'queue' | 'staff' | 'vehicles') => void
+  activeTab: 'statistics' | 'queue' | 'staff' | 'vehicles' | 'verify' | 'settings'
+  onTabChange: (tab: 'statistics' | 'queue' | 'staff' | 'vehicles' | 'verify' | 'settings') => void
   onLogout: () => void
+  // Cash drawer close-out of the logged-in staff member
+  onCloseShift?: () => void
   isSupervisor: boolean
   userName?: string
   userRole?: string
@@ -15,14 +17,17 @@ interface SidebarProps {
 const menuItems = [
   { id: 'queue' as const, label: 'Gestion Queue', availableFor: ['SUPERVISOR', 'WORKER'] },
   { id: 'vehicles' as const, label: 'Véhicules', availableFor: ['SUPERVISOR', 'WORKER'] },
+  { id: 'verify' as const, label: 'Contrôle Passes', availableFor: ['SUPERVISOR', 'WORKER'] },
   { id: 'statistics' as const, label: 'Statistiques', availableFor: ['SUPERVISOR'] },
   { id: 'staff' as const, label: 'Personnel', availableFor: ['SUPERVISOR'] },
+  { id: 'settings' as const, label: 'Paramètres', availableFor: ['SUPERVISOR'] },
 ]
 
 export function Sidebar({ 
   activeTab, 
   onTabChange, 
   onLogout, 
+  onCloseShift,
   isSupervisor,
   userName,
   userRole,
@@ -152,6 +157,20 @@ export function Sidebar({
           <UpdateStatus compact={isCollapsed} />
         </div>
         
+        {/* Close-out Button */}
+        {onCloseShift && (
+          <button
+            onClick={onCloseShift}
+            className={cn(
+              "w-full flex items-center gap-3 px-3 py-2.5 rounded-lg transition-all duration-200",
+              "text-sidebar-foreground/80 hover:bg-sidebar-accent hover:text-sidebar-accent-foreground"
+            )}
+          >
+            {!isCollapsed && <span className="text-sm font-medium">Clôturer ma caisse</span>}
+            {isCollapsed && <span className="text-xs font-medium">Z</span>}
+          </button>
+        )}
+
         {/* Disconnect Button */}
         <button
           onClick={onLogout}
@@ -1,4 +1,16 @@
-export const API = {
+export type ServiceEndpoints = {
+  auth: string;
+  queue: string;
+  booking: string;
+  ws: string;
+  printer: string;
+  stats: string;
+  statistics: string;
+  staff: string;
+};
+
+// Factory defaults; each station overrides them from the settings screen
+export const DEFAULT_API: ServiceEndpoints = {
   auth: "http://localhost:8001",
   queue: "http://localhost:8002",
   booking: "http://localhost:8003",
@@ -9,4 +21,14 @@ export const API = {
   stats: "http://localhost:8006",
   statistics: "http://localhost:8006",
   staff: "http://localhost:3001",
-};
\ No newline at end of file
+};
+
+// Endpoints in use. The object is updated in place when the station settings
+// are loaded or saved, so always read `API.x` at call time
+export const API: ServiceEndpoints = { ...DEFAULT_API };
+
+// Station fee charged on top of the route base price for every seat sold
+export const STATION_FEE_PER_SEAT = 0.15;
+
+// Price of a day pass, paid in cash when a vehicle joins a queue
+export const DAY_PASS_PRICE = 2;
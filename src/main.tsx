@@ -2,12 +2,28 @@ import React from 'react'
 import ReactDOM from 'react-dom/client'
 import App from './App.tsx'
 import './index.css'
+import { endpointSettingsService } from './services/endpointSettingsService'
+import { passSignatureService } from './services/passSignatureService'
+import { shiftCloseoutService } from './services/shiftCloseoutService'
+import { ticketLogoService } from './services/ticketLogoService'
+import { ticketTemplateService } from './services/ticketTemplateService'
 
-ReactDOM.createRoot(document.getElementById('root')!).render(
-  <React.StrictMode>
-    <App />
-  </React.StrictMode>,
-)
+// Station endpoints must be in place before any screen talks to the backend,
+// the pass signing key, ticket logo and layouts before anything is printed,
+// and past close-outs before a shift start is worked out from them
+Promise.allSettled([
+  endpointSettingsService.load(),
+  passSignatureService.load(),
+  ticketLogoService.load(),
+  ticketTemplateService.load(),
+  shiftCloseoutService.load(),
+]).finally(() => {
+  ReactDOM.createRoot(document.getElementById('root')!).render(
+    <React.StrictMode>
+      <App />
+    </React.StrictMode>,
+  )
+})
 
 // Use contextBridge
 window.ipcRenderer.on('main-process-message', (_event: any, message: any) => {
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import type { DestinationRoute, Trip } from '../../api/types';
+import { summarizeDestinations, tripsBetween } from '../destinationAnalytics';
+
+// Local time without zone, so hours are the same on every machine
+const trip = (destinationId: string, destinationName: string, startTime: string, seatsBooked: number, basePrice = 4.5): Trip => ({
+  id: `${destinationId}-${startTime}`,
+  licensePlate: '245 TU 7812',
+  destinationName,
+  destinationId,
+  vehicleId: 'v1',
+  seatsBooked,
+  vehicleCapacity: 8,
+  basePrice,
+  startTime,
+  createdAt: startTime,
+});
+
+const ROUTES: DestinationRoute[] = [
+  { id: 'r1', stationId: 'sousse', stationName: 'SOUSSE', basePrice: 4.5, isActive: true },
+  { id: 'r2', stationId: 'monastir', stationName: 'MONASTIR', basePrice: 3.2, isActive: true },
+  { id: 'r3', stationId: 'mahdia', stationName: 'MAHDIA', basePrice: 6, isActive: true },
+  { id: 'r4', stationId: 'kairouan', stationName: 'KAIROUAN', basePrice: 7, isActive: false },
+];
+
+describe('destination analytics', () => {
+  it('sums seats, departures, load factor and revenue per destination', () => {
+    const [sousse, monastir] = summarizeDestinations(
+      [
+        trip('sousse', 'SOUSSE', '2026-03-14T07:10:00', 8),
+        trip('sousse', 'SOUSSE', '2026-03-14T07:40:00', 8),
+        trip('sousse', 'SOUSSE', '2026-03-14T16:05:00', 4),
+        // No price on the trip: the route's is used
+        trip('monastir', 'MONASTIR', '2026-03-14T08:00:00', 2, 0),
+      ],
+      ROUTES
+    );
+
+    expect(sousse).toMatchObject({ name: 'SOUSSE', trips: 3, seats: 20, capacity: 24, revenue: 90, peakHour: 7 });
+    expect(sousse.loadFactor).toBeCloseTo((1 + 1 + 0.5) / 3);
+    expect(sousse.hourlySeats[7]).toBe(16);
+    expect(sousse.hourlyTrips[16]).toBe(1);
+    expect(monastir).toMatchObject({ trips: 1, seats: 2, revenue: 6.4, loadFactor: 0.25, peakHour: 8 });
+  });
+
+  it('lists active routes without departures and matches trips by name', () => {
+    const rows = summarizeDestinations([trip('', 'Mahdia', '2026-03-14T09:00:00', 5)], ROUTES);
+    expect(rows.map((r) => [r.name, r.trips])).toEqual([
+      ['MAHDIA', 1],
+      ['MONASTIR', 0],
+      ['SOUSSE', 0],
+    ]);
+    expect(rows[1].peakHour).toBeNull();
+  });
+
+  it('keeps destinations the routes do not know', () => {
+    const rows = summarizeDestinations([trip('bizerte', 'BIZERTE', '2026-03-14T10:00:00', 3)]);
+    expect(rows).toHaveLength(1);
+    expect(rows[0]).toMatchObject({ destinationId: 'bizerte', name: 'BIZERTE', revenue: 13.5 });
+  });
+
+  it('keeps the trips that left within the bounds, end excluded', () => {
+    const trips = [
+      trip('sousse', 'SOUSSE', '2026-03-13T23:59:00', 8),
+      trip('sousse', 'SOUSSE', '2026-03-14T00:00:00', 8),
+      trip('sousse', 'SOUSSE', '2026-03-14T23:30:00', 4),
+      trip('sousse', 'SOUSSE', '2026-03-15T00:00:00', 2),
+    ];
+    const kept = tripsBetween(trips, new Date('2026-03-14T00:00:00'), new Date('2026-03-15T00:00:00'));
+    expect(kept.map((t) => t.seatsBooked)).toEqual([8, 4]);
+  });
+});
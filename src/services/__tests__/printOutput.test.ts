@@ -0,0 +1,192 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { EmbeddedPrinterService } from '../embeddedPrinterService';
+import { decodeEscPos, VirtualPrinter } from './virtualPrinter';
+
+// Golden files live in ./golden; after an intended layout change, review the
+// diff and update them with `npm test -- -u`
+
+const SERVICE_PORT = 18105;
+const BASE_URL = `http://127.0.0.1:${SERVICE_PORT}`;
+
+// Local time without zone, so dates print the same on every machine
+const CREATED_AT = '2026-03-14T09:05:00';
+
+const TICKET = {
+  licensePlate: '245 TU 7812',
+  destinationName: 'SOUSSE',
+  seatNumber: 2,
+  totalAmount: 9.3,
+  basePrice: 4.5,
+  stationFee: 0.15,
+  createdBy: 'Sami Ben Ali',
+  createdAt: CREATED_AT,
+};
+
+const TICKETS: Record<string, Record<string, unknown>> = {
+  booking: TICKET,
+  daypass: {
+    ...TICKET,
+    seatNumber: 0,
+    totalAmount: 2,
+    passId: 'dp-1',
+    qrCode: 'WASLA1|D|dp-1|245TU7812|2026-03-14|0123456789abcdef',
+    controlCode: 'D-4HN8ZT2C',
+  },
+  exitpass: {
+    ...TICKET,
+    seatNumber: 8,
+    totalAmount: 36,
+    exitPassCount: 3,
+    passId: 'ep-1',
+    qrCode: 'WASLA1|E|ep-1|245TU7812|2026-03-14|fedcba9876543210',
+    controlCode: 'E-7K2M9QXA',
+  },
+  cancellation: { ...TICKET, bookingId: 'BK-20481' },
+};
+
+const REPORT = {
+  periodLabel: "Aujourd'hui",
+  totalSeatsBooked: 42,
+  totalSeatIncome: 189,
+  totalDayPassesSold: 6,
+  totalDayPassIncome: 12,
+  totalIncome: 201,
+  staffData: [
+    { name: 'Sami Ben Ali', seats: 30, seatIncome: 135, dayPasses: 4, dayPassIncome: 8, income: 143 },
+    { name: 'Amira Trabelsi', seats: 12, seatIncome: 54, dayPasses: 2, dayPassIncome: 4, income: 58 },
+    { name: 'Mohamed Amine Ben Youssef', seats: 0, seatIncome: 0, dayPasses: 0, dayPassIncome: 0, income: 0 },
+  ],
+  destinationData: [
+    { name: 'SOUSSE', trips: 4, seats: 30, income: 135 },
+    { name: 'MONASTIR AEROPORT HABIB BOURGUIBA', trips: 1, seats: 12, income: 54 },
+  ],
+  createdBy: 'Superviseur',
+  createdAt: CREATED_AT,
+};
+
+const CLOSEOUT = {
+  staffName: 'Sami Ben Ali',
+  shiftStart: '2026-03-14T05:02:00',
+  closedAt: '2026-03-14T13:10:00',
+  seats: 30,
+  seatAmount: 135,
+  stationFees: 4.5,
+  dayPasses: 4,
+  dayPassAmount: 8,
+  refundedSeats: 2,
+  refundAmount: 9.3,
+  expected: 138.2,
+  counted: 137.7,
+  variance: -0.5,
+  denominations: [
+    { value: 50, count: 1 },
+    { value: 20, count: 3 },
+    { value: 10, count: 2 },
+    { value: 5, count: 1 },
+    { value: 1, count: 2 },
+    { value: 0.5, count: 1 },
+    { value: 0.2, count: 1 },
+  ],
+  note: 'Monnaie rendue en trop sur un billet SOUSSE',
+};
+
+describe('print output', () => {
+  const printer = new VirtualPrinter();
+  const service = new EmbeddedPrinterService(SERVICE_PORT);
+  let dataDir: string;
+
+  const post = async (route: string, body?: unknown) => {
+    const response = await fetch(`${BASE_URL}${route}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    return { status: response.status, body: await response.json() };
+  };
+
+  const print = async (type: string, body: Record<string, unknown>) => {
+    const result = await post(`/api/printer/print/${type}`, body);
+    expect(result.status).toBe(200);
+    return decodeEscPos(await printer.nextJob());
+  };
+
+  beforeAll(async () => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'print-output-'));
+    const printerPort = await printer.start();
+    service.setPrintersFile(path.join(dataDir, 'printers.json'));
+    service.setSpoolFile(path.join(dataDir, 'print-spool.json'));
+    await service.start();
+
+    for (const [id, width] of [['wide', 48], ['narrow', 32]] as const) {
+      const response = await fetch(`${BASE_URL}/api/printer/config/${id}`, {
+        method: 'PUT',
+        body: JSON.stringify({ name: id, ip: '127.0.0.1', port: printerPort, width, isDefault: id === 'wide' }),
+      });
+      expect(response.status).toBe(200);
+    }
+  });
+
+  afterAll(async () => {
+    await service.stop();
+    await printer.stop();
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  for (const type of Object.keys(TICKETS)) {
+    for (const [id, width] of [['wide', 48], ['narrow', 32]] as const) {
+      it(`prints the ${type} ticket on ${width} columns`, async () => {
+        const output = await print(type, { ...TICKETS[type], printerConfig: { id } });
+        await expect(output).toMatchFileSnapshot(`./golden/${type}-${width}.txt`);
+      });
+    }
+  }
+
+  for (const [id, width] of [['wide', 48], ['narrow', 32]] as const) {
+    it(`prints the statistics report on ${width} columns`, async () => {
+      const output = await print('statistics', { ...REPORT, printerConfig: { id } });
+      await expect(output).toMatchFileSnapshot(`./golden/statistics-${width}.txt`);
+      for (const line of output.split('\n')) {
+        if (line.includes('|')) expect(line.slice(6).length).toBeLessThanOrEqual(width);
+      }
+    });
+  }
+
+  for (const [id, width] of [['wide', 48], ['narrow', 32]] as const) {
+    it(`prints the close-out report on ${width} columns`, async () => {
+      const output = await print('closeout', { ...CLOSEOUT, printerConfig: { id } });
+      await expect(output).toMatchFileSnapshot(`./golden/closeout-${width}.txt`);
+      for (const line of output.split('\n')) {
+        if (line.includes('|')) expect(line.slice(6).length).toBeLessThanOrEqual(width);
+      }
+    });
+  }
+
+  it('marks reprints as duplicates', async () => {
+    const first = await post('/api/printer/print/booking', TICKET);
+    await printer.nextJob();
+    const reprint = await post(`/api/printer/jobs/${first.body.job.id}/reprint`);
+    expect(reprint.status).toBe(200);
+    expect(reprint.body.job.reprintOf).toBe(first.body.job.id);
+    expect(decodeEscPos(await printer.nextJob())).toContain('CB-- |*** DUPLICATA ***');
+  });
+
+  it('answers 404 for jobs that are not in the spool', async () => {
+    expect((await post('/api/printer/jobs/unknown-job/reprint')).status).toBe(404);
+    expect((await post('/api/printer/jobs/unknown-job/cancel')).status).toBe(404);
+  });
+
+  it('keeps the job queued while the printer is out of paper', async () => {
+    printer.statusBytes = [0x16, 0x32, 0x12, 0x72];
+    try {
+      const result = await post('/api/printer/print/booking', TICKET);
+      expect(result.status).toBe(202);
+      expect(result.body.job.error).toBe('Plus de papier');
+      expect(printer.jobs).toHaveLength(0);
+    } finally {
+      printer.statusBytes = [0x16, 0x12, 0x12, 0x12];
+    }
+  });
+});
@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { parseStaffTransaction, type StaffTransaction } from '../../api/types';
+import { computeExpectedCash } from '../shiftCloseoutService';
+
+const transaction = (type: string, fields: Record<string, unknown>): StaffTransaction =>
+  parseStaffTransaction({ id: `${type}-1`, type, createdAt: '2026-03-14T08:00:00', ...fields }, 'transaction');
+
+describe('shift close-out', () => {
+  it('subtracts cancellation refunds from the expected cash', () => {
+    const expected = computeExpectedCash([
+      transaction('SEAT_BOOKING', { seatsBooked: 3, basePrice: 4.5, amount: 13.95 }),
+      transaction('day_pass', { amount: 2 }),
+      transaction('BOOKING_CANCELLED', { seatsBooked: 1, basePrice: 4.5, amount: 4.65 }),
+      // Refund not reported: priced like at the desk
+      transaction('refund', { seatsBooked: 1, basePrice: 4.5, amount: 0 }),
+    ]);
+    expect(expected).toMatchObject({ seats: 3, refundedSeats: 2, refundAmount: 9.3, total: 6.65 });
+  });
+
+  it('reads refunds as negative amounts whatever their sign', () => {
+    expect(transaction('cancellation', { seatsBooked: 1, amount: -4.65 }).amount).toBe(-4.65);
+    expect(transaction('cancellation', { seatsBooked: 1, amount: 4.65 }).amount).toBe(-4.65);
+  });
+
+  it('rejects transaction types it cannot account for', () => {
+    expect(() => transaction('adjustment', { amount: 5 })).toThrow(/transaction\.type inconnu/);
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import type { StatisticsReportData } from '../printerService';
+import { statisticsCsv, statisticsHtml, statisticsXlsx } from '../statisticsExport';
+import { crc32 } from '../xlsxWriter';
+
+const REPORT: StatisticsReportData = {
+  periodLabel: 'Mars 2026',
+  totalSeatsBooked: 42,
+  totalSeatIncome: 189,
+  totalDayPassesSold: 6,
+  totalDayPassIncome: 12,
+  totalIncome: 201,
+  staffData: [
+    { name: 'Sami Ben Ali', seats: 30, seatIncome: 135, dayPasses: 4, dayPassIncome: 8, income: 143 },
+    { name: 'Amira "Mimi" Trabelsi', seats: 12, seatIncome: 54, dayPasses: 2, dayPassIncome: 4, income: 58 },
+  ],
+  destinationData: [
+    { name: 'SOUSSE', trips: 4, seats: 30, income: 135 },
+    { name: 'MONASTIR', trips: 1, seats: 12, income: 54.5 },
+  ],
+  createdBy: 'Superviseur',
+  createdAt: '2026-03-14T09:05:00',
+};
+
+// Entries of a stored zip, checked against their CRC
+function unzip(data: Uint8Array): Map<string, string> {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const decoder = new TextDecoder();
+  const entries = new Map<string, string>();
+  let offset = 0;
+  while (view.getUint32(offset, true) === 0x04034b50) {
+    expect(view.getUint16(offset + 8, true)).toBe(0);
+    const size = view.getUint32(offset + 18, true);
+    const nameLength = view.getUint16(offset + 26, true);
+    const name = decoder.decode(data.subarray(offset + 30, offset + 30 + nameLength));
+    const content = data.subarray(offset + 30 + nameLength, offset + 30 + nameLength + size);
+    expect(crc32(content)).toBe(view.getUint32(offset + 14, true));
+    entries.set(name, decoder.decode(content));
+    offset += 30 + nameLength + size;
+  }
+  return entries;
+}
+
+describe('statistics export', () => {
+  it('writes the totals, staff and destination blocks to CSV', () => {
+    const lines = statisticsCsv(REPORT).split('\r\n');
+    expect(lines[0]).toBe('\uFEFF"Rapport de Revenus";"Mars 2026"');
+    expect(lines).toContain('"42";"189.000";"6";"12.000";"201.000"');
+    expect(lines).toContain('"Amira ""Mimi"" Trabelsi";"12";"54.000";"2";"4.000";"58.000"');
+    expect(lines).toContain('"TOTAL";"5";"42";"189.500"');
+    expect(lines.filter((line) => line === '')).toHaveLength(3);
+  });
+
+  it('writes one worksheet per table to XLSX', () => {
+    const entries = unzip(statisticsXlsx(REPORT));
+    expect([...entries.keys()]).toEqual([
+      '[Content_Types].xml',
+      '_rels/.rels',
+      'xl/workbook.xml',
+      'xl/_rels/workbook.xml.rels',
+      'xl/styles.xml',
+      'xl/worksheets/sheet1.xml',
+      'xl/worksheets/sheet2.xml',
+      'xl/worksheets/sheet3.xml',
+    ]);
+    expect(entries.get('xl/workbook.xml')).toContain('<sheet name="Personnel" sheetId="2" r:id="rId2"/>');
+
+    const staff = entries.get('xl/worksheets/sheet2.xml') || '';
+    expect(staff).toContain('<t xml:space="preserve">Amira &quot;Mimi&quot; Trabelsi</t>');
+    // Amounts carry the millime format even when whole, counts do not
+    expect(staff).toContain('<c r="B4"><v>30</v></c><c r="C4" s="2"><v>135</v></c>');
+    expect(staff).toContain('<c r="F6" s="3"><v>201</v></c>');
+  });
+
+  it('leaves out the breakdowns the period does not have', () => {
+    const totalsOnly = { ...REPORT, staffData: [], destinationData: undefined };
+    expect(unzip(statisticsXlsx(totalsOnly)).has('xl/worksheets/sheet2.xml')).toBe(false);
+    const html = statisticsHtml(totalsOnly);
+    expect(html).toContain('<h2>Totaux</h2>');
+    expect(html).not.toContain('<h2>Personnel</h2>');
+  });
+
+  it('embeds only data image logos, escaped', () => {
+    const logo = 'data:image/png;base64,iVBORw0KGgo=';
+    expect(statisticsHtml({ ...REPORT, companyLogo: logo })).toContain(`<img src="${logo}" alt="Logo" />`);
+    expect(statisticsHtml({ ...REPORT, companyLogo: 'data:image/png" onerror="alert(1)' })).toContain(
+      'src="data:image/png&#34; onerror=&#34;alert(1)"'
+    );
+    expect(statisticsHtml({ ...REPORT, companyLogo: 'https://example.com/logo.png' })).not.toContain('<img');
+  });
+
+  it('states the breakdowns left out in every format', () => {
+    const note = 'Détail par agent non disponible pour cette période';
+    const periodOnly = { ...REPORT, staffData: undefined, notes: [note] };
+    expect(statisticsCsv(periodOnly).split('\r\n')).toContain(`"Note";"${note}"`);
+    expect(statisticsHtml(periodOnly)).toContain(`<p class="note">${note}</p>`);
+    const entries = unzip(statisticsXlsx(periodOnly));
+    expect(entries.get('xl/workbook.xml')).not.toContain('Personnel');
+    expect(entries.get('xl/worksheets/sheet1.xml')).toContain(note);
+  });
+});
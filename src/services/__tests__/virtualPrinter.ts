@@ -0,0 +1,147 @@
+import * as net from 'net';
+import { decodeText, type CodePage } from '../escposBuilder';
+
+const ESC = 0x1b;
+const GS = 0x1d;
+const DLE = 0x10;
+const LF = 0x0a;
+
+const CODE_PAGES: Record<number, CodePage> = { 2: 'cp850', 16: 'cp1252' };
+
+/**
+ * Readable transcript of ESC/POS bytes, one entry per printed line or
+ * command. Text lines are prefixed with their style: alignment (L/C/R),
+ * then B (bold), W (double width) and H (double height) or '-'.
+ */
+export function decodeEscPos(bytes: Uint8Array): string {
+  const out: string[] = [];
+  let codePage: CodePage = 'cp850';
+  let align = 'L';
+  let bold = false;
+  let size = 0;
+  let text: number[] = [];
+  let qr = { size: 0, data: '' };
+
+  const flush = () => {
+    const style = `${align}${bold ? 'B' : '-'}${size & 0x10 ? 'W' : '-'}${size & 0x01 ? 'H' : '-'}`;
+    out.push(`${style} |${decodeText(text, codePage)}`);
+    text = [];
+  };
+
+  for (let i = 0; i < bytes.length; i++) {
+    const byte = bytes[i];
+    if (byte === ESC) {
+      const cmd = bytes[++i];
+      if (cmd === 0x40) {
+        align = 'L';
+        bold = false;
+        size = 0;
+        out.push('<init>');
+      } else if (cmd === 0x74) {
+        codePage = CODE_PAGES[bytes[++i]] ?? codePage;
+        out.push(`<code page ${codePage}>`);
+      } else if (cmd === 0x61) {
+        align = ['L', 'C', 'R'][bytes[++i]] ?? 'L';
+      } else if (cmd === 0x45) {
+        bold = bytes[++i] === 1;
+      } else if (cmd === 0x64) {
+        out.push(`<feed ${bytes[++i]}>`);
+      } else {
+        out.push(`<ESC 0x${cmd.toString(16)}>`);
+      }
+    } else if (byte === GS) {
+      const cmd = bytes[++i];
+      if (cmd === 0x21) {
+        size = bytes[++i];
+      } else if (cmd === 0x56) {
+        out.push('<cut>');
+        i += 2;
+      } else if (cmd === 0x28 && bytes[i + 1] === 0x6b) {
+        // GS ( k pL pH cn fn [params]: 2D code function
+        const length = bytes[i + 2] | (bytes[i + 3] << 8);
+        const fn = bytes[i + 5];
+        const params = bytes.subarray(i + 6, i + 4 + length);
+        if (fn === 0x43) qr.size = params[0];
+        if (fn === 0x50) qr.data = decodeText(params.subarray(1), codePage);
+        if (fn === 0x51) {
+          out.push(`<qr size ${qr.size}> ${qr.data}`);
+          qr = { size: 0, data: '' };
+        }
+        i += 3 + length;
+      } else if (cmd === 0x76 && bytes[i + 1] === 0x30) {
+        // GS v 0 m xL xH yL yH d1...dk: raster image
+        const widthBytes = bytes[i + 3] | (bytes[i + 4] << 8);
+        const height = bytes[i + 5] | (bytes[i + 6] << 8);
+        out.push(`<image ${widthBytes * 8}x${height}>`);
+        i += 6 + widthBytes * height;
+      } else if (cmd === 0x6b) {
+        // GS k m n d1...dn: barcode (CODE128 data starts with its code set)
+        const length = bytes[i + 2];
+        out.push(`<barcode> ${decodeText(bytes.subarray(i + 3, i + 3 + length), codePage).replace(/^\{[ABC]/, '')}`);
+        i += 2 + length;
+      } else if (cmd === 0x48 || cmd === 0x68 || cmd === 0x77) {
+        i++; // Barcode text position, height and width
+      } else {
+        out.push(`<GS 0x${cmd.toString(16)}>`);
+      }
+    } else if (byte === LF) {
+      // QR codes and barcodes end with a line feed of their own
+      const last = out[out.length - 1] ?? '';
+      if (text.length === 0 && (last.startsWith('<qr') || last.startsWith('<barcode'))) continue;
+      flush();
+    } else {
+      text.push(byte);
+    }
+  }
+  if (text.length > 0) flush();
+  return out.join('\n') + '\n';
+}
+
+/**
+ * In-process network printer: records every job and answers DLE EOT status
+ * queries with `statusBytes`, like a healthy ESC/POS printer by default
+ */
+export class VirtualPrinter {
+  readonly jobs: Uint8Array[] = [];
+  statusBytes = [0x16, 0x12, 0x12, 0x12];
+  private server = net.createServer((socket) => this.accept(socket));
+  private waiters: Array<(job: Uint8Array) => void> = [];
+
+  async start(): Promise<number> {
+    await new Promise<void>((resolve) => this.server.listen(0, '127.0.0.1', resolve));
+    return (this.server.address() as net.AddressInfo).port;
+  }
+
+  stop(): Promise<void> {
+    return new Promise((resolve) => this.server.close(() => resolve()));
+  }
+
+  /**
+   * The next job received, or one already received and not yet taken
+   */
+  nextJob(): Promise<Uint8Array> {
+    const job = this.jobs.shift();
+    if (job) return Promise.resolve(job);
+    return new Promise((resolve) => this.waiters.push(resolve));
+  }
+
+  private accept(socket: net.Socket): void {
+    const chunks: Buffer[] = [];
+    socket.on('data', (chunk: Buffer) => {
+      // Status queries come alone on their own connection
+      if (chunk[0] === DLE && chunk[1] === 0x04) {
+        socket.write(Buffer.from(this.statusBytes));
+        return;
+      }
+      chunks.push(chunk);
+    });
+    socket.on('error', () => undefined);
+    socket.on('close', () => {
+      if (chunks.length === 0) return;
+      const job = new Uint8Array(Buffer.concat(chunks));
+      const waiter = this.waiters.shift();
+      if (waiter) waiter(job);
+      else this.jobs.push(job);
+    });
+  }
+}
@@ -1,5 +1,8 @@
 // Booking service for API calls
-const API_BASE_URL = 'http://192.168.0.193:8003/api/v1';
+import { API } from '../config';
+
+// Read at call time so the endpoint follows the station settings
+const apiBaseUrl = (): string => `${API.booking}/api/v1`;
 
 export interface BookingRequest {
   queueEntryId: string;
@@ -50,7 +53,7 @@ const apiRequest = async (url: string, options: RequestInit = {}): Promise<Respo
 
 // Create booking by queue entry
 export const createBookingByQueueEntry = async (request: BookingRequest): Promise<BookingResponse> => {
-  const response = await apiRequest(`${API_BASE_URL}/bookings/by-queue-entry`, {
+  const response = await apiRequest(`${apiBaseUrl()}/bookings/by-queue-entry`, {
     method: 'POST',
     body: JSON.stringify(request),
   });
@@ -60,15 +63,15 @@ export const createBookingByQueueEntry = async (request: BookingRequest): Promis
 // Get today's trips count
 export const getTodayTripsCount = async (destinationId?: string): Promise<TripCountResponse> => {
   const url = destinationId 
-    ? `${API_BASE_URL}/trips/today/count?destination_id=${encodeURIComponent(destinationId)}`
-    : `${API_BASE_URL}/trips/today/count`;
+    ? `${apiBaseUrl()}/trips/today/count?destination_id=${encodeURIComponent(destinationId)}`
+    : `${apiBaseUrl()}/trips/today/count`;
   const response = await apiRequest(url);
   return response.json();
 };
 
 // Get today's trips
 export const getTodayTrips = async (search?: string): Promise<any> => {
-  const url = search ? `${API_BASE_URL}/trips/today?search=${encodeURIComponent(search)}` : `${API_BASE_URL}/trips/today`;
+  const url = search ? `${apiBaseUrl()}/trips/today?search=${encodeURIComponent(search)}` : `${apiBaseUrl()}/trips/today`;
   const response = await apiRequest(url);
   return response.json();
 };
@@ -0,0 +1,95 @@
+// Per-destination figures from the day's trips: seats sold, departures, how
+// full the vehicles left and when passengers travel, to size each route's fleet
+import type { DestinationRoute, Trip } from '../api/types';
+
+export interface DestinationStats {
+  destinationId: string;
+  name: string;
+  trips: number;
+  seats: number;
+  // Seats offered by the vehicles that left
+  capacity: number;
+  // Mean of seatsBooked / vehicleCapacity over the departures, 0 to 1
+  loadFactor: number;
+  // Seats at the route price, without the station fee
+  revenue: number;
+  // Seats and departures by hour of departure, local time
+  hourlySeats: number[];
+  hourlyTrips: number[];
+  // Hour the most seats left at, null without departures
+  peakHour: number | null;
+}
+
+function sameName(a: string, b: string): boolean {
+  return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+function emptyStats(destinationId: string, name: string): DestinationStats {
+  return {
+    destinationId,
+    name,
+    trips: 0,
+    seats: 0,
+    capacity: 0,
+    loadFactor: 0,
+    revenue: 0,
+    hourlySeats: new Array(24).fill(0),
+    hourlyTrips: new Array(24).fill(0),
+    peakHour: null,
+  };
+}
+
+// Trips that left within [start, end), by departure time
+export function tripsBetween(trips: Trip[], start: Date, end: Date): Trip[] {
+  return trips.filter((trip) => {
+    const departure = new Date(trip.startTime || trip.createdAt).getTime();
+    return departure >= start.getTime() && departure < end.getTime();
+  });
+}
+
+/**
+ * Group trips by destination. Active routes without departures are listed
+ * too, and price the trips that came without one. Highest revenue first
+ */
+export function summarizeDestinations(trips: Trip[], routes: DestinationRoute[] = []): DestinationStats[] {
+  const byDestination = new Map<string, DestinationStats>();
+  const ratios = new Map<string, number[]>();
+  const routeFor = (trip: Trip) =>
+    routes.find((r) => (trip.destinationId && r.stationId === trip.destinationId) || sameName(r.stationName, trip.destinationName));
+
+  for (const route of routes) {
+    if (route.isActive) byDestination.set(route.stationId || route.stationName, emptyStats(route.stationId, route.stationName));
+  }
+
+  for (const trip of trips) {
+    const route = routeFor(trip);
+    const key = route ? route.stationId || route.stationName : trip.destinationId || trip.destinationName;
+    let row = byDestination.get(key);
+    if (!row) {
+      row = emptyStats(trip.destinationId, trip.destinationName);
+      byDestination.set(key, row);
+    }
+    row.trips += 1;
+    row.seats += trip.seatsBooked;
+    row.capacity += trip.vehicleCapacity;
+    row.revenue += trip.seatsBooked * (trip.basePrice || route?.basePrice || 0);
+    if (trip.vehicleCapacity > 0) {
+      ratios.set(key, [...(ratios.get(key) || []), Math.min(1, trip.seatsBooked / trip.vehicleCapacity)]);
+    }
+    const departure = new Date(trip.startTime || trip.createdAt);
+    if (!isNaN(departure.getTime())) {
+      row.hourlySeats[departure.getHours()] += trip.seatsBooked;
+      row.hourlyTrips[departure.getHours()] += 1;
+    }
+  }
+
+  for (const [key, row] of byDestination) {
+    const loads = ratios.get(key) || [];
+    row.loadFactor = loads.length > 0 ? loads.reduce((sum, r) => sum + r, 0) / loads.length : 0;
+    row.revenue = Math.round(row.revenue * 1000) / 1000;
+    const peak = Math.max(...row.hourlySeats);
+    row.peakHour = peak > 0 ? row.hourlySeats.indexOf(peak) : null;
+  }
+
+  return Array.from(byDestination.values()).sort((a, b) => b.revenue - a.revenue || a.name.localeCompare(b.name));
+}
@@ -1,17 +1,15 @@
 import * as net from 'net';
 import * as http from 'http';
-
-interface PrinterConfig {
-  id: string;
-  name: string;
-  ip: string;
-  port: number;
-  width: number;
-  timeout: number;
-  model: string;
-  enabled: boolean;
-  isDefault?: boolean;
-}
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { EscPosBuilder } from './escposBuilder';
+import { ditherBitmap, DOTS_PER_CHAR, type ImageDecoder, type RasterImage } from './logoRaster';
+import { PrintSpool, type PrintJob, type PrintJobType } from './printSpool';
+import { PrinterRegistry, type PrinterConfig, type PrinterRouting } from './printerRegistry';
+import { queryPrinterStatus, type PrinterStatus } from './printerStatus';
+import { addTicketHeader, DEFAULT_TEMPLATES, renderTicketTemplate, type TicketTemplateType } from './ticketTemplates';
+import type { StatisticsReportData } from './printerService';
 
 interface TicketData {
   licensePlate: string;
@@ -30,12 +28,76 @@ interface TicketData {
   companyLogo?: string;
   staffFirstName?: string;
   staffLastName?: string;
-  printerConfig?: {
-    ip: string;
-    port: number;
-  };
+  bookingId?: string;
+  passId?: string;
+  qrCode?: string;
+  controlCode?: string;
+  printerConfig?: Partial<PrinterConfig>;
+  // Layout chosen in the supervisor settings; the built-in one otherwise
+  template?: string;
+  // Set on reprints of a ticket that already came out
+  duplicate?: boolean;
+}
+
+// The renderer's report, with the printer it was routed to
+interface StatisticsReport extends StatisticsReportData {
+  printerConfig?: Partial<PrinterConfig>;
+  duplicate?: boolean;
 }
 
+interface CloseoutReport {
+  staffName: string;
+  shiftStart: string;
+  closedAt: string;
+  seats: number;
+  seatAmount: number;
+  stationFees: number;
+  dayPasses: number;
+  dayPassAmount: number;
+  refundedSeats: number;
+  refundAmount: number;
+  expected: number;
+  counted: number;
+  variance: number;
+  denominations: Array<{ value: number; count: number }>;
+  note?: string;
+  companyLogo?: string;
+  printerConfig?: Partial<PrinterConfig>;
+  duplicate?: boolean;
+}
+
+// Shorten text to `max` characters, marking the cut with a dot
+function fitText(text: string, max: number): string {
+  return text.length <= max ? text : `${text.substring(0, Math.max(0, max - 1))}.`;
+}
+
+// Break free text into lines of at most `max` characters, at spaces where possible
+function wrapText(text: string, max: number): string[] {
+  const lines: string[] = [];
+  let current = '';
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    if (current && current.length + 1 + word.length > max) {
+      lines.push(current);
+      current = '';
+    }
+    current = current ? `${current} ${word}` : word;
+    while (current.length > max) {
+      lines.push(current.substring(0, max));
+      current = current.substring(max);
+    }
+  }
+  if (current) lines.push(current);
+  return lines;
+}
+
+// What the print history shows; the payload stays in the spool
+export type PrintJobSummary = Omit<PrintJob, 'payload' | 'printer'> & { printer: string };
+
+// Queued jobs are retried this often while the printer is away
+const RETRY_INTERVAL_MS = 10000;
+// After this many attempts a job is marked failed and only prints on demand
+const MAX_ATTEMPTS = 30;
+
 /**
  * Embedded Printer Service
  * Runs a simple HTTP server within the Electron app
@@ -45,6 +107,20 @@ export class EmbeddedPrinterService {
   private server: http.Server | null = null;
   private port: number = 8105;
   private isRunning: boolean = false;
+  // Logo images are decoded by the host (Electron nativeImage) and resolved
+  // against its public assets directory
+  private assetRoot: string = '';
+  private decodeImage: ImageDecoder | null = null;
+  // Dithered logos keyed by printer width and image source
+  private logoCache = new Map<string, RasterImage>();
+  private spool = new PrintSpool();
+  private printers = new PrinterRegistry();
+  // Jobs print one after the other so tickets never interleave on the paper
+  private printQueue: Promise<unknown> = Promise.resolve();
+  private retryTimer: NodeJS.Timeout | null = null;
+  private retrying = false;
+  // Printers (ip:port) that never answer DLE EOT: not asked again before each job
+  private statusUnsupported = new Set<string>();
 
   constructor(port?: number) {
     if (port) {
@@ -69,6 +145,7 @@ export class EmbeddedPrinterService {
 
         this.server.listen(this.port, () => {
           this.isRunning = true;
+          this.retryTimer = setInterval(() => this.retryQueued(), RETRY_INTERVAL_MS);
           console.log(`[Printer Service] Started on http://192.168.0.193:${this.port}`);
           resolve();
         });
@@ -94,6 +171,10 @@ export class EmbeddedPrinterService {
    * Stop the embedded printer service
    */
   async stop(): Promise<void> {
+    if (this.retryTimer) {
+      clearInterval(this.retryTimer);
+      this.retryTimer = null;
+    }
     return new Promise((resolve) => {
       if (this.server) {
         this.server.close(() => {
@@ -113,7 +194,7 @@ export class EmbeddedPrinterService {
   private async handleRequest(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
     // Enable CORS
     res.setHeader('Access-Control-Allow-Origin', '*');
-    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, OPTIONS');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS');
     res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
     res.setHeader('Content-Type', 'application/json');
 
@@ -145,63 +226,115 @@ export class EmbeddedPrinterService {
       return;
     }
 
-    // Get printer config
-    if (url.pathname.startsWith('/api/printer/config/') && req.method === 'GET') {
-      const config = this.getDefaultConfig();
+    // All printers and the routing table
+    if (url.pathname === '/api/printer/config' && req.method === 'GET') {
       res.writeHead(200);
-      res.end(JSON.stringify(config));
+      res.end(JSON.stringify({ printers: this.printers.list(), routing: this.printers.getRouting() }));
+      return;
+    }
+
+    // Which printer prints each kind of ticket
+    if (url.pathname === '/api/printer/routing' && req.method === 'PUT') {
+      const routing = JSON.parse(await this.readBody(req)) as PrinterRouting;
+      this.sendConfigResult(res, () => this.printers.setRouting(routing));
       return;
     }
 
-    // Update printer config
-    if (url.pathname.startsWith('/api/printer/config/') && req.method === 'PUT') {
+    const configMatch = /^\/api\/printer\/config\/([\w-]+)$/.exec(url.pathname);
+
+    // Get printer config
+    if (configMatch && req.method === 'GET') {
+      const config = this.printers.get(configMatch[1]);
+      res.writeHead(config ? 200 : 404);
+      res.end(JSON.stringify(config || { error: 'Printer not found' }));
+      return;
+    }
+
+    // Add or update printer config
+    if (configMatch && req.method === 'PUT') {
+      const config = JSON.parse(await this.readBody(req)) as Partial<PrinterConfig>;
+      this.sendConfigResult(res, () => this.printers.upsert(configMatch[1], config));
+      return;
+    }
+
+    // Remove printer config
+    if (configMatch && req.method === 'DELETE') {
+      this.sendConfigResult(res, () => {
+        if (!this.printers.remove(configMatch[1])) throw new Error('Printer not found');
+        return { message: 'printer configuration removed' };
+      });
+      return;
+    }
+
+    // Paper, cover and error state of a printer
+    const statusMatch = /^\/api\/printer\/status\/([\w-]+)$/.exec(url.pathname);
+    if (statusMatch && req.method === 'GET') {
+      const config = this.printers.get(statusMatch[1]);
+      if (!config) {
+        res.writeHead(404);
+        res.end(JSON.stringify({ error: 'Printer not found' }));
+        return;
+      }
+      const status = await this.getPrinterStatus(config);
       res.writeHead(200);
-      res.end(JSON.stringify({ message: 'printer configuration updated successfully' }));
+      res.end(JSON.stringify({ id: config.id, name: config.name, ...status }));
       return;
     }
 
     // Test printer connection
-    if (url.pathname.startsWith('/api/printer/test/') && req.method === 'POST') {
-      const connected = await this.testConnection();
+    const testMatch = /^\/api\/printer\/test\/([\w-]+)$/.exec(url.pathname);
+    if (testMatch && req.method === 'POST') {
+      const config = this.printers.get(testMatch[1]);
+      if (!config) {
+        res.writeHead(404);
+        res.end(JSON.stringify({ connected: false, error: 'Printer not found' }));
+        return;
+      }
+      const connected = await this.testConnection(config);
       res.writeHead(200);
       res.end(JSON.stringify({ connected, error: connected ? '' : 'Could not connect to printer' }));
       return;
     }
 
-    // Print endpoints
-    if (url.pathname === '/api/printer/print/booking' && req.method === 'POST') {
+    // Print endpoints: every job goes through the spool
+    const printMatch = /^\/api\/printer\/print\/(booking|daypass|exitpass|cancellation|statistics|closeout)$/.exec(url.pathname);
+    if (printMatch && req.method === 'POST') {
       const body = await this.readBody(req);
-      const ticketData = JSON.parse(body) as TicketData;
-      await this.printTicket(ticketData, 'booking');
-      res.writeHead(200);
-      res.end(JSON.stringify({ message: 'booking ticket printed successfully' }));
+      const job = await this.submitJob(printMatch[1] as PrintJobType, JSON.parse(body));
+      this.sendJobResult(res, job);
       return;
     }
 
-    if (url.pathname === '/api/printer/print/daypass' && req.method === 'POST') {
-      const body = await this.readBody(req);
-      const ticketData = JSON.parse(body) as TicketData;
-      await this.printTicket(ticketData, 'daypass');
+    // Print history
+    if (url.pathname === '/api/printer/jobs' && req.method === 'GET') {
       res.writeHead(200);
-      res.end(JSON.stringify({ message: 'day pass ticket printed successfully' }));
+      res.end(JSON.stringify({ jobs: this.listJobs(url.searchParams.get('date')) }));
       return;
     }
 
-    if (url.pathname === '/api/printer/print/exitpass' && req.method === 'POST') {
-      const body = await this.readBody(req);
-      const ticketData = JSON.parse(body) as TicketData;
-      await this.printTicket(ticketData, 'exitpass');
-      res.writeHead(200);
-      res.end(JSON.stringify({ message: 'exit pass ticket printed successfully' }));
+    // Reprint a job, or retry it right away if it never printed
+    const reprintMatch = /^\/api\/printer\/jobs\/([\w-]+)\/reprint$/.exec(url.pathname);
+    if (reprintMatch && req.method === 'POST') {
+      this.sendJobResult(res, await this.reprintJob(reprintMatch[1]));
       return;
     }
 
-    if (url.pathname === '/api/printer/print/statistics' && req.method === 'POST') {
-      const body = await this.readBody(req);
-      const reportData = JSON.parse(body);
-      await this.printStatisticsReport(reportData);
+    // Give up on a job still waiting for the printer
+    const cancelMatch = /^\/api\/printer\/jobs\/([\w-]+)\/cancel$/.exec(url.pathname);
+    if (cancelMatch && req.method === 'POST') {
+      const job = this.spool.get(cancelMatch[1]);
+      if (!job) {
+        res.writeHead(404);
+        res.end(JSON.stringify({ error: 'Print job not found' }));
+        return;
+      }
+      if (job.status !== 'queued') {
+        res.writeHead(409);
+        res.end(JSON.stringify({ error: 'Only queued jobs can be cancelled' }));
+        return;
+      }
       res.writeHead(200);
-      res.end(JSON.stringify({ message: 'statistics report printed successfully' }));
+      res.end(JSON.stringify({ job: this.toSummary(this.spool.update(job.id, { status: 'failed', error: 'Annulé' })) }));
       return;
     }
 
@@ -227,32 +360,39 @@ export class EmbeddedPrinterService {
   }
 
   /**
-   * Get default printer configuration
+   * Apply a config change, answering 400 when it is rejected
    */
-  private getDefaultConfig(): PrinterConfig {
-    return {
-      id: 'printer1',
-      name: 'Local Printer',
-      ip: 'localhost',  // Virtual printer on localhost
-      port: 9100,
-      width: 48,
-      timeout: 5000,
-      model: 'ESC/POS',
-      enabled: true,
-      isDefault: true,
-    };
+  private sendConfigResult(res: http.ServerResponse, change: () => unknown): void {
+    try {
+      const result = change();
+      res.writeHead(200);
+      res.end(JSON.stringify(result));
+    } catch (error) {
+      res.writeHead(400);
+      res.end(JSON.stringify({ error: error instanceof Error ? error.message : String(error) }));
+    }
   }
 
   /**
    * Test printer connection
    */
-  private async testConnection(): Promise<boolean> {
-    const config = this.getDefaultConfig();
-    
+  private async testConnection(config: PrinterConfig): Promise<boolean> {
+    const connected = await this.isReachable(config.ip, config.port, config.timeout);
+    if (connected) {
+      // The printer is back: flush what waited for it
+      this.retryQueued();
+    }
+    return connected;
+  }
+
+  /**
+   * Whether a printer accepts TCP connections
+   */
+  private isReachable(ip: string, port: number, timeout: number): Promise<boolean> {
     return new Promise((resolve) => {
       const socket = new net.Socket();
 
-      socket.setTimeout(config.timeout);
+      socket.setTimeout(timeout);
 
       socket.on('connect', () => {
         socket.destroy();
@@ -268,232 +408,461 @@ export class EmbeddedPrinterService {
         resolve(false);
       });
 
-      socket.connect(config.port, config.ip);
+      socket.connect(port, ip);
     });
   }
 
   /**
-   * Print a ticket
+   * Keep printers and routing in this file (userData) across restarts
    */
-  private async printTicket(ticketData: TicketData, ticketType: string): Promise<void> {
-    const config = ticketData.printerConfig || this.getDefaultConfig();
-    
-    // Generate ticket content
-    const content = this.generateTicketContent(ticketData, ticketType);
-    
-    // Convert to ESC/POS commands
-    const escPosData = this.convertToESCPOS(content);
-    
-    // Send to printer
-    await this.sendToPrinter(config.ip, config.port, escPosData);
+  public setPrintersFile(file: string): void {
+    this.printers.open(file);
   }
 
   /**
-   * Generate ticket content - Simple and direct output
+   * Keep print jobs in this file (userData) across restarts
    */
-  private generateTicketContent(data: TicketData, type: string): string {
-    const lines: string[] = [];
-    const now = new Date(data.createdAt);
-    const dateStr = now.toLocaleDateString('fr-FR');
-    const timeStr = now.toLocaleTimeString('fr-FR', { hour: '2-digit', minute: '2-digit' });
+  public setSpoolFile(file: string): void {
+    this.spool.open(file);
+  }
 
-    // Header - Company name
-    lines.push('================================');
-    lines.push('  STE DHRAIFF SERVICES');
-    lines.push('     TRANSPORT');
-    lines.push('================================');
-    lines.push('');
-
-    if (type === 'booking') {
-      // Booking ticket (client reservation)
-      const seatCount = Math.max(1, data.seatNumber || 1);
-      lines.push('     BILLET RESERVATION');
-      lines.push('================================');
-      if (data.licensePlate) {
-        lines.push(`Vehicule: ${data.licensePlate}`);
-      }
-      lines.push(`Destination: ${data.destinationName || 'N/A'}`);
-      lines.push(`Sieges: ${seatCount}`);
-      lines.push('--------------------------------');
-      if (data.basePrice) {
-        const baseTotal = data.basePrice * seatCount;
-        lines.push(`Prix base: ${baseTotal.toFixed(2)} TND`);
-      }
-      if (data.stationFee) {
-        const feeTotal = data.stationFee * seatCount;
-        lines.push(`Frais: ${feeTotal.toFixed(2)} TND`);
-      }
-      lines.push(`Total: ${data.totalAmount.toFixed(2)} TND`);
-      lines.push('--------------------------------');
-      lines.push(`Date: ${dateStr}`);
-      lines.push(`Heure: ${timeStr}`);
-      if (data.createdBy) {
-        lines.push(`Agent: ${data.createdBy}`);
-      }
-    } else if (type === 'daypass') {
-      // Day pass ticket
-      lines.push('      PASS JOURNEE');
-      lines.push('================================');
-      lines.push(`Vehicule: ${data.licensePlate}`);
-      if (data.destinationName) {
-        lines.push(`Route: ${data.destinationName}`);
+  /**
+   * Record a job and try to print it straight away
+   */
+  private async submitJob(type: PrintJobType, payload: TicketData | Record<string, unknown>, reprintOf?: string): Promise<PrintJob | null> {
+    // The printer is chosen once: retries and reprints go to the same one
+    const config = this.resolveConfig(type, (payload as TicketData).printerConfig);
+    const job = this.spool.add({
+      type,
+      summary: this.describeJob(type, payload as TicketData & { periodLabel?: string; staffName?: string }),
+      printer: { ip: config.ip, port: config.port },
+      payload: { ...payload, printerConfig: config },
+      reprintOf,
+    });
+    return this.runJob(job.id);
+  }
+
+  private runJob(id: string): Promise<PrintJob | null> {
+    return this.serialized(() => this.printJob(id));
+  }
+
+  /**
+   * Run after the jobs already waiting: printers handle one connection at a
+   * time, so status queries wait for the ticket being printed
+   */
+  private serialized<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.printQueue.then(task);
+    this.printQueue = run.catch(() => undefined);
+    return run;
+  }
+
+  private async getPrinterStatus(config: PrinterConfig): Promise<PrinterStatus> {
+    const status = await this.serialized(() => queryPrinterStatus(config.ip, config.port, config.timeout));
+    if (status.connected) {
+      this.rememberStatusSupport(config.ip, config.port, status.statusSupported);
+      // The printer is back: flush what waited for it
+      if (!status.paperEnd && !status.coverOpen) this.retryQueued();
+    }
+    return status;
+  }
+
+  private rememberStatusSupport(ip: string, port: number, supported: boolean): void {
+    if (supported) {
+      this.statusUnsupported.delete(`${ip}:${port}`);
+    } else {
+      this.statusUnsupported.add(`${ip}:${port}`);
+    }
+  }
+
+  /**
+   * Why a printer cannot print right now (no paper, cover open), or null.
+   * Sending a ticket to such a printer would lose it while counting it done.
+   */
+  private async printerHold(ip: string, port: number): Promise<string | null> {
+    if (this.statusUnsupported.has(`${ip}:${port}`)) return null;
+    const status = await queryPrinterStatus(ip, port, this.printers.getDefault().timeout);
+    if (!status.connected) return null; // sendToPrinter reports the connection error
+    this.rememberStatusSupport(ip, port, status.statusSupported);
+    if (status.paperEnd) return 'Plus de papier';
+    if (status.coverOpen) return 'Capot ouvert';
+    return null;
+  }
+
+  /**
+   * One print attempt. An unreachable printer leaves the job queued for the
+   * retry timer; a job that cannot be rendered fails immediately. Null when
+   * the job is no longer in the spool
+   */
+  private async printJob(id: string): Promise<PrintJob | null> {
+    const job = this.spool.get(id);
+    if (!job) return null;
+    if (job.status !== 'queued') return job;
+    this.spool.update(id, { status: 'printing', attempts: job.attempts + 1 });
+
+    const hold = await this.printerHold(job.printer.ip, job.printer.port);
+    if (hold) {
+      // Not an attempt: the job waits for the operator without expiring
+      return this.spool.update(id, { status: 'queued', attempts: job.attempts - 1, error: hold });
+    }
+
+    let data: Buffer;
+    try {
+      data = await this.renderJob(job.type, this.spool.payloadOf(job));
+    } catch (error) {
+      console.error('[Printer Service] Cannot render job:', error);
+      return this.spool.update(id, { status: 'failed', error: error instanceof Error ? error.message : String(error) });
+    }
+
+    try {
+      await this.sendToPrinter(job.printer.ip, job.printer.port, data);
+      return this.spool.update(id, { status: 'done', printedAt: new Date().toISOString(), error: undefined });
+    } catch (error) {
+      const gaveUp = job.attempts >= MAX_ATTEMPTS;
+      return this.spool.update(id, {
+        status: gaveUp ? 'failed' : 'queued',
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  private renderJob(type: PrintJobType, payload: Record<string, unknown>): Promise<Buffer> {
+    if (type === 'statistics') return this.renderStatisticsReport(payload as unknown as StatisticsReport);
+    if (type === 'closeout') return this.renderCloseoutReport(payload as unknown as CloseoutReport);
+    return this.renderTicket(payload as unknown as TicketData, type);
+  }
+
+  /**
+   * Print queued jobs of today for every printer that answers again; older
+   * ones are not printed behind the operator's back
+   */
+  private async retryQueued(): Promise<void> {
+    if (this.retrying) return;
+    this.retrying = true;
+    try {
+      const today = new Date().toDateString();
+      const queued = this.spool.list().filter((job) => job.status === 'queued');
+      for (const job of queued) {
+        if (new Date(job.createdAt).toDateString() !== today) {
+          this.spool.update(job.id, { status: 'failed', error: 'Expiré: non imprimé le jour même' });
+        }
       }
-      lines.push('--------------------------------');
-      lines.push(`Montant: ${data.totalAmount.toFixed(2)} TND`);
-      lines.push('--------------------------------');
-      lines.push(`Date: ${dateStr}`);
-      lines.push(`Heure: ${timeStr}`);
-      if (data.createdBy) {
-        lines.push(`Agent: ${data.createdBy}`);
+
+      const byPrinter = new Map<string, PrintJob[]>();
+      for (const job of this.spool.list().filter((j) => j.status === 'queued')) {
+        const key = `${job.printer.ip}:${job.printer.port}`;
+        byPrinter.set(key, [...(byPrinter.get(key) || []), job]);
       }
-      lines.push('--------------------------------');
-      lines.push('   Valide toute la journee');
-    } else if (type === 'exitpass') {
-      // Exit pass (authorization de sortie)
-      lines.push('  AUTORISATION DE SORTIE');
-      lines.push('================================');
-      lines.push(`Vehicule: ${data.licensePlate}`);
-      lines.push(`Destination: ${data.destinationName || 'N/A'}`);
-      lines.push('--------------------------------');
-      if (data.seatNumber && data.seatNumber > 0) {
-        lines.push(`Sieges: ${data.seatNumber}`);
-        if (data.basePrice) {
-          const baseTotal = data.basePrice * data.seatNumber;
-          lines.push(`Prix: ${baseTotal.toFixed(2)} TND`);
+      for (const jobs of byPrinter.values()) {
+        const { ip, port } = jobs[0].printer;
+        if (!(await this.isReachable(ip, port, this.printers.getDefault().timeout))) continue;
+        for (const job of jobs) {
+          const result = await this.runJob(job.id);
+          // Printer dropped again: wait for the next round
+          if (result?.status === 'queued') break;
         }
       }
-      lines.push(`Total: ${data.totalAmount.toFixed(2)} TND`);
-      lines.push('--------------------------------');
-      lines.push(`Date: ${dateStr}`);
-      lines.push(`Heure: ${timeStr}`);
-      if (data.createdBy) {
-        lines.push(`Agent: ${data.createdBy}`);
-      }
-      lines.push('--------------------------------');
-      lines.push('      Sortie autorisee');
+    } catch (error) {
+      console.error('[Printer Service] Retry failed:', error);
+    } finally {
+      this.retrying = false;
+    }
+  }
+
+  /**
+   * Done jobs are printed again as a duplicate; jobs that never came out are
+   * simply retried now
+   */
+  private async reprintJob(id: string): Promise<PrintJob | null> {
+    const job = this.spool.get(id);
+    if (!job) return null;
+    if (job.status === 'done') {
+      return this.submitJob(job.type, { ...this.spool.payloadOf(job), duplicate: true }, job.id);
+    }
+    if (job.status === 'failed') {
+      this.spool.update(id, { status: 'queued', attempts: 0 });
+    }
+    return this.runJob(id);
+  }
+
+  /**
+   * Jobs of one day (YYYY-MM-DD, default today), newest first
+   */
+  private listJobs(date: string | null): PrintJobSummary[] {
+    const day = date ? new Date(`${date}T00:00:00`).toDateString() : new Date().toDateString();
+    return this.spool
+      .list()
+      .filter((job) => new Date(job.createdAt).toDateString() === day)
+      .reverse()
+      .map((job) => this.toSummary(job));
+  }
+
+  private toSummary(job: PrintJob): PrintJobSummary {
+    const { id, type, summary, status, attempts, createdAt, updatedAt, printedAt, error, reprintOf, printer } = job;
+    return {
+      id,
+      type,
+      summary,
+      printer: `${printer.ip}:${printer.port}`,
+      status,
+      attempts,
+      createdAt,
+      updatedAt,
+      printedAt,
+      error,
+      reprintOf,
+    };
+  }
+
+  private describeJob(type: PrintJobType, data: Partial<TicketData> & { periodLabel?: string; staffName?: string }): string {
+    switch (type) {
+      case 'booking':
+        return `${Math.max(1, data.seatNumber || 1)} siège(s) ${data.licensePlate || ''} → ${data.destinationName || ''}`;
+      case 'daypass':
+        return `Pass journée ${data.licensePlate || ''}`;
+      case 'exitpass':
+        return `Sortie ${data.licensePlate || ''} → ${data.destinationName || ''}`;
+      case 'cancellation':
+        return `Annulation ${data.licensePlate || ''} (${data.seatNumber || 1} siège(s))`;
+      case 'statistics':
+        return `Rapport ${data.periodLabel || ''}`;
+      case 'closeout':
+        return `Clôture de caisse ${data.staffName || ''}`;
+    }
+  }
+
+  /**
+   * Answer a print request: 200 once printed, 202 when the job waits for
+   * the printer, 500 when it failed
+   */
+  private sendJobResult(res: http.ServerResponse, job: PrintJob | null): void {
+    if (!job) {
+      res.writeHead(404);
+      res.end(JSON.stringify({ error: 'Print job not found' }));
+    } else if (job.status === 'done') {
+      res.writeHead(200);
+      res.end(JSON.stringify({ message: `${job.type} printed successfully`, job: this.toSummary(job) }));
+    } else if (job.status === 'queued') {
+      res.writeHead(202);
+      res.end(JSON.stringify({ message: `${job.type} queued until the printer is reachable`, job: this.toSummary(job) }));
+    } else {
+      res.writeHead(500);
+      res.end(JSON.stringify({ error: job.error || 'Print failed', job: this.toSummary(job) }));
+    }
+  }
+
+  /**
+   * Resolve the printer a job goes to: the request only carries ip/port,
+   * layout settings fall back to the defaults
+   */
+  private resolveConfig(type: PrintJobType, override?: Partial<PrinterConfig>): PrinterConfig {
+    const named = override?.id ? this.printers.get(override.id) : undefined;
+    return { ...(named || this.printers.forJob(type)), ...override };
+  }
+
+  /**
+   * Enable logo printing: `assetRoot` is where renderer paths such as
+   * /icons/ste_260.png live on disk
+   */
+  public setLogoSupport(assetRoot: string, decodeImage: ImageDecoder): void {
+    this.assetRoot = assetRoot;
+    this.decodeImage = decodeImage;
+    this.logoCache.clear();
+  }
+
+  /**
+   * Dithered logo sized to half the paper width; null when there is no logo
+   * or it cannot be loaded, in which case the company name is printed instead
+   */
+  private async loadLogo(source: string | undefined, printerWidth: number): Promise<RasterImage | null> {
+    if (!source || !this.decodeImage) return null;
+    const key = `${printerWidth}:${createHash('sha1').update(source).digest('hex')}`;
+    const cached = this.logoCache.get(key);
+    if (cached) return cached;
+
+    try {
+      const bytes = await this.readImageSource(source);
+      const bitmap = this.decodeImage(bytes, Math.floor((printerWidth * DOTS_PER_CHAR) / 2));
+      if (!bitmap) return null;
+      const logo = ditherBitmap(bitmap);
+      this.logoCache.set(key, logo);
+      return logo;
+    } catch (error) {
+      console.error('[Printer Service] Failed to load logo:', error);
+      return null;
     }
+  }
 
-    lines.push('');
-    lines.push('================================');
-    lines.push('    Merci et bon voyage!');
-    lines.push('================================');
-    lines.push('');
-    lines.push('');
-    lines.push('');
+  /**
+   * Logo sources are data URLs (custom logo from settings) or public asset paths
+   */
+  private async readImageSource(source: string): Promise<Buffer> {
+    const dataUrl = /^data:image\/[\w.+-]+;base64,(.*)$/s.exec(source);
+    if (dataUrl) {
+      return Buffer.from(dataUrl[1], 'base64');
+    }
+    // Normalising first keeps the path inside the assets directory
+    const relative = path.posix.normalize(`/${source}`).slice(1);
+    return fs.promises.readFile(path.join(this.assetRoot, relative));
+  }
 
-    return lines.join('\n');
+  /**
+   * Printer bytes for a ticket
+   */
+  private async renderTicket(ticketData: TicketData, ticketType: string): Promise<Buffer> {
+    const config = this.resolveConfig(ticketType as PrintJobType, ticketData.printerConfig);
+    const logo = await this.loadLogo(ticketData.companyLogo, config.width);
+    const template = ticketData.template || DEFAULT_TEMPLATES[ticketType as TicketTemplateType];
+    const doc = renderTicketTemplate(template, ticketData, new EscPosBuilder(config.width, config.codePage), {
+      logo,
+      duplicate: ticketData.duplicate,
+    });
+    return Buffer.from(doc.toBytes());
   }
 
   /**
-   * Print statistics report
+   * Printer bytes for the statistics report
    */
-  private async printStatisticsReport(reportData: any): Promise<void> {
-    const config = reportData.printerConfig || this.getDefaultConfig();
-    
-    // Generate statistics content
-    const content = this.generateStatisticsContent(reportData);
-    
-    // Convert to ESC/POS commands
-    const escPosData = this.convertToESCPOS(content);
-    
-    // Send to printer
-    await this.sendToPrinter(config.ip, config.port, escPosData);
+  private async renderStatisticsReport(reportData: StatisticsReport): Promise<Buffer> {
+    const config = this.resolveConfig('statistics', reportData.printerConfig);
+    const logo = await this.loadLogo(reportData.companyLogo, config.width);
+    const doc = this.buildStatisticsReport(reportData, new EscPosBuilder(config.width, config.codePage), logo);
+    return Buffer.from(doc.toBytes());
   }
 
   /**
-   * Generate statistics report content for thermal printer
+   * Lay out the statistics report for the thermal printer. Every line fits
+   * the printer width: staff and destinations print as stacked blocks
+   * rather than a table
    */
-  private generateStatisticsContent(data: any): string {
-    const lines: string[] = [];
+  private buildStatisticsReport(data: StatisticsReport, doc: EscPosBuilder, logo: RasterImage | null): EscPosBuilder {
     const now = new Date(data.createdAt || new Date());
     const dateStr = now.toLocaleDateString('fr-FR');
     const timeStr = now.toLocaleTimeString('fr-FR', { hour: '2-digit', minute: '2-digit' });
+    const amount = (value: unknown) => `${Number(value || 0).toFixed(3)} TND`;
 
     // Header
-    lines.push('================================');
-    lines.push('  STE DHRAIFF SERVICES');
-    lines.push('     TRANSPORT');
-    lines.push('================================');
-    lines.push('');
-    lines.push('   RAPPORT DE REVENUS');
-    lines.push('--------------------------------');
-    lines.push(`Periode: ${data.periodLabel}`);
-    lines.push(`Date: ${dateStr} ${timeStr}`);
+    addTicketHeader(doc, 'RAPPORT DE REVENUS', { logo, duplicate: data.duplicate });
+    doc.row('Période:', fitText(data.periodLabel, doc.width - 9));
+    doc.row('Date:', `${dateStr} ${timeStr}`);
     if (data.createdBy) {
-      lines.push(`Agent: ${data.createdBy}`);
-    }
-    lines.push('--------------------------------');
-    lines.push('');
-    
-    // Summary section
-    lines.push('RESUME DES REVENUS');
-    lines.push('--------------------------------');
-    lines.push(`Total Sieges: ${data.totalSeatsBooked}`);
-    lines.push(`Revenus Sieges: ${Number(data.totalSeatIncome).toFixed(3)} TND`);
-    lines.push(`Passes Jour: ${data.totalDayPassesSold}`);
-    lines.push(`Revenus Passes: ${Number(data.totalDayPassIncome).toFixed(3)} TND`);
-    lines.push('--------------------------------');
-    lines.push(`REVENUS TOTAUX: ${Number(data.totalIncome).toFixed(3)} TND`);
-    lines.push('--------------------------------');
-    lines.push('');
-
-    // Staff performance table
-    if (data.staffData && data.staffData.length > 0) {
-      lines.push('PERFORMANCE DU PERSONNEL');
-      lines.push('--------------------------------');
-      lines.push('Personnel | Sieges | Rev.Sieges | Passes | Rev.Passes | Total');
-      lines.push('--------------------------------');
-      
-      data.staffData.forEach((staff: any) => {
-        const name = (staff.name || '').substring(0, 10).padEnd(10);
-        const seats = String(staff.seats || 0).padStart(6);
-        const seatIncome = Number(staff.seatIncome || 0).toFixed(2).padStart(10);
-        const passes = String(staff.dayPasses || 0).padStart(6);
-        const passIncome = Number(staff.dayPassIncome || 0).toFixed(2).padStart(10);
-        const total = Number(staff.income || 0).toFixed(2).padStart(10);
-        lines.push(`${name} | ${seats} | ${seatIncome} | ${passes} | ${passIncome} | ${total}`);
+      doc.row('Agent:', fitText(data.createdBy, doc.width - 7));
+    }
+    doc.separator();
+    doc.feed();
+
+    // Period totals
+    doc.line('TOTAUX DE LA PÉRIODE', { bold: true });
+    doc.separator();
+    doc.row('Sièges:', String(data.totalSeatsBooked || 0));
+    doc.row('Revenus sièges:', amount(data.totalSeatIncome));
+    doc.row('Pass journée:', String(data.totalDayPassesSold || 0));
+    doc.row('Revenus pass:', amount(data.totalDayPassIncome));
+    doc.separator();
+    doc.row('TOTAL:', amount(data.totalIncome), { bold: true });
+    doc.separator();
+    doc.feed();
+
+    // One block per staff member: name and total, then the detail
+    const staff = data.staffData || [];
+    if (staff.length > 0) {
+      doc.line('PAR AGENT', { bold: true });
+      doc.separator();
+      staff.forEach((row) => {
+        const total = amount(row.income);
+        doc.row(fitText(row.name || '-', doc.width - total.length - 1), total, { bold: true });
+        if (row.seats) doc.row(`  Sièges: ${row.seats}`, amount(row.seatIncome));
+        if (row.dayPasses) doc.row(`  Pass: ${row.dayPasses}`, amount(row.dayPassIncome));
       });
-      
-      lines.push('--------------------------------');
-      lines.push(`TOTAL     | ${String(data.totalSeatsBooked).padStart(6)} | ${Number(data.totalSeatIncome).toFixed(2).padStart(10)} | ${String(data.totalDayPassesSold).padStart(6)} | ${Number(data.totalDayPassIncome).toFixed(2).padStart(10)} | ${Number(data.totalIncome).toFixed(2).padStart(10)}`);
-      lines.push('--------------------------------');
-      lines.push('');
+      doc.separator();
+      doc.feed();
     }
 
-    lines.push('Document genere automatiquement');
-    lines.push('par le systeme de gestion');
-    lines.push('');
+    // Ticket sales per destination, when the report carries them
+    const destinations = data.destinationData || [];
+    if (destinations.length > 0) {
+      doc.line('PAR DESTINATION', { bold: true });
+      doc.separator();
+      destinations.forEach((row) => {
+        const total = amount(row.income);
+        doc.row(fitText(row.name || '-', doc.width - total.length - 1), total, { bold: true });
+        doc.line(`  ${row.trips} départ${row.trips > 1 ? 's' : ''} - ${row.seats} siège${row.seats > 1 ? 's' : ''}`);
+      });
+      doc.separator();
+      const seats = destinations.reduce((sum, row) => sum + (row.seats || 0), 0);
+      const income = destinations.reduce((sum, row) => sum + Number(row.income || 0), 0);
+      doc.row(`Billets: ${seats}`, amount(income), { bold: true });
+      doc.separator();
+      doc.feed();
+    }
 
-    return lines.join('\n');
+    doc.center('Document généré automatiquement');
+    doc.center('par le système de gestion');
+    doc.feed(3);
+    doc.cut();
+    return doc;
   }
 
   /**
-   * Convert text to ESC/POS commands - Simple direct output
+   * Printer bytes for the Z-report of a cash drawer close-out
    */
-  private convertToESCPOS(content: string): Buffer {
-    // ESC @ - Initialize printer
-    let data = Buffer.from([0x1B, 0x40]);
-
-    // Set character set to French (Code Page 850)
-    data = Buffer.concat([data, Buffer.from([0x1B, 0x74, 0x02])]);
-
-    // Center alignment
-    data = Buffer.concat([data, Buffer.from([0x1B, 0x61, 0x01])]);
-
-    // Add content with proper encoding
-    const contentBuffer = Buffer.from(content, 'utf8');
-    data = Buffer.concat([data, contentBuffer]);
-
-    // Reset alignment
-    data = Buffer.concat([data, Buffer.from([0x1B, 0x61, 0x00])]);
-
-    // Add line feeds
-    data = Buffer.concat([data, Buffer.from([0x0A, 0x0A, 0x0A, 0x0A])]);
+  private async renderCloseoutReport(report: CloseoutReport): Promise<Buffer> {
+    const config = this.resolveConfig('closeout', report.printerConfig);
+    const logo = await this.loadLogo(report.companyLogo, config.width);
+    const doc = this.buildCloseoutReport(report, new EscPosBuilder(config.width, config.codePage), logo);
+    return Buffer.from(doc.toBytes());
+  }
 
-    // Cut paper - GS V 0
-    data = Buffer.concat([data, Buffer.from([0x1D, 0x56, 0x00])]);
+  /**
+   * Lay out the close-out: sales, expected cash, the count by denomination
+   * and the variance, with room for both signatures
+   */
+  private buildCloseoutReport(report: CloseoutReport, doc: EscPosBuilder, logo: RasterImage | null): EscPosBuilder {
+    const amount = (value: number) => `${Number(value || 0).toFixed(3)} TND`;
+    const dateTime = (iso: string) => {
+      const date = new Date(iso);
+      return `${date.toLocaleDateString('fr-FR')} ${date.toLocaleTimeString('fr-FR', { hour: '2-digit', minute: '2-digit' })}`;
+    };
 
-    return data;
+    addTicketHeader(doc, 'CLÔTURE CAISSE', { logo, duplicate: report.duplicate });
+    doc.row('Agent:', fitText(report.staffName, doc.width - 7), { bold: true });
+    doc.row('Début:', dateTime(report.shiftStart));
+    doc.row('Fin:', dateTime(report.closedAt));
+    doc.separator();
+
+    doc.line('VENTES', { bold: true });
+    doc.row(`Sièges: ${report.seats}`, amount(report.seatAmount));
+    doc.row('Frais station:', amount(report.stationFees));
+    doc.row(`Pass journée: ${report.dayPasses}`, amount(report.dayPassAmount));
+    if (report.refundAmount > 0) {
+      doc.row(`Remboursements: ${report.refundedSeats}`, `-${amount(report.refundAmount)}`);
+    }
+    doc.separator();
+    doc.row('ATTENDU:', amount(report.expected), { bold: true });
+    doc.separator();
+
+    doc.line('COMPTAGE', { bold: true });
+    report.denominations
+      .filter((d) => d.count > 0)
+      .forEach((d) => doc.row(`  ${d.value.toFixed(3).padStart(6)} x ${d.count}`, (d.value * d.count).toFixed(3)));
+    doc.separator();
+    doc.row('COMPTÉ:', amount(report.counted), { bold: true });
+
+    const variance = Math.round(report.variance * 1000) / 1000;
+    doc.row('ÉCART:', `${variance > 0 ? '+' : ''}${amount(variance)}`, { bold: true, doubleHeight: true });
+    doc.center(variance === 0 ? 'CAISSE JUSTE' : variance > 0 ? 'EXCÉDENT' : 'MANQUE', { bold: true });
+    if (report.note) {
+      doc.separator();
+      wrapText(`Note: ${report.note}`, doc.width).forEach((line) => doc.line(line));
+    }
+    doc.separator();
+    doc.feed();
+
+    doc.line('Signature agent:');
+    doc.feed(2);
+    doc.line('Signature superviseur:');
+    doc.feed(3);
+    doc.cut();
+    return doc;
   }
 
   /**
@@ -0,0 +1,212 @@
+// Service endpoint settings for management-desktop
+import { API, DEFAULT_API, ServiceEndpoints } from '../config';
+import { getStaffInfo } from '../api/client';
+import { printerService } from './printerService';
+
+export type EndpointKey = keyof ServiceEndpoints;
+
+export type EndpointErrors = Partial<Record<EndpointKey, string>>;
+
+export interface EndpointTestResult {
+  key: EndpointKey;
+  ok: boolean;
+  latency?: number;
+  error?: string;
+}
+
+export const ENDPOINT_LABELS: Record<EndpointKey, string> = {
+  auth: 'Authentification',
+  queue: "File d'attente",
+  booking: 'Réservations',
+  ws: 'Hub WebSocket',
+  printer: "Service d'impression",
+  stats: 'Statistiques (WebSocket)',
+  statistics: 'Statistiques',
+  staff: 'Personnel',
+};
+
+const ENDPOINT_KEYS = Object.keys(DEFAULT_API) as EndpointKey[];
+const TEST_TIMEOUT_MS = 5000;
+
+class EndpointSettingsService {
+  private readonly SETTINGS_SECTION = 'endpoints';
+  // Used when running outside Electron (vite dev server in a browser)
+  private readonly STORAGE_KEY = 'management-desktop-endpoints';
+  private readonly STATION_SECTION = 'station';
+  private readonly STATION_STORAGE_KEY = 'management-desktop-station';
+  private stationId = '';
+
+  getKeys(): EndpointKey[] {
+    return ENDPOINT_KEYS;
+  }
+
+  getEndpoints(): ServiceEndpoints {
+    return { ...API };
+  }
+
+  getDefaults(): ServiceEndpoints {
+    return { ...DEFAULT_API };
+  }
+
+  // Load saved endpoints and apply them; must run before the first API call
+  async load(): Promise<ServiceEndpoints> {
+    try {
+      const saved = await this.readSaved();
+      if (saved) {
+        const endpoints = this.normalize({ ...DEFAULT_API, ...saved });
+        const errors = this.validate(endpoints);
+        if (Object.keys(errors).length === 0) {
+          this.apply(endpoints);
+        } else {
+          console.error('Ignoring invalid saved endpoints:', errors);
+        }
+      }
+    } catch (error) {
+      console.error('Failed to load endpoint settings:', error);
+    }
+    try {
+      this.stationId = (await this.readSavedStationId()) || '';
+    } catch (error) {
+      console.error('Failed to load station settings:', error);
+    }
+    return this.getEndpoints();
+  }
+
+  // Station set on this workstation
+  getSavedStationId(): string {
+    return this.stationId;
+  }
+
+  /**
+   * Station whose queues and totals this workstation follows: the one set in
+   * the settings, else the station of the staff member signed in; empty when
+   * neither is known
+   */
+  getStationId(): string {
+    return this.stationId || getStaffInfo()?.stationId || '';
+  }
+
+  async saveStationId(stationId: string): Promise<void> {
+    const id = stationId.trim();
+    if (window.electronAPI) {
+      const result = await window.electronAPI.saveSettings({ [this.STATION_SECTION]: { id } });
+      if (!result.success) {
+        throw new Error(result.error || "Échec de l'enregistrement des paramètres");
+      }
+    } else {
+      localStorage.setItem(this.STATION_STORAGE_KEY, id);
+    }
+    this.stationId = id;
+  }
+
+  // Validate, persist and apply new endpoints
+  async save(endpoints: ServiceEndpoints): Promise<void> {
+    const normalized = this.normalize(endpoints);
+    const errors = this.validate(normalized);
+    if (Object.keys(errors).length > 0) {
+      throw new Error('Certaines adresses sont invalides');
+    }
+
+    if (window.electronAPI) {
+      const result = await window.electronAPI.saveSettings({ [this.SETTINGS_SECTION]: normalized });
+      if (!result.success) {
+        throw new Error(result.error || "Échec de l'enregistrement des paramètres");
+      }
+    } else {
+      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(normalized));
+    }
+    this.apply(normalized);
+  }
+
+  validate(endpoints: ServiceEndpoints): EndpointErrors {
+    const errors: EndpointErrors = {};
+    for (const key of ENDPOINT_KEYS) {
+      const value = (endpoints[key] || '').trim();
+      if (!value) {
+        errors[key] = 'Adresse obligatoire';
+        continue;
+      }
+      let url: URL;
+      try {
+        url = new URL(value);
+      } catch {
+        errors[key] = 'Adresse invalide (ex: http://192.168.1.10:8002)';
+        continue;
+      }
+      const allowed = key === 'ws' ? ['ws:', 'wss:'] : ['http:', 'https:'];
+      if (!allowed.includes(url.protocol)) {
+        errors[key] = `Le protocole doit être ${allowed.map((p) => p.replace(':', '://')).join(' ou ')}`;
+      } else if (url.pathname !== '/' || url.search || url.hash) {
+        errors[key] = "Indiquez uniquement l'hôte et le port, sans chemin";
+      }
+    }
+    return errors;
+  }
+
+  // Call the /health route of an endpoint
+  async testEndpoint(key: EndpointKey, endpoint: string): Promise<EndpointTestResult> {
+    const base = this.toHttp(endpoint.trim().replace(/\/+$/, ''));
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), TEST_TIMEOUT_MS);
+    const start = Date.now();
+    try {
+      const response = await fetch(`${base}/health`, { signal: controller.signal });
+      const latency = Date.now() - start;
+      if (!response.ok) {
+        return { key, ok: false, latency, error: `HTTP ${response.status}` };
+      }
+      return { key, ok: true, latency };
+    } catch (error) {
+      const aborted = error instanceof DOMException && error.name === 'AbortError';
+      return {
+        key,
+        ok: false,
+        error: aborted ? `Pas de réponse après ${TEST_TIMEOUT_MS / 1000}s` : error instanceof Error ? error.message : String(error),
+      };
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  async testAll(endpoints: ServiceEndpoints): Promise<EndpointTestResult[]> {
+    return Promise.all(ENDPOINT_KEYS.map((key) => this.testEndpoint(key, endpoints[key])));
+  }
+
+  private async readSaved(): Promise<Partial<ServiceEndpoints> | null> {
+    if (window.electronAPI) {
+      const settings = await window.electronAPI.getSettings();
+      return (settings?.[this.SETTINGS_SECTION] as Partial<ServiceEndpoints> | undefined) || null;
+    }
+    const stored = localStorage.getItem(this.STORAGE_KEY);
+    return stored ? JSON.parse(stored) : null;
+  }
+
+  private async readSavedStationId(): Promise<string | null> {
+    if (window.electronAPI) {
+      const settings = await window.electronAPI.getSettings();
+      const station = settings?.[this.STATION_SECTION] as { id?: unknown } | undefined;
+      return typeof station?.id === 'string' ? station.id : null;
+    }
+    return localStorage.getItem(this.STATION_STORAGE_KEY);
+  }
+
+  private normalize(endpoints: ServiceEndpoints): ServiceEndpoints {
+    const normalized = { ...endpoints };
+    for (const key of ENDPOINT_KEYS) {
+      normalized[key] = String(endpoints[key] ?? '').trim().replace(/\/+$/, '');
+    }
+    return normalized;
+  }
+
+  private apply(endpoints: ServiceEndpoints): void {
+    Object.assign(API, endpoints);
+    printerService.setBaseUrl(endpoints.printer);
+  }
+
+  private toHttp(endpoint: string): string {
+    return endpoint.replace(/^ws(s?):\/\//, 'http$1://');
+  }
+}
+
+// Create singleton instance
+export const endpointSettingsService = new EndpointSettingsService();
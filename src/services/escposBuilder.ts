@@ -0,0 +1,271 @@
+// ESC/POS document builder for the thermal printers. Text is kept as a list
+// of styled lines so the same document can be sent as bytes or shown as a
+// plain-text preview; bytes are encoded in the printer code page, never UTF-8.
+import type { RasterImage } from './logoRaster';
+
+export type CodePage = 'cp850' | 'cp1252';
+export type Align = 'left' | 'center' | 'right';
+
+export interface TextStyle {
+  align?: Align;
+  bold?: boolean;
+  doubleWidth?: boolean;
+  doubleHeight?: boolean;
+}
+
+type Block =
+  | { kind: 'text'; text: string; style: TextStyle }
+  | { kind: 'feed'; lines: number }
+  | { kind: 'qr'; data: string; size: number }
+  | { kind: 'barcode'; data: string }
+  | { kind: 'image'; image: RasterImage }
+  | { kind: 'cut' };
+
+const ESC = 0x1b;
+const GS = 0x1d;
+const LF = 0x0a;
+
+// `ESC t n` table numbers (Epson numbering, shared by most clones)
+const CODE_PAGE_TABLE: Record<CodePage, number> = {
+  cp850: 2,
+  cp1252: 16,
+};
+
+// Characters 0x80-0xFF of each code page, in byte order
+const CP850_HIGH =
+  'ÇüéâäàåçêëèïîìÄÅÉæÆôöòûùÿÖÜø£Ø×ƒáíóúñÑªº¿®¬½¼¡«»░▒▓│┤ÁÂÀ©╣║╗╝¢¥┐' +
+  '└┴┬├─┼ãÃ╚╔╩╦╠═╬¤ðÐÊËÈıÍÎÏ┘┌█▄¦Ì▀ÓßÔÒõÕµþÞÚÛÙýÝ¯´\u00ad±‗¾¶§÷¸°¨·¹³²■\u00a0';
+// 0x80-0x9F differ from Latin-1; '\0' marks the unassigned slots
+const CP1252_C1 = '€\0‚ƒ„…†‡ˆ‰Š‹Œ\0Ž\0\0‘’“”•–—˜™š›œ\0žŸ';
+
+function buildEncodeTable(high: string): Map<string, number> {
+  const table = new Map<string, number>();
+  Array.from(high).forEach((char, i) => {
+    if (char !== '\0') table.set(char, 0x80 + i);
+  });
+  return table;
+}
+
+const ENCODE_TABLES: Record<CodePage, Map<string, number>> = {
+  cp850: buildEncodeTable(CP850_HIGH),
+  cp1252: buildEncodeTable(CP1252_C1 + Array.from({ length: 0x60 }, (_, i) => String.fromCharCode(0xa0 + i)).join('')),
+};
+
+/**
+ * Text of printer bytes in the given code page, for virtual printers and
+ * tests; the inverse of `encodeText` for characters the page has
+ */
+export function decodeText(bytes: ArrayLike<number>, codePage: CodePage): string {
+  const table = ENCODE_TABLES[codePage];
+  const high = new Map(Array.from(table, ([char, byte]) => [byte, char]));
+  return Array.from(bytes, (byte) => (byte < 0x80 ? String.fromCharCode(byte) : high.get(byte) ?? '?')).join('');
+}
+
+// Typography the operators paste from other apps, and symbols missing from a code page
+const FALLBACKS: Record<string, string> = {
+  '‘': "'",
+  '’': "'",
+  '‚': ',',
+  '“': '"',
+  '”': '"',
+  '„': '"',
+  '«': '"',
+  '»': '"',
+  '–': '-',
+  '—': '-',
+  '…': '...',
+  '•': '*',
+  '€': 'EUR',
+  'œ': 'oe',
+  'Œ': 'OE',
+  'æ': 'ae',
+  'Æ': 'AE',
+  'ß': 'ss',
+  '\u2009': ' ',
+  '\u202f': ' ',
+};
+
+/**
+ * Encode text in the given code page. Characters the page lacks are
+ * transliterated (accents dropped, typographic quotes simplified) and
+ * anything left over prints as '?'.
+ */
+export function encodeText(text: string, codePage: CodePage): number[] {
+  const table = ENCODE_TABLES[codePage];
+  const bytes: number[] = [];
+  for (const char of text) {
+    const code = char.charCodeAt(0);
+    if (code < 0x80) {
+      bytes.push(code);
+    } else if (table.has(char)) {
+      bytes.push(table.get(char)!);
+    } else if (FALLBACKS[char] !== undefined) {
+      bytes.push(...encodeText(FALLBACKS[char], codePage));
+    } else {
+      const stripped = char.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+      bytes.push(...(stripped && stripped !== char ? encodeText(stripped, codePage) : [0x3f]));
+    }
+  }
+  return bytes;
+}
+
+export class EscPosBuilder {
+  private blocks: Block[] = [];
+  readonly width: number;
+  readonly codePage: CodePage;
+
+  /**
+   * @param width characters per line in normal size (32 on 58mm, 48 on 80mm paper)
+   */
+  constructor(width = 48, codePage: CodePage = 'cp850') {
+    this.width = width;
+    this.codePage = codePage;
+  }
+
+  /**
+   * Characters that fit on a line for the given style
+   */
+  columns(style: TextStyle = {}): number {
+    return style.doubleWidth ? Math.floor(this.width / 2) : this.width;
+  }
+
+  /**
+   * Add a line of text; long lines are left to the printer to wrap
+   */
+  line(text = '', style: TextStyle = {}): this {
+    this.blocks.push({ kind: 'text', text, style });
+    return this;
+  }
+
+  center(text: string, style: TextStyle = {}): this {
+    return this.line(text, { ...style, align: 'center' });
+  }
+
+  /**
+   * Label on the left, value flush right on the same line
+   */
+  row(label: string, value: string, style: TextStyle = {}): this {
+    const columns = this.columns(style);
+    const gap = Math.max(1, columns - label.length - value.length);
+    return this.line(`${label}${' '.repeat(gap)}${value}`, { ...style, align: 'left' });
+  }
+
+  /**
+   * Full-width rule made of `char`
+   */
+  separator(char = '-'): this {
+    return this.line(char.repeat(this.width));
+  }
+
+  feed(lines = 1): this {
+    this.blocks.push({ kind: 'feed', lines });
+    return this;
+  }
+
+  cut(): this {
+    this.blocks.push({ kind: 'cut' });
+    return this;
+  }
+
+  /**
+   * Centered QR code (model 2, error correction M) printed natively by the
+   * printer; `size` is the module size in dots (1-16)
+   */
+  qr(data: string, size = 6): this {
+    this.blocks.push({ kind: 'qr', data, size: Math.min(16, Math.max(1, size)) });
+    return this;
+  }
+
+  /**
+   * Centered 1-bit raster image (logo)
+   */
+  image(image: RasterImage): this {
+    this.blocks.push({ kind: 'image', image });
+    return this;
+  }
+
+  /**
+   * Centered CODE128 barcode with the text printed underneath
+   */
+  barcode(data: string): this {
+    this.blocks.push({ kind: 'barcode', data });
+    return this;
+  }
+
+  /**
+   * Printer bytes: init, code page selection, then each styled line
+   */
+  toBytes(): Uint8Array {
+    const bytes: number[] = [ESC, 0x40, ESC, 0x74, CODE_PAGE_TABLE[this.codePage]];
+
+    for (const block of this.blocks) {
+      if (block.kind === 'feed') {
+        bytes.push(ESC, 0x64, Math.min(255, block.lines));
+      } else if (block.kind === 'cut') {
+        // Feed past the cutter, then partial cut
+        bytes.push(GS, 0x56, 0x42, 0x03);
+      } else if (block.kind === 'qr') {
+        const data = encodeText(block.data, this.codePage);
+        const length = data.length + 3;
+        bytes.push(ESC, 0x61, 1);
+        bytes.push(GS, 0x28, 0x6b, 4, 0, 0x31, 0x41, 0x32, 0x00);
+        bytes.push(GS, 0x28, 0x6b, 3, 0, 0x31, 0x43, block.size);
+        bytes.push(GS, 0x28, 0x6b, 3, 0, 0x31, 0x45, 0x31);
+        bytes.push(GS, 0x28, 0x6b, length & 0xff, length >> 8, 0x31, 0x50, 0x30, ...data);
+        bytes.push(GS, 0x28, 0x6b, 3, 0, 0x31, 0x51, 0x30, LF);
+      } else if (block.kind === 'image') {
+        // GS v 0: print raster bit image, normal scale
+        const { widthBytes, height, data } = block.image;
+        bytes.push(ESC, 0x61, 1, GS, 0x76, 0x30, 0);
+        bytes.push(widthBytes & 0xff, widthBytes >> 8, height & 0xff, height >> 8);
+        for (const byte of data) bytes.push(byte);
+      } else if (block.kind === 'barcode') {
+        // `{B` selects code set B (printable ASCII)
+        const data = encodeText(`{B${block.data}`, this.codePage);
+        bytes.push(ESC, 0x61, 1, GS, 0x48, 2, GS, 0x68, 60, GS, 0x77, 2);
+        bytes.push(GS, 0x6b, 73, data.length, ...data, LF);
+      } else {
+        const { align = 'left', bold = false, doubleWidth = false, doubleHeight = false } = block.style;
+        bytes.push(ESC, 0x61, align === 'center' ? 1 : align === 'right' ? 2 : 0);
+        bytes.push(ESC, 0x45, bold ? 1 : 0);
+        bytes.push(GS, 0x21, (doubleWidth ? 0x10 : 0) | (doubleHeight ? 0x01 : 0));
+        bytes.push(...encodeText(block.text, this.codePage), LF);
+      }
+    }
+
+    // Leave the printer in its default state for the next job
+    bytes.push(ESC, 0x61, 0, ESC, 0x45, 0, GS, 0x21, 0);
+    return Uint8Array.from(bytes);
+  }
+
+  /**
+   * Plain-text rendering at the printer width, for previews and logs
+   */
+  toText(): string {
+    const lines: string[] = [];
+    for (const block of this.blocks) {
+      if (block.kind === 'feed') {
+        for (let i = 0; i < block.lines; i++) lines.push('');
+      } else if (block.kind === 'cut') {
+        lines.push('~'.repeat(this.width));
+      } else if (block.kind === 'qr') {
+        lines.push(this.alignText('[QR]', 'center'));
+      } else if (block.kind === 'image') {
+        lines.push(this.alignText('[LOGO]', 'center'));
+      } else if (block.kind === 'barcode') {
+        lines.push(this.alignText(`||| ${block.data} |||`, 'center'));
+      } else {
+        // Double-width glyphs take two columns: spread them out to match
+        const text = block.style.doubleWidth ? Array.from(block.text).join(' ') : block.text;
+        lines.push(this.alignText(text, block.style.align));
+      }
+    }
+    return lines.join('\n');
+  }
+
+  private alignText(text: string, align: Align = 'left'): string {
+    const pad = Math.max(0, this.width - text.length);
+    const left = align === 'center' ? Math.floor(pad / 2) : align === 'right' ? pad : 0;
+    return ' '.repeat(left) + text;
+  }
+}
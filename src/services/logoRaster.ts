@@ -0,0 +1,56 @@
+// Conversion of a decoded image to the 1-bit raster thermal printers expect.
+
+// Decoded image, 4 bytes per pixel in RGBA order
+export interface Bitmap {
+  width: number;
+  height: number;
+  data: Uint8Array;
+}
+
+// 1 bit per dot, most significant bit first, rows padded to whole bytes
+export interface RasterImage {
+  widthBytes: number;
+  height: number;
+  data: Uint8Array;
+}
+
+// Decode image bytes (PNG, JPEG...), scaled down to at most `maxWidth` pixels
+export type ImageDecoder = (bytes: Uint8Array, maxWidth: number) => Bitmap | null;
+
+// Print head dots for one character column in the standard 12x24 font
+export const DOTS_PER_CHAR = 12;
+
+/**
+ * Floyd-Steinberg dithering to black and white. Transparent pixels count as
+ * paper so logos exported with an alpha channel print cleanly.
+ */
+export function ditherBitmap(bitmap: Bitmap, threshold = 128): RasterImage {
+  const { width, height, data } = bitmap;
+  const widthBytes = Math.ceil(width / 8);
+  const gray = new Float32Array(width * height);
+
+  for (let i = 0; i < width * height; i++) {
+    const alpha = data[i * 4 + 3] / 255;
+    const luminance = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+    gray[i] = luminance * alpha + 255 * (1 - alpha);
+  }
+
+  const raster = new Uint8Array(widthBytes * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      const black = gray[i] < threshold;
+      const error = gray[i] - (black ? 0 : 255);
+      if (black) raster[y * widthBytes + (x >> 3)] |= 0x80 >> (x & 7);
+
+      if (x + 1 < width) gray[i + 1] += (error * 7) / 16;
+      if (y + 1 < height) {
+        if (x > 0) gray[i + width - 1] += (error * 3) / 16;
+        gray[i + width] += (error * 5) / 16;
+        if (x + 1 < width) gray[i + width + 1] += error / 16;
+      }
+    }
+  }
+
+  return { widthBytes, height, data: raster };
+}
@@ -0,0 +1,365 @@
+// Offline journal for management-desktop: actions taken while the backend is
+// unreachable are kept locally and replayed in order once it answers again
+import { addVehicleToQueue, createBookingByQueueEntry, getStaffInfo, newIdempotencyKey } from '../api/client';
+import { ApiError } from '../api/errors';
+import type { AuthorizedStation, QueueEntry, Vehicle } from '../api/types';
+
+export type JournalAction =
+  | {
+      type: 'queue_add';
+      destinationId: string;
+      destinationName: string;
+      vehicleId: string;
+      licensePlate: string;
+      // Temporary id used by the screens until the server assigns one
+      localEntryId: string;
+      // A day pass ticket was sold and printed while offline
+      dayPassSold: boolean;
+    }
+  | {
+      type: 'booking';
+      destinationId: string;
+      destinationName: string;
+      queueEntryId: string;
+      licensePlate: string;
+      seats: number;
+      totalAmount: number;
+    };
+
+export type JournalStatus = 'pending' | 'replayed' | 'rejected';
+
+export interface JournalEntry {
+  id: string;
+  action: JournalAction;
+  recordedAt: string;
+  staffId: string;
+  staffName: string;
+  status: JournalStatus;
+  // Idempotency-Key sent on replay; reuses the key of the request that failed
+  // when it may already have reached the server
+  idempotencyKey: string;
+  replayedAt?: string;
+  // Queue entry id returned by the server for a replayed queue_add
+  serverEntryId?: string;
+  // Why the server rejected the entry
+  error?: string;
+  // Accepted, but the outcome differs from what was done offline
+  warning?: string;
+  // The operator acknowledged the conflict
+  resolvedAt?: string;
+  // Staff member who agreed to send, under their session, an entry someone
+  // else recorded
+  approvedBy?: string;
+}
+
+export interface ReplayResult {
+  replayed: number;
+  rejected: number;
+  // Recorded by another staff member: kept until someone approves them
+  held: number;
+  // Replay stopped early because the services are still unreachable
+  interrupted: boolean;
+}
+
+interface OfflineCache {
+  queues: Record<string, QueueEntry[]>;
+  vehicles: Record<string, Vehicle>;
+  authorizedStations: Record<string, AuthorizedStation[]>;
+}
+
+// Keep this many settled entries around for the report
+const MAX_SETTLED_ENTRIES = 200;
+const LOCAL_ENTRY_PREFIX = 'offline-';
+
+// The request never reached a working backend: keep the action for later
+export function isOfflineError(error: unknown): boolean {
+  return error instanceof ApiError && [0, 502, 503, 504].includes(error.status);
+}
+
+// No answer came back, but the request may have been processed: selling the
+// same seats offline could book them twice
+export function isUncertainOutcome(error: unknown): boolean {
+  return error instanceof ApiError && (error.code === 'TIMEOUT' || error.status === 504);
+}
+
+// Replaying must wait for a renewed session rather than reject everything
+function isRetryLater(error: unknown): boolean {
+  return isOfflineError(error) || (error instanceof ApiError && error.isAuthError);
+}
+
+export function isLocalEntryId(entryId: string): boolean {
+  return entryId.startsWith(LOCAL_ENTRY_PREFIX);
+}
+
+class OfflineJournalService {
+  private readonly STORAGE_KEY = 'management-desktop-offline-journal';
+  private readonly CACHE_KEY = 'management-desktop-offline-cache';
+  private listeners = new Set<() => void>();
+  private replaying: Promise<ReplayResult> | null = null;
+
+  getEntries(): JournalEntry[] {
+    try {
+      const stored = localStorage.getItem(this.STORAGE_KEY);
+      return stored ? JSON.parse(stored) : [];
+    } catch (error) {
+      console.error('Failed to load offline journal from localStorage:', error);
+      return [];
+    }
+  }
+
+  getPending(): JournalEntry[] {
+    return this.getEntries().filter((e) => e.status === 'pending');
+  }
+
+  /**
+   * Pending entries recorded by someone other than the staff member signed
+   * in. Replaying them would file the sales under the wrong session, so they
+   * wait for the same person to log in or for an explicit approval
+   */
+  getHeld(): JournalEntry[] {
+    return this.getPending().filter((e) => this.isHeld(e));
+  }
+
+  approve(id: string): void {
+    const staffId = getStaffInfo()?.staffId;
+    if (!staffId) return;
+    this.saveEntries(this.getEntries().map((e) => (e.id === id ? { ...e, approvedBy: staffId } : e)));
+  }
+
+  // Entries the operator still has to look at
+  getConflicts(): JournalEntry[] {
+    return this.getEntries().filter((e) => !e.resolvedAt && (e.status === 'rejected' || !!e.warning));
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Record an action done offline and reflect it in the cached queues
+  record(action: JournalAction, idempotencyKey = newIdempotencyKey()): JournalEntry {
+    const staffInfo = getStaffInfo();
+    const entry: JournalEntry = {
+      id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      action,
+      recordedAt: new Date().toISOString(),
+      staffId: staffInfo?.staffId || '',
+      staffName: staffInfo ? `${staffInfo.firstName} ${staffInfo.lastName}` : '',
+      status: 'pending',
+      idempotencyKey,
+    };
+    this.saveEntries([...this.getEntries(), entry]);
+    this.applyToCache(action);
+    return entry;
+  }
+
+  newLocalEntryId(): string {
+    return `${LOCAL_ENTRY_PREFIX}${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+  }
+
+  resolve(id: string): void {
+    this.saveEntries(this.getEntries().map((e) => (e.id === id ? { ...e, resolvedAt: new Date().toISOString() } : e)));
+  }
+
+  // Replay pending entries in the order they were recorded. Concurrent calls
+  // share the same run so nothing is sent twice.
+  replay(): Promise<ReplayResult> {
+    if (!this.replaying) {
+      this.replaying = this.runReplay().finally(() => {
+        this.replaying = null;
+      });
+    }
+    return this.replaying;
+  }
+
+  // Reference data kept for offline use
+  rememberQueue(destinationId: string, entries: QueueEntry[]): void {
+    const cache = this.getCache();
+    cache.queues[destinationId] = entries;
+    this.saveCache(cache);
+  }
+
+  getCachedQueue(destinationId: string): QueueEntry[] | null {
+    return this.getCache().queues[destinationId] || null;
+  }
+
+  rememberVehicles(vehicles: Vehicle[]): void {
+    const cache = this.getCache();
+    for (const vehicle of vehicles) cache.vehicles[vehicle.id] = vehicle;
+    this.saveCache(cache);
+  }
+
+  searchCachedVehicles(query: string): Vehicle[] {
+    const needle = query.trim().toLowerCase();
+    return Object.values(this.getCache().vehicles).filter((v) => v.licensePlate.toLowerCase().includes(needle));
+  }
+
+  rememberAuthorizedStations(vehicleId: string, stations: AuthorizedStation[]): void {
+    const cache = this.getCache();
+    cache.authorizedStations[vehicleId] = stations;
+    this.saveCache(cache);
+  }
+
+  getCachedAuthorizedStations(vehicleId: string): AuthorizedStation[] | null {
+    return this.getCache().authorizedStations[vehicleId] || null;
+  }
+
+  private async runReplay(): Promise<ReplayResult> {
+    const result: ReplayResult = { replayed: 0, rejected: 0, held: 0, interrupted: false };
+
+    for (const pending of this.getPending()) {
+      // Re-read each time: a queue_add replayed earlier in this run maps local ids
+      const entries = this.getEntries();
+      if (this.isHeld(pending) || this.waitsForHeldEntry(pending, entries)) {
+        result.held++;
+        continue;
+      }
+      try {
+        const settled = await this.replayEntry(pending, entries);
+        this.updateEntry({ ...settled, replayedAt: new Date().toISOString() });
+        if (settled.status === 'rejected') result.rejected++;
+        else result.replayed++;
+      } catch (error) {
+        if (isRetryLater(error)) {
+          result.interrupted = true;
+          break;
+        }
+        this.updateEntry({
+          ...pending,
+          status: 'rejected',
+          error: error instanceof Error ? error.message : String(error),
+          replayedAt: new Date().toISOString(),
+        });
+        result.rejected++;
+      }
+    }
+
+    this.pruneSettled();
+    return result;
+  }
+
+  private async replayEntry(entry: JournalEntry, entries: JournalEntry[]): Promise<JournalEntry> {
+    const action = entry.action;
+    // Entries journaled before keys were stored fall back to their own id
+    const options = { idempotencyKey: entry.idempotencyKey || entry.id };
+
+    if (action.type === 'queue_add') {
+      const response = await addVehicleToQueue(action.destinationId, action.vehicleId, action.destinationName, options);
+      const created = response.data.dayPassStatus === 'created';
+      let warning: string | undefined;
+      if (action.dayPassSold && !created) {
+        warning = `Pass journalier déjà valide sur le serveur: 2.000 TND encaissés en trop pour ${action.licensePlate}`;
+      } else if (!action.dayPassSold && created) {
+        warning = `Pass journalier créé sur le serveur mais non encaissé hors ligne pour ${action.licensePlate}`;
+      }
+      return { ...entry, status: 'replayed', serverEntryId: response.data.queueEntry.id, warning };
+    }
+
+    let queueEntryId = action.queueEntryId;
+    if (isLocalEntryId(queueEntryId)) {
+      const origin = entries.find((e) => e.action.type === 'queue_add' && e.action.localEntryId === queueEntryId);
+      if (!origin?.serverEntryId) {
+        return {
+          ...entry,
+          status: 'rejected',
+          error: `Véhicule ${action.licensePlate} absent de la file sur le serveur`,
+        };
+      }
+      queueEntryId = origin.serverEntryId;
+    }
+    await createBookingByQueueEntry({ queueEntryId, seats: action.seats }, options);
+    return { ...entry, status: 'replayed' };
+  }
+
+  private isHeld(entry: JournalEntry): boolean {
+    const staffId = getStaffInfo()?.staffId;
+    return !staffId || (entry.staffId !== staffId && entry.approvedBy !== staffId);
+  }
+
+  // A booking on a vehicle added offline needs that addition on the server first
+  private waitsForHeldEntry(entry: JournalEntry, entries: JournalEntry[]): boolean {
+    const action = entry.action;
+    if (action.type !== 'booking' || !isLocalEntryId(action.queueEntryId)) return false;
+    const origin = entries.find((e) => e.action.type === 'queue_add' && e.action.localEntryId === action.queueEntryId);
+    return origin?.status === 'pending';
+  }
+
+  private applyToCache(action: JournalAction): void {
+    const cache = this.getCache();
+    const queue = cache.queues[action.destinationId] || [];
+
+    if (action.type === 'queue_add') {
+      const vehicle = cache.vehicles[action.vehicleId];
+      const capacity = vehicle?.capacity || 0;
+      cache.queues[action.destinationId] = [
+        ...queue,
+        {
+          id: action.localEntryId,
+          vehicleId: action.vehicleId,
+          licensePlate: action.licensePlate,
+          availableSeats: capacity,
+          totalSeats: capacity,
+          queuePosition: queue.length + 1,
+          bookedSeats: 0,
+          status: 'WAITING',
+          hasDayPass: action.dayPassSold,
+          dayPassStatus: action.dayPassSold ? 'recent_pass' : 'no_pass',
+          destinationId: action.destinationId,
+          destinationName: action.destinationName,
+        },
+      ];
+    } else {
+      cache.queues[action.destinationId] = queue.map((e) =>
+        e.id === action.queueEntryId
+          ? { ...e, availableSeats: e.availableSeats - action.seats, bookedSeats: e.bookedSeats + action.seats }
+          : e
+      );
+    }
+    this.saveCache(cache);
+  }
+
+  private updateEntry(entry: JournalEntry): void {
+    this.saveEntries(this.getEntries().map((e) => (e.id === entry.id ? entry : e)));
+  }
+
+  // Drop the oldest acknowledged or clean entries; pending ones are never dropped
+  private pruneSettled(): void {
+    const entries = this.getEntries();
+    const prunable = entries.filter((e) => e.status !== 'pending' && (e.resolvedAt || (e.status === 'replayed' && !e.warning)));
+    if (prunable.length <= MAX_SETTLED_ENTRIES) return;
+    const dropped = new Set(prunable.slice(0, prunable.length - MAX_SETTLED_ENTRIES).map((e) => e.id));
+    this.saveEntries(entries.filter((e) => !dropped.has(e.id)));
+  }
+
+  private saveEntries(entries: JournalEntry[]): void {
+    try {
+      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(entries));
+    } catch (error) {
+      console.error('Failed to save offline journal to localStorage:', error);
+    }
+    this.listeners.forEach((listener) => listener());
+  }
+
+  private getCache(): OfflineCache {
+    try {
+      const stored = localStorage.getItem(this.CACHE_KEY);
+      if (stored) return JSON.parse(stored);
+    } catch (error) {
+      console.error('Failed to load offline cache from localStorage:', error);
+    }
+    return { queues: {}, vehicles: {}, authorizedStations: {} };
+  }
+
+  private saveCache(cache: OfflineCache): void {
+    try {
+      localStorage.setItem(this.CACHE_KEY, JSON.stringify(cache));
+    } catch (error) {
+      console.error('Failed to save offline cache to localStorage:', error);
+    }
+  }
+}
+
+// Create singleton instance
+export const offlineJournalService = new OfflineJournalService();
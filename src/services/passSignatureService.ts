@@ -0,0 +1,150 @@
+// Signed codes printed on day passes and exit passes for management-desktop.
+// The QR code carries the pass id, plate, date and an HMAC so a gate agent
+// can tell a genuine pass from a forged one; the short control code is the
+// same idea sized for typing or a 1D barcode.
+
+export type PassType = 'daypass' | 'exitpass';
+
+export interface PassInfo {
+  type: PassType;
+  passId: string;
+  licensePlate: string;
+  // Issue date, YYYY-MM-DD in local time
+  date: string;
+}
+
+export interface SignedPass extends PassInfo {
+  signature: string;
+}
+
+const QR_PREFIX = 'WASLA1';
+const TYPE_CODES: Record<PassType, string> = { daypass: 'D', exitpass: 'E' };
+// Hex characters kept from the HMAC: enough against guessing, small enough for the QR
+const SIGNATURE_LENGTH = 16;
+const CONTROL_CODE_LENGTH = 8;
+
+// YYYY-MM-DD of a timestamp in the station's time zone
+export function passDate(value: string | Date = new Date()): string {
+  const d = new Date(value);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+}
+
+function normalizePlate(plate: string): string {
+  return plate.trim().toUpperCase().replace(/\s+/g, ' ');
+}
+
+function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer), (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+class PassSignatureService {
+  private readonly SETTINGS_SECTION = 'passSigning';
+  // Used when running outside Electron (vite dev server in a browser)
+  private readonly STORAGE_KEY = 'management-desktop-pass-signing';
+  private secret = '';
+
+  // Load the station key, creating one on first run
+  async load(): Promise<void> {
+    try {
+      const saved = await this.readSaved();
+      if (saved) {
+        this.secret = saved;
+        return;
+      }
+      await this.setSecret(this.generateSecret());
+    } catch (error) {
+      console.error('Failed to load pass signing key:', error);
+    }
+  }
+
+  getSecret(): string {
+    return this.secret;
+  }
+
+  // Every station checking the same passes must share this key
+  async setSecret(secret: string): Promise<void> {
+    const value = secret.trim();
+    if (value.length < 16) {
+      throw new Error('La clé doit contenir au moins 16 caractères');
+    }
+    if (window.electronAPI) {
+      const result = await window.electronAPI.saveSettings({ [this.SETTINGS_SECTION]: { secret: value } });
+      if (!result.success) {
+        throw new Error(result.error || "Échec de l'enregistrement de la clé");
+      }
+    } else {
+      localStorage.setItem(this.STORAGE_KEY, value);
+    }
+    this.secret = value;
+  }
+
+  generateSecret(): string {
+    return toHex(crypto.getRandomValues(new Uint8Array(16)).buffer);
+  }
+
+  // Text encoded in the QR code printed on the pass
+  async createQrPayload(pass: PassInfo): Promise<string> {
+    const signature = await this.sign(pass);
+    return [QR_PREFIX, TYPE_CODES[pass.type], pass.passId, normalizePlate(pass.licensePlate), pass.date, signature].join('|');
+  }
+
+  // Short code printed under the QR code, e.g. "D-3FA91C07"
+  async createControlCode(pass: Omit<PassInfo, 'passId'>): Promise<string> {
+    const mac = await this.hmac(`${TYPE_CODES[pass.type]}|${normalizePlate(pass.licensePlate)}|${pass.date}`);
+    return `${TYPE_CODES[pass.type]}-${mac.slice(0, CONTROL_CODE_LENGTH).toUpperCase()}`;
+  }
+
+  // Read a scanned QR payload; null when it is not one of our passes
+  parseQrPayload(payload: string): SignedPass | null {
+    const parts = payload.trim().split('|');
+    if (parts.length !== 6 || parts[0] !== QR_PREFIX) return null;
+    const [, typeCode, passId, licensePlate, date, signature] = parts;
+    const type = (Object.keys(TYPE_CODES) as PassType[]).find((t) => TYPE_CODES[t] === typeCode);
+    if (!type || !passId || !licensePlate || !/^\d{4}-\d{2}-\d{2}$/.test(date)) return null;
+    return { type, passId, licensePlate, date, signature };
+  }
+
+  // Read a typed control code; null when the format is wrong
+  parseControlCode(code: string): { type: PassType; code: string } | null {
+    const match = /^([DE])-?([0-9A-F]{8})$/i.exec(code.trim());
+    if (!match) return null;
+    const typeCode = match[1].toUpperCase();
+    const type = (Object.keys(TYPE_CODES) as PassType[]).find((t) => TYPE_CODES[t] === typeCode)!;
+    return { type, code: `${typeCode}-${match[2].toUpperCase()}` };
+  }
+
+  async verifyQr(pass: SignedPass): Promise<boolean> {
+    return (await this.sign(pass)) === pass.signature.toLowerCase();
+  }
+
+  async verifyControlCode(code: string, pass: Omit<PassInfo, 'passId'>): Promise<boolean> {
+    return (await this.createControlCode(pass)) === code;
+  }
+
+  private async sign(pass: PassInfo): Promise<string> {
+    const mac = await this.hmac(`${TYPE_CODES[pass.type]}|${pass.passId}|${normalizePlate(pass.licensePlate)}|${pass.date}`);
+    return mac.slice(0, SIGNATURE_LENGTH);
+  }
+
+  private async hmac(message: string): Promise<string> {
+    if (!this.secret) {
+      throw new Error('Clé de signature des passes non chargée');
+    }
+    const encoder = new TextEncoder();
+    const key = await crypto.subtle.importKey('raw', encoder.encode(this.secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+    return toHex(await crypto.subtle.sign('HMAC', key, encoder.encode(message)));
+  }
+
+  private async readSaved(): Promise<string | null> {
+    if (window.electronAPI) {
+      const settings = await window.electronAPI.getSettings();
+      const section = settings?.[this.SETTINGS_SECTION] as { secret?: string } | undefined;
+      return section?.secret || null;
+    }
+    return localStorage.getItem(this.STORAGE_KEY);
+  }
+}
+
+// Create singleton instance
+export const passSignatureService = new PassSignatureService();
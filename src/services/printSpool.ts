@@ -0,0 +1,158 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash, randomUUID } from 'crypto';
+
+export type PrintJobType = 'booking' | 'daypass' | 'exitpass' | 'cancellation' | 'statistics' | 'closeout';
+export type PrintJobStatus = 'queued' | 'printing' | 'done' | 'failed';
+
+export interface PrintJob {
+  id: string;
+  type: PrintJobType;
+  // One-line description for the print history
+  summary: string;
+  printer: { ip: string; port: number };
+  status: PrintJobStatus;
+  attempts: number;
+  createdAt: string;
+  updatedAt: string;
+  printedAt?: string;
+  // Last failure, kept on queued jobs waiting for the printer
+  error?: string;
+  // Job this one is a reprint of
+  reprintOf?: string;
+  // Request body as received, with large images moved to `assets`
+  payload: Record<string, unknown>;
+}
+
+interface SpoolFile {
+  jobs: PrintJob[];
+  // Data URL logos shared by many jobs, keyed by hash
+  assets: Record<string, string>;
+}
+
+// Settled jobs are kept this long for the history and reprints
+const RETENTION_MS = 3 * 24 * 60 * 60 * 1000;
+const ASSET_PREFIX = 'spool-asset:';
+const ASSET_FIELDS = ['companyLogo', 'brandLogo'];
+
+/**
+ * Print jobs persisted to disk so a ticket sold while the printer is offline
+ * survives until it can be printed, even across an app restart
+ */
+export class PrintSpool {
+  private file: string | null = null;
+  private data: SpoolFile = { jobs: [], assets: {} };
+
+  /**
+   * Load the spool file; jobs interrupted mid-print go back to the queue
+   */
+  open(file: string): void {
+    this.file = file;
+    try {
+      const parsed = JSON.parse(fs.readFileSync(file, 'utf-8'));
+      this.data = { jobs: Array.isArray(parsed?.jobs) ? parsed.jobs : [], assets: parsed?.assets || {} };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error('[Print Spool] Failed to read spool, starting empty:', error);
+      }
+      this.data = { jobs: [], assets: {} };
+    }
+    for (const job of this.data.jobs) {
+      if (job.status === 'printing') job.status = 'queued';
+    }
+    this.prune();
+    this.save();
+  }
+
+  list(): PrintJob[] {
+    return [...this.data.jobs];
+  }
+
+  get(id: string): PrintJob | undefined {
+    return this.data.jobs.find((job) => job.id === id);
+  }
+
+  add(job: Pick<PrintJob, 'type' | 'summary' | 'printer' | 'payload' | 'reprintOf'>): PrintJob {
+    const now = new Date().toISOString();
+    const created: PrintJob = {
+      ...job,
+      id: randomUUID(),
+      status: 'queued',
+      attempts: 0,
+      createdAt: now,
+      updatedAt: now,
+      payload: this.storeAssets(job.payload),
+    };
+    this.data.jobs.push(created);
+    this.prune();
+    this.save();
+    return created;
+  }
+
+  update(id: string, patch: Partial<Omit<PrintJob, 'id' | 'payload'>>): PrintJob {
+    const job = this.get(id);
+    if (!job) throw new Error(`Print job ${id} not found`);
+    Object.assign(job, patch, { updatedAt: new Date().toISOString() });
+    this.save();
+    return job;
+  }
+
+  /**
+   * Request body of a job with its images restored
+   */
+  payloadOf(job: PrintJob): Record<string, unknown> {
+    const payload = { ...job.payload };
+    for (const field of ASSET_FIELDS) {
+      const value = payload[field];
+      if (typeof value === 'string' && value.startsWith(ASSET_PREFIX)) {
+        payload[field] = this.data.assets[value.slice(ASSET_PREFIX.length)];
+      }
+    }
+    return payload;
+  }
+
+  private storeAssets(payload: Record<string, unknown>): Record<string, unknown> {
+    const stored = { ...payload };
+    for (const field of ASSET_FIELDS) {
+      const value = stored[field];
+      if (typeof value === 'string' && value.startsWith('data:')) {
+        const hash = createHash('sha1').update(value).digest('hex');
+        this.data.assets[hash] = value;
+        stored[field] = `${ASSET_PREFIX}${hash}`;
+      }
+    }
+    return stored;
+  }
+
+  /**
+   * Drop old settled jobs and the assets nobody references any more
+   */
+  private prune(): void {
+    const cutoff = Date.now() - RETENTION_MS;
+    this.data.jobs = this.data.jobs.filter(
+      (job) => job.status === 'queued' || job.status === 'printing' || new Date(job.createdAt).getTime() >= cutoff
+    );
+    const used = new Set<string>();
+    for (const job of this.data.jobs) {
+      for (const field of ASSET_FIELDS) {
+        const value = job.payload[field];
+        if (typeof value === 'string' && value.startsWith(ASSET_PREFIX)) used.add(value.slice(ASSET_PREFIX.length));
+      }
+    }
+    for (const hash of Object.keys(this.data.assets)) {
+      if (!used.has(hash)) delete this.data.assets[hash];
+    }
+  }
+
+  private save(): void {
+    if (!this.file) return;
+    try {
+      fs.mkdirSync(path.dirname(this.file), { recursive: true });
+      // Write then rename so a crash never leaves a truncated spool
+      fs.writeFileSync(`${this.file}.tmp`, JSON.stringify(this.data), 'utf-8');
+      fs.renameSync(`${this.file}.tmp`, this.file);
+    } catch (error) {
+      console.error('[Print Spool] Failed to save spool:', error);
+    }
+  }
+}
@@ -0,0 +1,71 @@
+import * as os from 'os';
+import { queryPrinterStatus, type PrinterStatus } from './printerStatus';
+
+export interface DiscoveredPrinter {
+  ip: string;
+  port: number;
+  // Answered the ESC/POS status queries; other hosts only accepted the connection
+  escpos: boolean;
+  status: PrinterStatus;
+}
+
+export interface DiscoveryOptions {
+  port?: number;
+  // Connection timeout per host; printers on the LAN answer in a few ms
+  timeout?: number;
+  // Hosts probed at the same time
+  concurrency?: number;
+}
+
+function toInt(ip: string): number {
+  return ip.split('.').reduce((acc, part) => acc * 256 + Number(part), 0);
+}
+
+function toIp(value: number): string {
+  return [24, 16, 8, 0].map((shift) => (value >>> shift) & 255).join('.');
+}
+
+/**
+ * Host addresses of the local IPv4 networks. Large networks are narrowed to
+ * the /24 around our own address so a scan stays a few seconds long.
+ */
+export function localSubnetHosts(): string[] {
+  const hosts = new Set<string>();
+  const own = new Set<string>();
+  for (const addresses of Object.values(os.networkInterfaces())) {
+    for (const address of addresses || []) {
+      if (address.family !== 'IPv4' || address.internal) continue;
+      own.add(address.address);
+      const prefix = Math.max(24, Number(address.cidr?.split('/')[1] ?? 24));
+      const mask = prefix === 32 ? 0xffffffff : (0xffffffff << (32 - prefix)) >>> 0;
+      const network = (toInt(address.address) & mask) >>> 0;
+      const broadcast = (network | (~mask >>> 0)) >>> 0;
+      for (let host = network + 1; host < broadcast; host++) {
+        hosts.add(toIp(host));
+      }
+    }
+  }
+  return [...hosts].filter((host) => !own.has(host));
+}
+
+/**
+ * Probe the local networks for hosts listening on the raw printing port and
+ * tell ESC/POS printers apart by their answer to DLE EOT
+ */
+export async function discoverPrinters(options: DiscoveryOptions = {}): Promise<DiscoveredPrinter[]> {
+  const { port = 9100, timeout = 400, concurrency = 64 } = options;
+  const pending = localSubnetHosts();
+  const found: DiscoveredPrinter[] = [];
+
+  const worker = async () => {
+    for (let ip = pending.shift(); ip; ip = pending.shift()) {
+      const status = await queryPrinterStatus(ip, port, timeout);
+      if (status.connected) {
+        found.push({ ip, port, escpos: status.statusSupported, status });
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: concurrency }, worker));
+
+  return found.sort((a, b) => Number(b.escpos) - Number(a.escpos) || toInt(a.ip) - toInt(b.ip));
+}
@@ -1,32 +1,177 @@
 // Printer IP configuration service for management-desktop
 import { API } from '../config';
+import type { DiscoveredPrinter } from './printerDiscovery';
 
 export interface PrinterIpConfig {
   ip: string;
   port: number;
 }
 
+// A printer of the station, e.g. one per counter plus the exit gate
+export interface NamedPrinter extends PrinterIpConfig {
+  id: string;
+  name: string;
+  // Characters per line: 48 on 80mm paper, 32 on 58mm
+  width: number;
+}
+
+export type PrintRoute = 'booking' | 'daypass' | 'exitpass' | 'cancellation' | 'statistics' | 'closeout';
+
+// Printer id per kind of print; missing entries use the main printer
+export type PrinterRouting = Partial<Record<PrintRoute, string>>;
+
+interface PrinterSetup {
+  printers: NamedPrinter[];
+  routing: PrinterRouting;
+}
+
+// Printer state read by the printer service (ESC/POS DLE EOT)
+export interface PrinterStatusReport {
+  id: string;
+  name: string;
+  connected: boolean;
+  // False for printers that do not answer status queries: only `connected` is known
+  statusSupported: boolean;
+  online: boolean;
+  coverOpen: boolean;
+  paperNearEnd: boolean;
+  paperEnd: boolean;
+  error: boolean;
+  checkedAt: string;
+}
+
+export const MAIN_PRINTER_ID = 'printer1';
+
 class PrinterIpConfigService {
   private readonly STORAGE_KEY = 'management-desktop-printer-ip';
+  private readonly SETUP_STORAGE_KEY = 'management-desktop-printers';
   private readonly DEFAULT_CONFIG: PrinterIpConfig = {
     ip: '192.168.192.12',
     port: 9100
   };
 
-  // Get printer IP configuration
+  // All printers of this desk; the main printer always exists
+  getPrinters(): NamedPrinter[] {
+    return this.getSetup().printers;
+  }
+
+  getRouting(): PrinterRouting {
+    return this.getSetup().routing;
+  }
+
+  // Printer that prints a kind of ticket on this desk
+  getPrinterFor(route: PrintRoute): NamedPrinter {
+    const { printers, routing } = this.getSetup();
+    return printers.find((p) => p.id === routing[route]) || printers[0];
+  }
+
+  // Replace the printers and routing of this desk
+  async savePrinters(printers: NamedPrinter[], routing: PrinterRouting): Promise<void> {
+    if (!printers.some((p) => p.id === MAIN_PRINTER_ID)) {
+      throw new Error("L'imprimante principale ne peut pas être supprimée");
+    }
+    for (const printer of printers) {
+      if (!printer.name.trim()) {
+        throw new Error("Le nom de l'imprimante est obligatoire");
+      }
+      if (!this.isValidIp(printer.ip)) {
+        throw new Error(`${printer.name}: adresse IP invalide`);
+      }
+      if (!this.isValidPort(printer.port)) {
+        throw new Error(`${printer.name}: port invalide`);
+      }
+    }
+    // Routes to a removed printer go back to the main printer
+    const kept = Object.fromEntries(
+      Object.entries(routing).filter(([, printerId]) => printers.some((p) => p.id === printerId))
+    );
+    this.saveSetup({ printers, routing: kept });
+    await this.syncToPrinterService();
+  }
+
+  // Push printers and routing to the printer service, which stores them and
+  // picks the printer of each print job
+  async syncToPrinterService(): Promise<void> {
+    const { printers, routing } = this.getSetup();
+    const current = await fetch(`${API.printer}/api/printer/config`);
+    if (!current.ok) {
+      throw new Error(`Failed to read printer configs (HTTP ${current.status})`);
+    }
+    const { printers: known = [] } = await current.json();
+
+    for (const printer of printers) {
+      const resp = await fetch(`${API.printer}/api/printer/config/${encodeURIComponent(printer.id)}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...printer,
+          timeout: 5000,
+          model: 'ESC/POS',
+          enabled: true,
+          isDefault: printer.id === MAIN_PRINTER_ID,
+        }),
+      });
+      if (!resp.ok) {
+        throw new Error(`Failed to save printer config (HTTP ${resp.status})`);
+      }
+    }
+    for (const { id } of known as Array<{ id: string }>) {
+      if (!printers.some((p) => p.id === id)) {
+        await fetch(`${API.printer}/api/printer/config/${encodeURIComponent(id)}`, { method: 'DELETE' });
+      }
+    }
+    const routingResp = await fetch(`${API.printer}/api/printer/routing`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(routing),
+    });
+    if (!routingResp.ok) {
+      throw new Error(`Failed to save printer routing (HTTP ${routingResp.status})`);
+    }
+  }
+
+  private getSetup(): PrinterSetup {
+    try {
+      const stored = localStorage.getItem(this.SETUP_STORAGE_KEY);
+      if (stored) {
+        const setup = JSON.parse(stored) as PrinterSetup;
+        if (Array.isArray(setup.printers) && setup.printers.some((p) => p.id === MAIN_PRINTER_ID)) {
+          return { printers: setup.printers, routing: setup.routing || {} };
+        }
+      }
+    } catch (error) {
+      console.error('Failed to load printers from localStorage:', error);
+    }
+    // First run with several printers: the single configured printer becomes the main one
+    const legacy = this.getLegacyConfig();
+    return {
+      printers: [{ id: MAIN_PRINTER_ID, name: 'Imprimante principale', ip: legacy.ip, port: legacy.port, width: 48 }],
+      routing: {},
+    };
+  }
+
+  private saveSetup(setup: PrinterSetup): void {
+    // The main printer stays first so it is the fallback everywhere
+    const printers = [...setup.printers].sort((a, b) => Number(b.id === MAIN_PRINTER_ID) - Number(a.id === MAIN_PRINTER_ID));
+    try {
+      localStorage.setItem(this.SETUP_STORAGE_KEY, JSON.stringify({ ...setup, printers }));
+    } catch (error) {
+      console.error('Failed to save printers to localStorage:', error);
+    }
+  }
+
+  // Get the main printer IP configuration
   getConfig(): PrinterIpConfig {
+    const main = this.getPrinters()[0];
+    return { ip: main.ip, port: main.port };
+  }
+
+  // Configuration saved before multiple printers existed
+  private getLegacyConfig(): PrinterIpConfig {
     try {
       const stored = localStorage.getItem(this.STORAGE_KEY);
       if (stored) {
-        const config = JSON.parse(stored);
-        // Migrate old IP if it's the wrong one
-        const oldIPs = ['192.168.192.168', '192.168.192.11'];
-        if (oldIPs.includes(config.ip)) {
-          console.log(`Migrating old printer IP from ${config.ip} to 192.168.192.12`);
-          this.saveConfig(this.DEFAULT_CONFIG);
-          return this.DEFAULT_CONFIG;
-        }
-        return config;
+        return JSON.parse(stored);
       }
     } catch (error) {
       console.error('Failed to load printer IP config from localStorage:', error);
@@ -40,13 +185,13 @@ class PrinterIpConfigService {
     return this.DEFAULT_CONFIG;
   }
 
-  // Save printer IP configuration
+  // Save the main printer IP configuration
   saveConfig(config: PrinterIpConfig): void {
-    try {
-      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(config));
-    } catch (error) {
-      console.error('Failed to save printer IP config to localStorage:', error);
-    }
+    const setup = this.getSetup();
+    this.saveSetup({
+      ...setup,
+      printers: setup.printers.map((p) => (p.id === MAIN_PRINTER_ID ? { ...p, ip: config.ip, port: config.port } : p)),
+    });
   }
 
   // Get printer IP
@@ -75,36 +220,14 @@ class PrinterIpConfigService {
     this.saveConfig(config);
   }
 
-  // Test printer connection
-  async testPrinterConnection(): Promise<{ connected: boolean; error?: string }> {
-    const config = this.getConfig();
-
+  // Test printer connection (the main printer by default)
+  async testPrinterConnection(printerId: string = MAIN_PRINTER_ID): Promise<{ connected: boolean; error?: string }> {
     try {
-      // Sync local printer IP/port to backend printer-service config
-      const backendConfig = {
-        id: 'printer1',
-        name: 'Local Thermal Printer',
-        ip: config.ip,
-        port: config.port,
-        width: 48,
-        timeout: 5000,
-        model: 'ESC/POS',
-        enabled: true,
-        isDefault: true,
-      };
-
-      const putResp = await fetch(`${API.printer}/api/printer/config/printer1`, {
-        method: 'PUT',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(backendConfig),
-      });
-      if (!putResp.ok) {
-        const msg = `Failed to save printer config (HTTP ${putResp.status})`;
-        return { connected: false, error: msg };
-      }
+      // Sync local printers to backend printer-service config
+      await this.syncToPrinterService();
 
       // Ask backend to test printer connection using raw TCP (no HTTP to 9100)
-      const testResp = await fetch(`${API.printer}/api/printer/test/printer1`, {
+      const testResp = await fetch(`${API.printer}/api/printer/test/${encodeURIComponent(printerId)}`, {
         method: 'POST',
       });
       if (!testResp.ok) {
@@ -121,6 +244,27 @@ class PrinterIpConfigService {
     }
   }
 
+  // Paper, cover and error state of a printer (the main printer by default)
+  async getPrinterStatus(printerId: string = MAIN_PRINTER_ID): Promise<PrinterStatusReport> {
+    const resp = await fetch(`${API.printer}/api/printer/status/${encodeURIComponent(printerId)}`);
+    if (!resp.ok) {
+      throw new Error(`Printer status failed (HTTP ${resp.status})`);
+    }
+    return resp.json();
+  }
+
+  // Scan the local network for printers listening on port 9100
+  async discoverPrinters(): Promise<DiscoveredPrinter[]> {
+    if (!window.electronAPI) {
+      throw new Error("La recherche d'imprimantes n'est disponible que dans l'application");
+    }
+    const result = await window.electronAPI.discoverPrinters();
+    if (!result.success) {
+      throw new Error(result.error || 'Échec de la recherche des imprimantes');
+    }
+    return result.printers || [];
+  }
+
   // Reset to default configuration
   resetToDefault(): void {
     this.saveConfig(this.DEFAULT_CONFIG);
@@ -0,0 +1,172 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { CodePage } from './escposBuilder';
+import type { PrintJobType } from './printSpool';
+
+export interface PrinterConfig {
+  id: string;
+  name: string;
+  ip: string;
+  port: number;
+  width: number;
+  timeout: number;
+  model: string;
+  // Character table selected on the printer (`ESC t`)
+  codePage: CodePage;
+  enabled: boolean;
+  isDefault?: boolean;
+}
+
+// Printer id for each kind of print; missing entries go to the default printer
+export type PrinterRouting = Partial<Record<PrintJobType, string>>;
+
+interface RegistryFile {
+  printers: PrinterConfig[];
+  routing: PrinterRouting;
+}
+
+export const DEFAULT_PRINTER_ID = 'printer1';
+
+const PRINTER_DEFAULTS: Omit<PrinterConfig, 'id' | 'name'> = {
+  ip: 'localhost', // Virtual printer on localhost
+  port: 9100,
+  width: 48,
+  timeout: 5000,
+  model: 'ESC/POS',
+  codePage: 'cp850',
+  enabled: true,
+};
+
+/**
+ * Named printers of the station and which one prints each kind of ticket,
+ * kept on disk so queued jobs and reprints find their printer after a restart
+ */
+export class PrinterRegistry {
+  private file: string | null = null;
+  private data: RegistryFile = {
+    printers: [{ ...PRINTER_DEFAULTS, id: DEFAULT_PRINTER_ID, name: 'Local Printer', isDefault: true }],
+    routing: {},
+  };
+
+  open(file: string): void {
+    this.file = file;
+    try {
+      const parsed = JSON.parse(fs.readFileSync(file, 'utf-8'));
+      if (Array.isArray(parsed?.printers) && parsed.printers.length > 0) {
+        this.data = {
+          printers: parsed.printers.map((printer: PrinterConfig) => ({ ...PRINTER_DEFAULTS, ...printer })),
+          routing: parsed.routing || {},
+        };
+        this.ensureDefault();
+      }
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error('[Printer Registry] Failed to read printers, using defaults:', error);
+      }
+    }
+  }
+
+  list(): PrinterConfig[] {
+    return this.data.printers.map((printer) => ({ ...printer }));
+  }
+
+  get(id: string): PrinterConfig | undefined {
+    const printer = this.data.printers.find((p) => p.id === id);
+    return printer ? { ...printer } : undefined;
+  }
+
+  getDefault(): PrinterConfig {
+    return { ...(this.data.printers.find((p) => p.isDefault) || this.data.printers[0]) };
+  }
+
+  getRouting(): PrinterRouting {
+    return { ...this.data.routing };
+  }
+
+  /**
+   * Printer for a kind of print: the routed one when it exists and is
+   * enabled, otherwise the default printer
+   */
+  forJob(type: PrintJobType): PrinterConfig {
+    const routed = this.data.routing[type];
+    const printer = routed ? this.data.printers.find((p) => p.id === routed) : undefined;
+    return printer && printer.enabled ? { ...printer } : this.getDefault();
+  }
+
+  /**
+   * Add or replace a printer
+   */
+  upsert(id: string, config: Partial<PrinterConfig>): PrinterConfig {
+    if (!config.ip || typeof config.ip !== 'string') {
+      throw new Error('Printer ip is required');
+    }
+    const port = Number(config.port ?? PRINTER_DEFAULTS.port);
+    if (!Number.isInteger(port) || port <= 0 || port > 65535) {
+      throw new Error(`Invalid printer port: ${config.port}`);
+    }
+
+    const existing = this.data.printers.find((p) => p.id === id);
+    const saved: PrinterConfig = {
+      ...PRINTER_DEFAULTS,
+      ...existing,
+      ...config,
+      id,
+      name: config.name || existing?.name || id,
+      port,
+    };
+    if (saved.isDefault) {
+      for (const printer of this.data.printers) printer.isDefault = false;
+    }
+    this.data.printers = existing
+      ? this.data.printers.map((p) => (p.id === id ? saved : p))
+      : [...this.data.printers, saved];
+    this.ensureDefault();
+    this.save();
+    return { ...saved };
+  }
+
+  /**
+   * Remove a printer; its routes fall back to the default printer
+   */
+  remove(id: string): boolean {
+    if (!this.data.printers.some((p) => p.id === id)) return false;
+    if (this.data.printers.length === 1) {
+      throw new Error('Cannot remove the last printer');
+    }
+    this.data.printers = this.data.printers.filter((p) => p.id !== id);
+    for (const [type, printerId] of Object.entries(this.data.routing)) {
+      if (printerId === id) delete this.data.routing[type as PrintJobType];
+    }
+    this.ensureDefault();
+    this.save();
+    return true;
+  }
+
+  setRouting(routing: PrinterRouting): PrinterRouting {
+    for (const [type, printerId] of Object.entries(routing)) {
+      if (printerId && !this.data.printers.some((p) => p.id === printerId)) {
+        throw new Error(`Unknown printer for ${type}: ${printerId}`);
+      }
+    }
+    this.data.routing = Object.fromEntries(Object.entries(routing).filter(([, printerId]) => !!printerId));
+    this.save();
+    return this.getRouting();
+  }
+
+  private ensureDefault(): void {
+    if (!this.data.printers.some((p) => p.isDefault)) {
+      this.data.printers[0].isDefault = true;
+    }
+  }
+
+  private save(): void {
+    if (!this.file) return;
+    try {
+      fs.mkdirSync(path.dirname(this.file), { recursive: true });
+      fs.writeFileSync(`${this.file}.tmp`, JSON.stringify(this.data, null, 2), 'utf-8');
+      fs.renameSync(`${this.file}.tmp`, this.file);
+    } catch (error) {
+      console.error('[Printer Registry] Failed to save printers:', error);
+    }
+  }
+}
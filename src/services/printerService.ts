@@ -1,5 +1,9 @@
 import { API } from '../config';
 import { printerIpConfigService, PrinterIpConfig } from './printerIpConfigService';
+import { passDate, passSignatureService, PassType } from './passSignatureService';
+import { ticketLogoService } from './ticketLogoService';
+import { ticketTemplateService } from './ticketTemplateService';
+import type { TicketTemplateType } from './ticketTemplates';
 
 // Printer configuration interface
 export interface PrinterConfig {
@@ -39,6 +43,15 @@ export interface TicketData {
   // Staff information
   staffFirstName?: string;
   staffLastName?: string;
+  // Booking reference (cancellation receipts)
+  bookingId?: string;
+  // Day pass id, or the trip id for an exit pass, signed into the QR code
+  passId?: string;
+  // Filled in by the service before printing a pass
+  qrCode?: string;
+  controlCode?: string;
+  // Ticket layout (set by the service)
+  template?: string;
 }
 
 // Statistics report data interface
@@ -57,100 +70,199 @@ export interface StatisticsReportData {
     dayPassIncome: number;
     income: number;
   }>;
+  // Ticket sales per destination, for periods the trips are known for
+  destinationData?: Array<{
+    name: string;
+    trips: number;
+    seats: number;
+    income: number;
+  }>;
+  // Breakdowns the period cannot be split by, stated under the totals
+  notes?: string[];
   createdBy?: string;
   createdAt?: string;
+  // Logo printed above the report (set by the service)
+  companyLogo?: string;
+}
+
+// Z-report of a cash drawer close-out
+export interface CloseoutReportData {
+  staffName: string;
+  shiftStart: string;
+  closedAt: string;
+  seats: number;
+  seatAmount: number;
+  stationFees: number;
+  dayPasses: number;
+  dayPassAmount: number;
+  refundedSeats: number;
+  refundAmount: number;
+  expected: number;
+  counted: number;
+  variance: number;
+  // Counted notes and coins, largest first
+  denominations: Array<{ value: number; count: number }>;
+  note?: string;
+  // Logo printed above the report (set by the service)
+  companyLogo?: string;
+}
+
+// A print job summary from the printer service history
+export interface PrintJobSummary {
+  id: string;
+  type: 'booking' | 'daypass' | 'exitpass' | 'cancellation' | 'statistics' | 'closeout';
+  summary: string;
+  printer: string;
+  status: 'queued' | 'printing' | 'done' | 'failed';
+  attempts: number;
+  createdAt: string;
+  updatedAt: string;
+  printedAt?: string;
+  error?: string;
+  reprintOf?: string;
+}
+
+// The printer did not answer: the job waits in the spool and prints on
+// reconnection, so the caller must not print it again
+export class PrintQueuedError extends Error {
+  constructor(public job?: PrintJobSummary) {
+    super('Imprimante hors ligne: ticket mis en attente, il sera imprimé à la reconnexion');
+    this.name = 'PrintQueuedError';
+  }
 }
 
 // Printer service class
 export class PrinterService {
   private baseUrl: string;
   private defaultBrandName: string = 'STE';
-  private defaultBrandLogoPath: string = '/icons/ste_260.png';
+  private printersSynced: Promise<void> | null = null;
 
   constructor(baseUrl: string) {
     this.baseUrl = baseUrl;
   }
 
+  // Point the service at another printer endpoint (station settings changed)
+  setBaseUrl(baseUrl: string): void {
+    this.baseUrl = baseUrl;
+  }
+
   // Get printer configuration from local storage
   async getPrinterConfig(): Promise<PrinterIpConfig> {
     return printerIpConfigService.getConfig();
   }
 
+  // The printer service picks the printer of each ticket from the routing
+  // table; push this desk's printers to it once before the first print
+  private ensurePrintersSynced(): Promise<void> {
+    if (!this.printersSynced) {
+      this.printersSynced = printerIpConfigService.syncToPrinterService().catch((error) => {
+        console.error('Failed to sync printers to the printer service:', error);
+        this.printersSynced = null;
+      });
+    }
+    return this.printersSynced;
+  }
+
   // Test printer connection using local configuration
   async testPrinterConnection(): Promise<{ connected: boolean; error?: string }> {
     return await printerIpConfigService.testPrinterConnection();
   }
 
+  // The logo comes from the station settings; with "no logo" the printer
+  // prints the company name as text
   private withBranding(data: TicketData): TicketData {
+    const logo = ticketLogoService.getLogoSource();
     return {
       ...data,
       brandName: data.brandName || this.defaultBrandName,
-      brandLogo: data.brandLogo || this.defaultBrandLogoPath,
+      brandLogo: data.brandLogo || logo,
       companyName: data.companyName || data.brandName || this.defaultBrandName,
-      companyLogo: data.companyLogo || data.brandLogo || this.defaultBrandLogoPath,
+      companyLogo: data.companyLogo || data.brandLogo || logo,
     };
   }
 
+  // Layout edited by the supervisor, so the printer matches the preview
+  private withTemplate(data: TicketData, type: TicketTemplateType): TicketData {
+    return { ...data, template: ticketTemplateService.getTemplate(type) };
+  }
+
   // Print booking ticket using local printer configuration
   async printBookingTicket(ticketData: TicketData): Promise<void> {
-    const printerConfig = await this.getPrinterConfig();
+    await this.ensurePrintersSynced();
     
     const response = await fetch(`${this.baseUrl}/api/printer/print/booking`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
       },
-      body: JSON.stringify({
-        ...this.withBranding(ticketData),
-        printerConfig: printerConfig
-      }),
+      body: JSON.stringify(this.withTemplate(this.withBranding(ticketData), 'booking')),
     });
-    if (!response.ok) {
-      throw new Error(`Failed to print booking ticket: ${response.statusText}`);
+    await this.checkPrintResponse(response, 'booking ticket');
+  }
+
+  // Attach the signed QR payload and control code to a pass; a pass that
+  // cannot be signed still prints, without them
+  private async withPassCodes(data: TicketData, type: PassType): Promise<TicketData> {
+    const pass = { type, licensePlate: data.licensePlate, date: passDate(data.createdAt) };
+    try {
+      return {
+        ...data,
+        qrCode: data.passId ? await passSignatureService.createQrPayload({ ...pass, passId: data.passId }) : undefined,
+        controlCode: await passSignatureService.createControlCode(pass),
+      };
+    } catch (error) {
+      console.error('Failed to sign pass:', error);
+      return data;
     }
   }
 
   // Print day pass ticket using local printer configuration
   async printDayPassTicket(ticketData: TicketData): Promise<void> {
-    const printerConfig = await this.getPrinterConfig();
+    await this.ensurePrintersSynced();
+    const signed = await this.withPassCodes(ticketData, 'daypass');
     
     const response = await fetch(`${this.baseUrl}/api/printer/print/daypass`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
       },
-      body: JSON.stringify({
-        ...this.withBranding(ticketData),
-        printerConfig: printerConfig
-      }),
+      body: JSON.stringify(this.withTemplate(this.withBranding(signed), 'daypass')),
     });
-    if (!response.ok) {
-      throw new Error(`Failed to print day pass ticket: ${response.statusText}`);
-    }
+    await this.checkPrintResponse(response, 'day pass ticket');
   }
 
   // Print exit pass ticket using local printer configuration
   async printExitPassTicket(ticketData: TicketData): Promise<void> {
-    const printerConfig = await this.getPrinterConfig();
+    await this.ensurePrintersSynced();
+    const signed = await this.withPassCodes(ticketData, 'exitpass');
     
     const response = await fetch(`${this.baseUrl}/api/printer/print/exitpass`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
       },
-      body: JSON.stringify({
-        ...this.withBranding(ticketData),
-        printerConfig: printerConfig
-      }),
+      body: JSON.stringify(this.withTemplate(this.withBranding(signed), 'exitpass')),
     });
-    if (!response.ok) {
-      throw new Error(`Failed to print exit pass ticket: ${response.statusText}`);
-    }
+    await this.checkPrintResponse(response, 'exit pass ticket');
+  }
+
+  // Print booking cancellation receipt using local printer configuration
+  async printCancellationTicket(ticketData: TicketData): Promise<void> {
+    await this.ensurePrintersSynced();
+    
+    const response = await fetch(`${this.baseUrl}/api/printer/print/cancellation`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(this.withTemplate(this.withBranding(ticketData), 'cancellation')),
+    });
+    await this.checkPrintResponse(response, 'cancellation ticket');
   }
 
   // Print statistics report using local printer configuration
   async printStatisticsReport(reportData: StatisticsReportData): Promise<void> {
-    const printerConfig = await this.getPrinterConfig();
+    await this.ensurePrintersSynced();
     
     const response = await fetch(`${this.baseUrl}/api/printer/print/statistics`, {
       method: 'POST',
@@ -159,11 +271,66 @@ export class PrinterService {
       },
       body: JSON.stringify({
         ...reportData,
-        printerConfig: printerConfig
+        companyLogo: reportData.companyLogo || ticketLogoService.getLogoSource(),
+      }),
+    });
+    await this.checkPrintResponse(response, 'statistics report');
+  }
+
+  // Print the Z-report of a cash drawer close-out
+  async printCloseoutReport(reportData: CloseoutReportData): Promise<void> {
+    await this.ensurePrintersSynced();
+
+    const response = await fetch(`${this.baseUrl}/api/printer/print/closeout`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        ...reportData,
+        companyLogo: reportData.companyLogo || ticketLogoService.getLogoSource(),
       }),
     });
+    await this.checkPrintResponse(response, 'close-out report');
+  }
+
+  // Today's print jobs, newest first
+  async listPrintJobs(): Promise<PrintJobSummary[]> {
+    const response = await fetch(`${this.baseUrl}/api/printer/jobs`);
+    if (!response.ok) {
+      throw new Error(`Failed to load print jobs: ${response.statusText}`);
+    }
+    const result = await response.json();
+    return result.jobs || [];
+  }
+
+  // Print a job again (as a duplicate once it came out) or retry it now
+  async reprintJob(id: string): Promise<void> {
+    const response = await fetch(`${this.baseUrl}/api/printer/jobs/${encodeURIComponent(id)}/reprint`, {
+      method: 'POST',
+    });
+    await this.checkPrintResponse(response, 'job');
+  }
+
+  // Drop a job still waiting for the printer
+  async cancelPrintJob(id: string): Promise<void> {
+    const response = await fetch(`${this.baseUrl}/api/printer/jobs/${encodeURIComponent(id)}/cancel`, {
+      method: 'POST',
+    });
+    if (!response.ok) {
+      throw new Error(`Failed to cancel print job: ${response.statusText}`);
+    }
+  }
+
+  // 202 means the printer service kept the job for later
+  private async checkPrintResponse(response: Response, what: string): Promise<void> {
+    if (response.status === 202) {
+      const result = await response.json().catch(() => ({}));
+      throw new PrintQueuedError(result.job);
+    }
     if (!response.ok) {
-      throw new Error(`Failed to print statistics report: ${response.statusText}`);
+      const result = await response.json().catch(() => ({}));
+      throw new Error(`Failed to print ${what}: ${result.error || response.statusText}`);
     }
   }
 
@@ -0,0 +1,87 @@
+import * as net from 'net';
+
+// Real-time status of an ESC/POS printer, read with DLE EOT 1-4
+export interface PrinterStatus {
+  // The printer accepted a TCP connection
+  connected: boolean;
+  // The printer answered the status queries; most ESC/POS printers do, some
+  // cheap clones stay silent and only `connected` is known
+  statusSupported: boolean;
+  online: boolean;
+  coverOpen: boolean;
+  paperNearEnd: boolean;
+  paperEnd: boolean;
+  // Cutter jam, head overheating or any other error reported by the printer
+  error: boolean;
+  checkedAt: string;
+}
+
+const DLE = 0x10;
+const EOT = 0x04;
+// Printer status, offline cause, error cause, roll paper sensor
+const STATUS_QUERIES = [1, 2, 3, 4];
+// Printers answer within a few milliseconds; silence past this means no support
+const ANSWER_TIMEOUT_MS = 1000;
+
+/**
+ * Every status byte has bits 1 and 4 set and bits 0 and 7 cleared; anything
+ * else is not an answer to DLE EOT
+ */
+function isStatusByte(byte: number): boolean {
+  return (byte & 0x93) === 0x12;
+}
+
+/**
+ * Decode the four DLE EOT answers, in query order
+ */
+export function parseStatusBytes(bytes: ArrayLike<number>): Omit<PrinterStatus, 'connected' | 'checkedAt'> {
+  if (bytes.length < STATUS_QUERIES.length || !Array.from(bytes).slice(0, 4).every(isStatusByte)) {
+    return { statusSupported: false, online: true, coverOpen: false, paperNearEnd: false, paperEnd: false, error: false };
+  }
+  const [printer, offline, error, paper] = Array.from(bytes);
+  return {
+    statusSupported: true,
+    online: (printer & 0x08) === 0,
+    coverOpen: (offline & 0x04) !== 0,
+    paperNearEnd: (paper & 0x0c) !== 0,
+    paperEnd: (paper & 0x60) !== 0 || (offline & 0x20) !== 0,
+    error: (offline & 0x40) !== 0 || (error & 0x6c) !== 0,
+  };
+}
+
+/**
+ * Connect to a printer and ask for its status. A printer that accepts the
+ * connection but never answers is reported connected, status unsupported.
+ */
+export function queryPrinterStatus(ip: string, port: number, timeout: number): Promise<PrinterStatus> {
+  return new Promise((resolve) => {
+    const socket = new net.Socket();
+    const received: number[] = [];
+    let connected = false;
+    let settled = false;
+    let answerTimer: NodeJS.Timeout | undefined;
+
+    const finish = () => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(answerTimer);
+      socket.destroy();
+      resolve({ connected, ...parseStatusBytes(received), checkedAt: new Date().toISOString() });
+    };
+
+    socket.setTimeout(timeout);
+    socket.on('connect', () => {
+      connected = true;
+      socket.write(Buffer.from(STATUS_QUERIES.flatMap((n) => [DLE, EOT, n])));
+      answerTimer = setTimeout(finish, ANSWER_TIMEOUT_MS);
+    });
+    socket.on('data', (chunk: Buffer) => {
+      received.push(...chunk);
+      if (received.length >= STATUS_QUERIES.length) finish();
+    });
+    socket.on('timeout', finish);
+    socket.on('error', finish);
+    socket.on('close', finish);
+    socket.connect(port, ip);
+  });
+}
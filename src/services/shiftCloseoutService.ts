@@ -0,0 +1,307 @@
+// Cash drawer close-outs: at the end of a shift a staff member counts the
+// drawer against what their sales say it should hold. Close-outs are kept in
+// the workstation's data folder for the supervisor to review
+import { getStaffTransactions } from '../api/client';
+import type { StaffTransaction } from '../api/types';
+import { DAY_PASS_PRICE, STATION_FEE_PER_SEAT } from '../config';
+import type { CloseoutReportData } from './printerService';
+
+// A login older than this belongs to a shift that was never closed
+const MAX_SHIFT_MS = 16 * 60 * 60 * 1000;
+
+// Tunisian dinar notes and coins, largest first
+export const DENOMINATIONS = [50, 20, 10, 5, 2, 1, 0.5, 0.2, 0.1, 0.05, 0.02, 0.01];
+
+export interface ExpectedCash {
+  seats: number;
+  // Route price of the seats sold, without the station fee
+  seatAmount: number;
+  stationFees: number;
+  dayPasses: number;
+  dayPassAmount: number;
+  // Seats cancelled during the shift and the cash handed back for them.
+  // Missing from close-outs saved before refunds were counted
+  refundedSeats: number;
+  refundAmount: number;
+  total: number;
+}
+
+export interface ShiftCloseout {
+  id: string;
+  staffId: string;
+  staffName: string;
+  shiftStart: string;
+  closedAt: string;
+  expected: ExpectedCash;
+  // Count per denomination, keyed by its value ("0.5")
+  denominations: Record<string, number>;
+  counted: number;
+  // Counted minus expected: negative when cash is missing
+  variance: number;
+  note?: string;
+  reviewedBy?: string;
+  reviewedAt?: string;
+  reviewNote?: string;
+}
+
+export interface ShiftSales {
+  shiftStart: string;
+  transactions: StaffTransaction[];
+  expected: ExpectedCash;
+}
+
+// Amounts are kept to the millime so sums of coins compare exactly
+function millimes(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+function startOfToday(): Date {
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  return today;
+}
+
+// YYYY-MM-DD in local time, the day the statistics service files sales under
+function localDate(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+/**
+ * Cash the drawer should hold: seats at the route price plus the station
+ * fee, and day passes at their fixed price, less the refunds of cancelled
+ * seats. Exit passes are not paid for
+ */
+export function computeExpectedCash(transactions: StaffTransaction[]): ExpectedCash {
+  let seats = 0;
+  let seatAmount = 0;
+  let dayPasses = 0;
+  let refundedSeats = 0;
+  let refundAmount = 0;
+  for (const t of transactions) {
+    if (t.type === 'cancellation') {
+      const count = Math.max(1, t.seats);
+      refundedSeats += count;
+      // Refunded like at the desk when the service does not say how much
+      refundAmount += t.amount !== 0 ? -t.amount : count * (t.basePrice + STATION_FEE_PER_SEAT);
+      continue;
+    }
+    if (t.type === 'booking') {
+      const count = Math.max(1, t.seats);
+      seats += count;
+      // Without a route price, the amount charged already includes the fee
+      seatAmount += t.basePrice > 0 ? count * t.basePrice : t.amount - count * STATION_FEE_PER_SEAT;
+    } else if (t.type === 'daypass') {
+      dayPasses += 1;
+    }
+  }
+  const stationFees = millimes(seats * STATION_FEE_PER_SEAT);
+  const dayPassAmount = millimes(dayPasses * DAY_PASS_PRICE);
+  seatAmount = millimes(seatAmount);
+  refundAmount = millimes(refundAmount);
+  return {
+    seats,
+    seatAmount,
+    stationFees,
+    dayPasses,
+    dayPassAmount,
+    refundedSeats,
+    refundAmount,
+    total: millimes(seatAmount + stationFees + dayPassAmount - refundAmount),
+  };
+}
+
+export function countDenominations(counts: Record<string, number>): number {
+  return millimes(DENOMINATIONS.reduce((sum, value) => sum + value * (counts[String(value)] || 0), 0));
+}
+
+class ShiftCloseoutService {
+  // Used when running outside Electron, and by versions that kept close-outs there
+  private readonly STORAGE_KEY = 'management-desktop-shift-closeouts';
+  private readonly SHIFT_KEY = 'management-desktop-shift-starts';
+  private closeouts: ShiftCloseout[] = [];
+  private listeners = new Set<() => void>();
+
+  // Read the saved close-outs, moving over those left in the renderer storage
+  async load(): Promise<ShiftCloseout[]> {
+    try {
+      const legacy = this.readLocal();
+      if (!window.electronAPI) {
+        this.closeouts = legacy;
+        return this.getCloseouts();
+      }
+      const saved = (await window.electronAPI.getCloseouts()) as ShiftCloseout[];
+      const known = new Set(saved.map((c) => c.id));
+      const moved = legacy.filter((c) => !known.has(c.id));
+      this.closeouts = [...saved, ...moved].sort((a, b) => a.closedAt.localeCompare(b.closedAt));
+      if (legacy.length > 0) {
+        if (moved.length > 0) await this.persist(this.closeouts);
+        localStorage.removeItem(this.STORAGE_KEY);
+      }
+    } catch (error) {
+      console.error('Failed to load close-outs:', error);
+    }
+    return this.getCloseouts();
+  }
+
+  getCloseouts(): ShiftCloseout[] {
+    return this.closeouts;
+  }
+
+  // Close-outs made on a day, latest first
+  getCloseoutsFor(date: string): ShiftCloseout[] {
+    return this.getCloseouts()
+      .filter((c) => localDate(new Date(c.closedAt)) === date)
+      .sort((a, b) => b.closedAt.localeCompare(a.closedAt));
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Note when a staff member logged in; an open shift is kept, so logging in
+   * again after a break does not restart it
+   */
+  startShift(staffId: string): void {
+    const starts = this.getShiftStarts();
+    if (starts[staffId] && Date.now() - new Date(starts[staffId]).getTime() < MAX_SHIFT_MS) return;
+    starts[staffId] = new Date().toISOString();
+    this.saveShiftStarts(starts);
+  }
+
+  /**
+   * Start of the current shift: the login, or the previous close-out when
+   * there was one since; midnight when neither is recent
+   */
+  getShiftStart(staffId: string): Date {
+    const last = this.getCloseouts().filter((c) => c.staffId === staffId).pop();
+    const recent = [this.getShiftStarts()[staffId], last?.closedAt]
+      .filter((iso): iso is string => !!iso)
+      .map((iso) => new Date(iso).getTime())
+      .filter((time) => Date.now() - time < MAX_SHIFT_MS);
+    return recent.length > 0 ? new Date(Math.max(...recent)) : startOfToday();
+  }
+
+  /**
+   * Sales of the current shift and the cash they should have brought in.
+   * Night shifts span two days, listed one after the other
+   */
+  async loadShift(staffId: string): Promise<ShiftSales> {
+    const shiftStart = this.getShiftStart(staffId);
+    const days = [localDate(shiftStart)];
+    if (days[0] !== localDate(new Date())) days.push(localDate(new Date()));
+    const responses = await Promise.all(days.map((day) => getStaffTransactions(staffId, day)));
+    const transactions = responses
+      .flatMap((response) => response.data)
+      .filter((t) => new Date(t.createdAt) >= shiftStart)
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    return { shiftStart: shiftStart.toISOString(), transactions, expected: computeExpectedCash(transactions) };
+  }
+
+  /**
+   * Record a close-out; the next shift of this staff member starts now
+   */
+  async close(input: {
+    staffId: string;
+    staffName: string;
+    sales: ShiftSales;
+    denominations: Record<string, number>;
+    note?: string;
+  }): Promise<ShiftCloseout> {
+    const counted = countDenominations(input.denominations);
+    const closeout: ShiftCloseout = {
+      id: `closeout-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      staffId: input.staffId,
+      staffName: input.staffName,
+      shiftStart: input.sales.shiftStart,
+      closedAt: new Date().toISOString(),
+      expected: input.sales.expected,
+      denominations: Object.fromEntries(Object.entries(input.denominations).filter(([, count]) => count > 0)),
+      counted,
+      variance: millimes(counted - input.sales.expected.total),
+      note: input.note?.trim() || undefined,
+    };
+    await this.saveCloseouts([...this.getCloseouts(), closeout]);
+
+    const starts = this.getShiftStarts();
+    delete starts[input.staffId];
+    this.saveShiftStarts(starts);
+    return closeout;
+  }
+
+  // A supervisor checked the close-out
+  async review(id: string, reviewedBy: string, reviewNote?: string): Promise<void> {
+    await this.saveCloseouts(
+      this.getCloseouts().map((c) =>
+        c.id === id ? { ...c, reviewedBy, reviewedAt: new Date().toISOString(), reviewNote: reviewNote?.trim() || undefined } : c
+      )
+    );
+  }
+
+  // What the thermal Z-report prints
+  toReport(closeout: ShiftCloseout): CloseoutReportData {
+    return {
+      staffName: closeout.staffName,
+      shiftStart: closeout.shiftStart,
+      closedAt: closeout.closedAt,
+      seats: closeout.expected.seats,
+      seatAmount: closeout.expected.seatAmount,
+      stationFees: closeout.expected.stationFees,
+      dayPasses: closeout.expected.dayPasses,
+      dayPassAmount: closeout.expected.dayPassAmount,
+      refundedSeats: closeout.expected.refundedSeats || 0,
+      refundAmount: closeout.expected.refundAmount || 0,
+      expected: closeout.expected.total,
+      counted: closeout.counted,
+      variance: closeout.variance,
+      denominations: DENOMINATIONS.map((value) => ({ value, count: closeout.denominations[String(value)] || 0 })),
+      note: closeout.note,
+    };
+  }
+
+  private getShiftStarts(): Record<string, string> {
+    try {
+      const stored = localStorage.getItem(this.SHIFT_KEY);
+      return stored ? JSON.parse(stored) : {};
+    } catch {
+      return {};
+    }
+  }
+
+  private saveShiftStarts(starts: Record<string, string>): void {
+    localStorage.setItem(this.SHIFT_KEY, JSON.stringify(starts));
+  }
+
+  // Nothing is kept in memory that did not reach the disk
+  private async saveCloseouts(closeouts: ShiftCloseout[]): Promise<void> {
+    await this.persist(closeouts);
+    this.closeouts = closeouts;
+    this.listeners.forEach((listener) => listener());
+  }
+
+  private async persist(closeouts: ShiftCloseout[]): Promise<void> {
+    if (window.electronAPI) {
+      const result = await window.electronAPI.saveCloseouts(closeouts);
+      if (!result.success) {
+        throw new Error(result.error || "Échec de l'enregistrement de la clôture");
+      }
+    } else {
+      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(closeouts));
+    }
+  }
+
+  private readLocal(): ShiftCloseout[] {
+    try {
+      const stored = localStorage.getItem(this.STORAGE_KEY);
+      return stored ? JSON.parse(stored) : [];
+    } catch (error) {
+      console.error('Failed to load close-outs from localStorage:', error);
+      return [];
+    }
+  }
+}
+
+export const shiftCloseoutService = new ShiftCloseoutService();
@@ -0,0 +1,245 @@
+// Statistics exports for accounting: the same report data the thermal printer
+// gets, laid out as tables and saved as CSV, XLSX or PDF
+import type { StatisticsReportData } from './printerService';
+import { buildXlsx, type XlsxCell } from './xlsxWriter';
+
+export type ExportFormat = 'csv' | 'xlsx' | 'pdf';
+
+type ColumnKind = 'text' | 'count' | 'amount';
+
+export interface ExportTable {
+  title: string;
+  columns: Array<{ label: string; kind: ColumnKind }>;
+  rows: XlsxCell[][];
+  total?: XlsxCell[];
+}
+
+const COMPANY_NAME = 'STE Dhraiff Services Transport';
+
+function sum<T>(items: T[], value: (item: T) => number): number {
+  return Math.round(items.reduce((acc, item) => acc + value(item), 0) * 1000) / 1000;
+}
+
+/**
+ * The report as tables: totals, then per staff and per destination when the
+ * period has them
+ */
+export function statisticsTables(report: StatisticsReportData): ExportTable[] {
+  const tables: ExportTable[] = [
+    {
+      title: 'Totaux',
+      columns: [
+        { label: 'Sièges', kind: 'count' },
+        { label: 'Revenus Sièges (TND)', kind: 'amount' },
+        { label: 'Passes Jour', kind: 'count' },
+        { label: 'Revenus Passes (TND)', kind: 'amount' },
+        { label: 'Revenus Totaux (TND)', kind: 'amount' },
+      ],
+      rows: [
+        [
+          report.totalSeatsBooked,
+          report.totalSeatIncome,
+          report.totalDayPassesSold,
+          report.totalDayPassIncome,
+          report.totalIncome,
+        ],
+      ],
+    },
+  ];
+
+  const staff = report.staffData || [];
+  if (staff.length > 0) {
+    tables.push({
+      title: 'Personnel',
+      columns: [
+        { label: 'Personnel', kind: 'text' },
+        { label: 'Sièges', kind: 'count' },
+        { label: 'Revenus Sièges (TND)', kind: 'amount' },
+        { label: 'Passes Jour', kind: 'count' },
+        { label: 'Revenus Passes (TND)', kind: 'amount' },
+        { label: 'Total (TND)', kind: 'amount' },
+      ],
+      rows: staff.map((s) => [s.name, s.seats, s.seatIncome, s.dayPasses, s.dayPassIncome, s.income]),
+      total: [
+        'TOTAL',
+        report.totalSeatsBooked,
+        report.totalSeatIncome,
+        report.totalDayPassesSold,
+        report.totalDayPassIncome,
+        report.totalIncome,
+      ],
+    });
+  }
+
+  const destinations = report.destinationData || [];
+  if (destinations.length > 0) {
+    tables.push({
+      title: 'Destinations',
+      columns: [
+        { label: 'Destination', kind: 'text' },
+        { label: 'Départs', kind: 'count' },
+        { label: 'Sièges', kind: 'count' },
+        { label: 'Billets (TND)', kind: 'amount' },
+      ],
+      rows: destinations.map((d) => [d.name, d.trips, d.seats, d.income]),
+      total: [
+        'TOTAL',
+        sum(destinations, (d) => d.trips),
+        sum(destinations, (d) => d.seats),
+        sum(destinations, (d) => d.income),
+      ],
+    });
+  }
+  return tables;
+}
+
+function formatCell(value: XlsxCell, kind: ColumnKind): string {
+  return kind === 'amount' && typeof value === 'number' ? value.toFixed(3) : String(value);
+}
+
+function generatedOn(report: StatisticsReportData): string {
+  return new Date(report.createdAt || Date.now()).toLocaleString('fr-FR', {
+    day: '2-digit',
+    month: '2-digit',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+/**
+ * One CSV with a block per table, separated by a blank line. Semicolons and
+ * a BOM so Excel opens it with the accents in a French locale
+ */
+export function statisticsCsv(report: StatisticsReportData): string {
+  const cell = (value: XlsxCell) => `"${String(value).replace(/"/g, '""')}"`;
+  const lines = [
+    [cell('Rapport de Revenus'), cell(report.periodLabel)].join(';'),
+    [cell('Généré le'), cell(generatedOn(report))].join(';'),
+    ...(report.notes || []).map((note) => [cell('Note'), cell(note)].join(';')),
+  ];
+  for (const table of statisticsTables(report)) {
+    lines.push('', cell(table.title), table.columns.map((c) => cell(c.label)).join(';'));
+    for (const row of table.total ? [...table.rows, table.total] : table.rows) {
+      lines.push(row.map((value, i) => cell(formatCell(value, table.columns[i].kind))).join(';'));
+    }
+  }
+  return '\uFEFF' + lines.join('\r\n');
+}
+
+// One sheet per table, headed by the period; the notes go under the totals
+export function statisticsXlsx(report: StatisticsReportData): Uint8Array {
+  return buildXlsx(
+    statisticsTables(report).map((table, index) => {
+      const rows: XlsxCell[][] = [
+        [`Rapport de Revenus - ${report.periodLabel}`],
+        [],
+        table.columns.map((c) => c.label),
+        ...table.rows,
+      ];
+      const boldRows = [0, 2];
+      if (table.total) {
+        boldRows.push(rows.length);
+        rows.push(table.total);
+      }
+      if (index === 0 && report.notes?.length) rows.push([], ...report.notes.map((note) => [note]));
+      return {
+        name: table.title,
+        rows,
+        boldRows,
+        amountColumns: table.columns.flatMap((c, i) => (c.kind === 'amount' ? [i] : [])),
+        widths: table.columns.map((c) => (c.kind === 'text' ? 32 : Math.max(12, c.label.length + 2))),
+      };
+    })
+  );
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, (c) => `&#${c.charCodeAt(0)};`);
+}
+
+// A4 page the main process renders to PDF
+export function statisticsHtml(report: StatisticsReportData): string {
+  // Embedded images only, escaped like every other value on the page
+  const logo = report.companyLogo?.startsWith('data:image/') ? report.companyLogo : '';
+  const tables = statisticsTables(report)
+    .map((table) => {
+      const align = (kind: ColumnKind) => (kind === 'text' ? '' : ' class="text-right"');
+      const row = (values: XlsxCell[], cls = '') =>
+        `<tr${cls}>${values.map((v, i) => `<td${align(table.columns[i].kind)}>${escapeHtml(formatCell(v, table.columns[i].kind))}</td>`).join('')}</tr>`;
+      return `
+        <h2>${escapeHtml(table.title)}</h2>
+        <table>
+          <thead><tr>${table.columns.map((c) => `<th${align(c.kind)}>${escapeHtml(c.label)}</th>`).join('')}</tr></thead>
+          <tbody>
+            ${table.rows.map((values) => row(values)).join('')}
+            ${table.total ? row(table.total, ' class="total-row"') : ''}
+          </tbody>
+        </table>`;
+    })
+    .join('');
+
+  return `<!DOCTYPE html>
+<html>
+  <head>
+    <meta charset="UTF-8">
+    <title>Rapport de Revenus - ${escapeHtml(report.periodLabel)}</title>
+    <style>
+      @page { size: A4; margin: 1cm; }
+      * { margin: 0; padding: 0; box-sizing: border-box; }
+      body { font-family: 'Arial', sans-serif; font-size: 9pt; line-height: 1.4; color: #000; }
+      .header { text-align: center; margin-bottom: 15px; border-bottom: 2px solid #000; padding-bottom: 10px; }
+      .header-logo img { max-width: 70px; max-height: 70px; object-fit: contain; }
+      .header-company { font-size: 12pt; font-weight: bold; margin-bottom: 5px; }
+      .header h1 { font-size: 16pt; font-weight: bold; margin-bottom: 5px; }
+      .header .period { font-size: 11pt; color: #333; font-weight: 600; }
+      .header .date { font-size: 8pt; color: #666; margin-top: 3px; }
+      h2 { font-size: 11pt; font-weight: bold; margin: 15px 0 8px; border-bottom: 1px solid #333; padding-bottom: 4px; }
+      table { width: 100%; border-collapse: collapse; font-size: 8pt; }
+      th { background: #333; color: #fff; padding: 6px 5px; text-align: left; border: 1px solid #000; }
+      td { padding: 5px; border: 1px solid #000; }
+      .text-right { text-align: right; }
+      tr:nth-child(even) { background: #f5f5f5; }
+      .total-row { background: #e8e8e8; font-weight: bold; }
+      .note { margin-top: 8px; font-style: italic; color: #333; }
+      .footer { margin-top: 15px; padding-top: 8px; border-top: 1px solid #000; text-align: center; font-size: 7pt; color: #666; }
+      body { print-color-adjust: exact; -webkit-print-color-adjust: exact; }
+    </style>
+  </head>
+  <body>
+    <div class="header">
+      ${logo ? `<div class="header-logo"><img src="${escapeHtml(logo)}" alt="Logo" /></div>` : ''}
+      <div class="header-company">${COMPANY_NAME}</div>
+      <h1>Rapport de Revenus</h1>
+      <div class="period">${escapeHtml(report.periodLabel)}</div>
+      <div class="date">Généré le ${generatedOn(report)}${report.createdBy ? ` par ${escapeHtml(report.createdBy)}` : ''}</div>
+    </div>
+    ${tables}
+    ${(report.notes || []).map((note) => `<p class="note">${escapeHtml(note)}</p>`).join('')}
+    <div class="footer">
+      <p>Document généré automatiquement par le système de gestion</p>
+    </div>
+  </body>
+</html>`;
+}
+
+/**
+ * Ask where to save the export and write it. Resolves to the saved path, or
+ * null when the user cancelled the dialog
+ */
+export async function exportStatistics(
+  report: StatisticsReportData,
+  format: ExportFormat,
+  fileName: string
+): Promise<string | null> {
+  if (!window.electronAPI) {
+    throw new Error("L'export de fichiers n'est disponible que dans l'application");
+  }
+  const data =
+    format === 'csv' ? statisticsCsv(report) : format === 'xlsx' ? statisticsXlsx(report) : statisticsHtml(report);
+  const result = await window.electronAPI.saveExport({ fileName: `${fileName}.${format}`, format, data });
+  if (!result.success) {
+    throw new Error(result.error || "Échec de l'enregistrement du fichier");
+  }
+  return result.canceled ? null : result.filePath || null;
+}
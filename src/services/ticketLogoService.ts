@@ -0,0 +1,89 @@
+// Logo printed at the top of tickets for management-desktop
+
+export type TicketLogoMode = 'default' | 'custom' | 'none';
+
+export interface TicketLogoSettings {
+  mode: TicketLogoMode;
+  // Data URL of the uploaded image when mode is 'custom'
+  customLogo?: string;
+}
+
+export const DEFAULT_LOGO_PATH = '/icons/ste_260.png';
+// Logos are stored in the settings file; keep them small
+const MAX_LOGO_BYTES = 512 * 1024;
+
+class TicketLogoService {
+  private readonly SETTINGS_SECTION = 'ticketLogo';
+  // Used when running outside Electron (vite dev server in a browser)
+  private readonly STORAGE_KEY = 'management-desktop-ticket-logo';
+  private settings: TicketLogoSettings = { mode: 'default' };
+
+  async load(): Promise<TicketLogoSettings> {
+    try {
+      const saved = await this.readSaved();
+      if (saved && ['default', 'custom', 'none'].includes(saved.mode)) {
+        this.settings = saved.mode === 'custom' && !saved.customLogo ? { mode: 'default' } : saved;
+      }
+    } catch (error) {
+      console.error('Failed to load ticket logo settings:', error);
+    }
+    return this.getSettings();
+  }
+
+  getSettings(): TicketLogoSettings {
+    return { ...this.settings };
+  }
+
+  // Source sent to the printer service: asset path, data URL, or nothing to
+  // print the company name as text
+  getLogoSource(): string | undefined {
+    if (this.settings.mode === 'none') return undefined;
+    if (this.settings.mode === 'custom' && this.settings.customLogo) return this.settings.customLogo;
+    return DEFAULT_LOGO_PATH;
+  }
+
+  async save(settings: TicketLogoSettings): Promise<void> {
+    if (settings.mode === 'custom' && !settings.customLogo) {
+      throw new Error('Choisissez une image pour le logo personnalisé');
+    }
+    const value: TicketLogoSettings = settings.mode === 'custom' ? settings : { mode: settings.mode };
+
+    if (window.electronAPI) {
+      const result = await window.electronAPI.saveSettings({ [this.SETTINGS_SECTION]: value });
+      if (!result.success) {
+        throw new Error(result.error || "Échec de l'enregistrement du logo");
+      }
+    } else {
+      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(value));
+    }
+    this.settings = value;
+  }
+
+  // Read an image picked by the operator as a data URL
+  readLogoFile(file: File): Promise<string> {
+    if (!file.type.startsWith('image/')) {
+      return Promise.reject(new Error('Le fichier doit être une image (PNG, JPEG, BMP)'));
+    }
+    if (file.size > MAX_LOGO_BYTES) {
+      return Promise.reject(new Error('Image trop lourde (512 Ko maximum)'));
+    }
+    return new Promise((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(String(reader.result));
+      reader.onerror = () => reject(reader.error || new Error("Impossible de lire l'image"));
+      reader.readAsDataURL(file);
+    });
+  }
+
+  private async readSaved(): Promise<TicketLogoSettings | null> {
+    if (window.electronAPI) {
+      const settings = await window.electronAPI.getSettings();
+      return (settings?.[this.SETTINGS_SECTION] as TicketLogoSettings | undefined) || null;
+    }
+    const stored = localStorage.getItem(this.STORAGE_KEY);
+    return stored ? JSON.parse(stored) : null;
+  }
+}
+
+// Create singleton instance
+export const ticketLogoService = new TicketLogoService();
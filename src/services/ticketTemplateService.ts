@@ -0,0 +1,95 @@
+// Ticket layouts chosen by the supervisor for management-desktop
+import { EscPosBuilder } from './escposBuilder';
+import type { RasterImage } from './logoRaster';
+import { ticketLogoService } from './ticketLogoService';
+import {
+  DEFAULT_TEMPLATES,
+  renderTicketTemplate,
+  validateTemplate,
+  type TicketTemplateData,
+  type TicketTemplateType,
+} from './ticketTemplates';
+
+// Stands for the logo in text previews, which only show where it goes
+const PREVIEW_LOGO: RasterImage = { widthBytes: 0, height: 0, data: new Uint8Array(0) };
+
+// Only edited templates are stored; the others follow the built-in layout
+export type TicketTemplateOverrides = Partial<Record<TicketTemplateType, string>>;
+
+class TicketTemplateService {
+  private readonly SETTINGS_SECTION = 'ticketTemplates';
+  // Used when running outside Electron (vite dev server in a browser)
+  private readonly STORAGE_KEY = 'management-desktop-ticket-templates';
+  private overrides: TicketTemplateOverrides = {};
+
+  async load(): Promise<TicketTemplateOverrides> {
+    try {
+      const saved = await this.readSaved();
+      if (saved && typeof saved === 'object') {
+        this.overrides = saved;
+      }
+    } catch (error) {
+      console.error('Failed to load ticket templates:', error);
+    }
+    return { ...this.overrides };
+  }
+
+  getTemplate(type: TicketTemplateType): string {
+    return this.overrides[type] || DEFAULT_TEMPLATES[type];
+  }
+
+  isCustom(type: TicketTemplateType): boolean {
+    return !!this.overrides[type];
+  }
+
+  // Plain-text ticket laid out exactly as the printer will print it
+  preview(type: TicketTemplateType, data: TicketTemplateData, width = 48, template = this.getTemplate(type)): string {
+    const logo = ticketLogoService.getLogoSource() ? PREVIEW_LOGO : null;
+    return renderTicketTemplate(template, data, new EscPosBuilder(width), { logo }).toText();
+  }
+
+  async save(type: TicketTemplateType, template: string): Promise<void> {
+    const errors = validateTemplate(template);
+    if (errors.length > 0) {
+      throw new Error(errors[0]);
+    }
+    const overrides = { ...this.overrides };
+    if (template.trim() === DEFAULT_TEMPLATES[type]) {
+      delete overrides[type];
+    } else {
+      overrides[type] = template;
+    }
+    await this.write(overrides);
+  }
+
+  // Go back to the built-in layout
+  async reset(type: TicketTemplateType): Promise<void> {
+    const overrides = { ...this.overrides };
+    delete overrides[type];
+    await this.write(overrides);
+  }
+
+  private async write(overrides: TicketTemplateOverrides): Promise<void> {
+    if (window.electronAPI) {
+      const result = await window.electronAPI.saveSettings({ [this.SETTINGS_SECTION]: overrides });
+      if (!result.success) {
+        throw new Error(result.error || "Échec de l'enregistrement du modèle");
+      }
+    } else {
+      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(overrides));
+    }
+    this.overrides = overrides;
+  }
+
+  private async readSaved(): Promise<TicketTemplateOverrides | null> {
+    if (window.electronAPI) {
+      const settings = await window.electronAPI.getSettings();
+      return (settings?.[this.SETTINGS_SECTION] as TicketTemplateOverrides | undefined) || null;
+    }
+    const stored = localStorage.getItem(this.STORAGE_KEY);
+    return stored ? JSON.parse(stored) : null;
+  }
+}
+
+// Create singleton instance
+export const ticketTemplateService = new TicketTemplateService();
@@ -0,0 +1,281 @@
+// Ticket layouts as editable templates. The same renderer lays out the
+// printed ticket (embedded printer service) and the on-screen previews.
+import type { EscPosBuilder, TextStyle } from './escposBuilder';
+import type { RasterImage } from './logoRaster';
+
+export type TicketTemplateType = 'booking' | 'daypass' | 'exitpass' | 'cancellation';
+
+// Ticket fields the placeholders are computed from
+export interface TicketTemplateData {
+  licensePlate?: string;
+  destinationName?: string;
+  seatNumber?: number;
+  totalAmount?: number;
+  basePrice?: number;
+  stationFee?: number;
+  createdBy?: string;
+  createdAt?: string | Date;
+  exitPassCount?: number;
+  vehicleCapacity?: number;
+  bookingId?: string;
+  qrCode?: string;
+  controlCode?: string;
+}
+
+export interface TemplateRenderOptions {
+  // Dithered company logo; without it the company name is printed as text
+  logo?: RasterImage | null;
+  // Reprint of a ticket that already came out
+  duplicate?: boolean;
+}
+
+// Placeholder name and what it prints, for the template editor
+export const TEMPLATE_PLACEHOLDERS: Record<string, string> = {
+  plate: 'Immatriculation du véhicule',
+  destination: 'Destination',
+  seats: 'Nombre de sièges',
+  basePrice: 'Prix par siège',
+  baseTotal: 'Prix des sièges (prix x sièges)',
+  stationFee: 'Frais station par siège',
+  feeTotal: 'Frais station (frais x sièges)',
+  total: 'Montant total',
+  agent: 'Agent',
+  date: 'Date',
+  time: 'Heure',
+  exitPassCount: 'Numéro de sortie du jour',
+  capacity: 'Capacité du véhicule',
+  bookingId: 'Référence de la réservation',
+};
+
+// Directive and what it does, for the template editor
+export const TEMPLATE_DIRECTIVES: Record<string, string> = {
+  '@header TITRE': 'Logo (ou nom de la société) et titre du ticket',
+  '@row Libellé | valeur': 'Libellé à gauche, valeur à droite',
+  '@center texte': 'Texte centré',
+  '@sep': 'Ligne de tirets (@sep = pour une double ligne)',
+  '@codes': 'QR code signé et code de contrôle (passes)',
+  '@feed 2': 'Lignes vides',
+  ':bold :big :wide': 'Styles, ex. @row:bold:big Total: | {total} TND',
+};
+
+const FOOTER = ['@feed', '@sep =', '@center:bold Merci et bon voyage !', '@sep ='];
+const ISSUED_BY = ['@row Date: | {date}', '@row Heure: | {time}', '@row Agent: | {agent}'];
+
+export const DEFAULT_TEMPLATES: Record<TicketTemplateType, string> = {
+  booking: [
+    '@header BILLET RÉSERVATION',
+    '@row:bold Véhicule: | {plate}',
+    '@row:bold Destination: | {destination}',
+    '@row Sièges: | {seats}',
+    '@sep',
+    '@row Prix base: | {baseTotal} TND',
+    '@row Frais: | {feeTotal} TND',
+    '@row:bold:big Total: | {total} TND',
+    '@sep',
+    ...ISSUED_BY,
+    ...FOOTER,
+  ].join('\n'),
+  daypass: [
+    '@header PASS JOURNÉE',
+    '@row:bold Véhicule: | {plate}',
+    '@row Route: | {destination}',
+    '@sep',
+    '@row:bold:big Montant: | {total} TND',
+    '@sep',
+    ...ISSUED_BY,
+    '@sep',
+    '@center Valable toute la journée',
+    '@codes',
+    ...FOOTER,
+  ].join('\n'),
+  exitpass: [
+    '@header AUTORISATION DE SORTIE',
+    '@row:bold Véhicule: | {plate}',
+    '@row:bold Destination: | {destination}',
+    '@row Sortie du jour: | n° {exitPassCount}',
+    '@sep',
+    '@row Sièges: | {seats}',
+    '@row Prix: | {baseTotal} TND',
+    '@row:bold:big Total: | {total} TND',
+    '@sep',
+    ...ISSUED_BY,
+    '@sep',
+    '@center:bold Sortie autorisée',
+    '@codes',
+    ...FOOTER,
+  ].join('\n'),
+  cancellation: [
+    '@header ANNULATION RÉSERVATION',
+    '@row Réf: | {bookingId}',
+    '@row:bold Véhicule: | {plate}',
+    '@row Destination: | {destination}',
+    '@row Sièges annulés: | {seats}',
+    '@sep',
+    '@row Prix base: | {baseTotal} TND',
+    '@row Frais: | {feeTotal} TND',
+    '@row:bold:big Remboursé: | {total} TND',
+    '@sep',
+    ...ISSUED_BY,
+    ...FOOTER,
+  ].join('\n'),
+};
+
+const PLACEHOLDER = /\{(\w+)\}/g;
+const DIRECTIVE = /^@(\w+)((?::\w+)*)\s?(.*)$/;
+const STYLE_FLAGS: Record<string, TextStyle> = {
+  bold: { bold: true },
+  big: { doubleHeight: true },
+  wide: { doubleWidth: true },
+};
+
+function amount(value: number | undefined): string {
+  return value ? value.toFixed(3) : '';
+}
+
+/**
+ * Placeholder values of a ticket; a field the ticket does not have is empty
+ */
+export function templateValues(data: TicketTemplateData): Record<string, string> {
+  const seats = data.seatNumber && data.seatNumber > 0 ? data.seatNumber : 0;
+  const issued = data.createdAt ? new Date(data.createdAt) : null;
+  return {
+    plate: data.licensePlate || '',
+    destination: data.destinationName || '',
+    seats: seats ? String(seats) : '',
+    basePrice: amount(data.basePrice),
+    baseTotal: seats ? amount((data.basePrice || 0) * seats) : '',
+    stationFee: amount(data.stationFee),
+    feeTotal: seats ? amount((data.stationFee || 0) * seats) : '',
+    total: (data.totalAmount || 0).toFixed(3),
+    agent: data.createdBy || '',
+    date: issued ? issued.toLocaleDateString('fr-FR') : '',
+    time: issued ? issued.toLocaleTimeString('fr-FR', { hour: '2-digit', minute: '2-digit' }) : '',
+    exitPassCount: data.exitPassCount ? String(data.exitPassCount) : '',
+    capacity: data.vehicleCapacity ? String(data.vehicleCapacity) : '',
+    bookingId: data.bookingId || '',
+  };
+}
+
+/**
+ * Fill the placeholders of a line; null when one of them is empty so that
+ * optional lines (price, booking reference...) disappear
+ */
+function fill(text: string, values: Record<string, string>): string | null {
+  let missing = false;
+  const filled = text.replace(PLACEHOLDER, (match, name: string) => {
+    if (!(name in values)) return match;
+    if (!values[name]) missing = true;
+    return values[name];
+  });
+  return missing ? null : filled;
+}
+
+/**
+ * Company logo (or name) and the ticket title
+ */
+export function addTicketHeader(doc: EscPosBuilder, title: string, options: TemplateRenderOptions = {}): void {
+  if (options.logo) {
+    doc.image(options.logo);
+  } else {
+    doc.separator('=');
+    doc.center('STE DHRAIFF SERVICES', { bold: true, doubleHeight: true });
+    doc.center('TRANSPORT', { bold: true });
+  }
+  doc.separator('=');
+  doc.center(title, { bold: true, doubleHeight: true, doubleWidth: title.length <= doc.columns({ doubleWidth: true }) });
+  if (options.duplicate) {
+    doc.center('*** DUPLICATA ***', { bold: true });
+  }
+  doc.separator('=');
+}
+
+/**
+ * Lay out a ticket from its template, then feed and cut
+ */
+export function renderTicketTemplate(
+  template: string,
+  data: TicketTemplateData,
+  doc: EscPosBuilder,
+  options: TemplateRenderOptions = {}
+): EscPosBuilder {
+  const values = templateValues(data);
+
+  for (const raw of template.split(/\r?\n/)) {
+    const line = raw.trimEnd();
+    if (line.startsWith('#')) continue;
+
+    const directive = DIRECTIVE.exec(line);
+    if (!directive) {
+      const text = fill(line, values);
+      if (text !== null) doc.line(text);
+      continue;
+    }
+
+    const [, name, flags, rest] = directive;
+    const style: TextStyle = Object.assign({}, ...flags.split(':').filter(Boolean).map((flag) => STYLE_FLAGS[flag] || {}));
+    const text = fill(rest, values);
+    if (text === null) continue;
+
+    switch (name) {
+      case 'header':
+        addTicketHeader(doc, text, options);
+        break;
+      case 'row': {
+        const [label, value = ''] = text.split('|').map((part) => part.trim());
+        doc.row(label, value, style);
+        break;
+      }
+      case 'center':
+        doc.center(text, style);
+        break;
+      case 'sep':
+        doc.separator(text.trim() || '-');
+        break;
+      case 'feed':
+        doc.feed(Math.max(1, Number(text) || 1));
+        break;
+      case 'codes':
+        if (data.qrCode) {
+          doc.feed();
+          doc.qr(data.qrCode, doc.width >= 48 ? 6 : 4);
+        }
+        if (data.controlCode) {
+          doc.feed();
+          doc.barcode(data.controlCode);
+        }
+        break;
+      default:
+        doc.line(line, style);
+    }
+  }
+
+  doc.feed(3);
+  doc.cut();
+  return doc;
+}
+
+/**
+ * Problems the editor reports before a template is saved
+ */
+export function validateTemplate(template: string): string[] {
+  const errors: string[] = [];
+  template.split(/\r?\n/).forEach((line, index) => {
+    const directive = DIRECTIVE.exec(line.trimEnd());
+    if (directive) {
+      const [, name, flags] = directive;
+      if (!['header', 'row', 'center', 'sep', 'feed', 'codes'].includes(name)) {
+        errors.push(`Ligne ${index + 1}: directive inconnue @${name}`);
+      }
+      for (const flag of flags.split(':').filter(Boolean)) {
+        if (!STYLE_FLAGS[flag]) errors.push(`Ligne ${index + 1}: style inconnu :${flag}`);
+      }
+    }
+    for (const [, name] of line.matchAll(PLACEHOLDER)) {
+      if (!(name in TEMPLATE_PLACEHOLDERS)) errors.push(`Ligne ${index + 1}: champ inconnu {${name}}`);
+    }
+  });
+  if (!template.split(/\r?\n/).some((line) => line.startsWith('@header'))) {
+    errors.push('Le modèle doit contenir une ligne @header');
+  }
+  return errors;
+}
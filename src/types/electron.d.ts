@@ -1,8 +1,21 @@
+import type { DiscoveredPrinter } from '../services/printerDiscovery'
+
 export interface ElectronAPI {
   checkForUpdates: () => Promise<{ success: boolean; updateInfo?: any; error?: string }>
   downloadUpdate: () => Promise<{ success: boolean; error?: string }>
   installUpdate: () => Promise<{ success: boolean; error?: string }>
   getAppVersion: () => Promise<string>
+  getSettings: () => Promise<Record<string, unknown>>
+  saveSettings: (patch: Record<string, unknown>) => Promise<{ success: boolean; error?: string }>
+  getCloseouts: () => Promise<unknown[]>
+  saveCloseouts: (closeouts: unknown[]) => Promise<{ success: boolean; error?: string }>
+  discoverPrinters: () => Promise<{ success: boolean; printers?: DiscoveredPrinter[]; error?: string }>
+  // PDFs are sent as HTML; resolves canceled when the save dialog was dismissed
+  saveExport: (request: {
+    fileName: string
+    format: 'csv' | 'xlsx' | 'pdf'
+    data: string | Uint8Array
+  }) => Promise<{ success: boolean; canceled?: boolean; filePath?: string; error?: string }>
   on: (channel: string, callback: (event: Electron.IpcRendererEvent, ...args: unknown[]) => void) => void
   off: (channel: string, callback: (event: Electron.IpcRendererEvent, ...args: unknown[]) => void) => void
   send: (channel: string, ...args: unknown[]) => void
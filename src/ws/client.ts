@@ -1,11 +1,15 @@
 import { API } from "@/config";
 import { getAuthToken } from "@/api/client";
+import { QUEUE_EVENT_TYPES } from "@/ws/events";
+
+// Messages are parsed JSON; only `type` is read here, receivers check the rest
+export type WSMessage = { type?: unknown; [key: string]: unknown };
 
 export type WSHandlers = {
   onOpen?: () => void;
   onClose?: () => void;
   onError?: (e: Event) => void;
-  onMessage?: (message: any) => void;
+  onMessage?: (message: WSMessage) => void;
   onConnectionStatus?: (connected: boolean) => void;
 };
 
@@ -18,7 +22,8 @@ export type QueueWSHandlers = {
   onOpen?: () => void;
   onClose?: () => void;
   onError?: (e: Event) => void;
-  onMessage?: (event: MessageEvent) => void;
+  // Event messages, to be checked with parseQueueEvent
+  onMessage?: (message: WSMessage) => void;
   onLatencyUpdate?: (latency: number) => void;
   onConnectionStatus?: (connected: boolean, latency?: number) => void;
 };
@@ -31,12 +36,14 @@ export interface QueueWSClient {
   isConnected: () => boolean;
 }
 
-export function connectQueue(stationId: string, handlers: QueueWSHandlers = {}): QueueWSClient {
+function tokenQuery() {
   const token = getAuthToken() || (typeof window !== 'undefined' ? window.localStorage.getItem('authToken') : null);
-  const qs = token ? `?token=${encodeURIComponent(token)}` : "";
-  const url = `${API.ws}/ws/queue/${encodeURIComponent(stationId)}${qs}`;
-  
-  console.log('WebSocket connecting to:', url);
+  return token ? `?token=${encodeURIComponent(token)}` : "";
+}
+
+export function connectQueue(stationId: string, handlers: QueueWSHandlers = {}): QueueWSClient {
+  // Built on every attempt so reconnections follow endpoint changes and renewed tokens
+  const buildUrl = () => `${API.ws}/ws/queue/${encodeURIComponent(stationId)}${tokenQuery()}`;
   
   let ws: WebSocket | null = null;
   let closedByUser = false;
@@ -48,7 +55,8 @@ export function connectQueue(stationId: string, handlers: QueueWSHandlers = {}):
   let lastPingTime = 0;
 
   const connect = () => {
-    console.log('Creating WebSocket connection...');
+    const url = buildUrl();
+    console.log('WebSocket connecting to:', url);
     ws = new WebSocket(url);
     
     ws.onopen = () => {
@@ -58,25 +66,27 @@ export function connectQueue(stationId: string, handlers: QueueWSHandlers = {}):
       handlers.onOpen?.();
       handlers.onConnectionStatus?.(true, latency);
       startHeartbeat();
-      subscribe(['queue_updated', 'queue_entry_added', 'queue_entry_removed', 'queue_entry_updated', 'queue_reordered', 'day_pass_created', 'exit_pass_created']);
+      subscribe(QUEUE_EVENT_TYPES);
     };
     
     ws.onmessage = (ev) => {
+      let msg: WSMessage;
       try {
-        const msg = JSON.parse(ev.data);
-        switch (msg.type) {
-          case 'pong':
-            handlePong(msg);
-            break;
-          case 'subscription_confirmed':
-            console.log('Subscription confirmed for events:', msg.events);
-            break;
-          default:
-            handlers.onMessage?.(ev);
-        }
+        msg = JSON.parse(ev.data);
       } catch (error) {
         console.error('Error parsing WebSocket message:', error);
-        handlers.onMessage?.(ev);
+        return;
+      }
+      if (msg === null || typeof msg !== 'object') return;
+      switch (msg.type) {
+        case 'pong':
+          handlePong(msg);
+          break;
+        case 'subscription_confirmed':
+          console.log('Subscription confirmed for events:', msg.events);
+          break;
+        default:
+          handlers.onMessage?.(msg);
       }
     };
     
@@ -136,9 +146,11 @@ export function connectQueue(stationId: string, handlers: QueueWSHandlers = {}):
     }
   };
 
-  const handlePong = (msg: any) => {
+  const handlePong = (msg: WSMessage) => {
+    // Our own ping timestamp, echoed back
+    const sentAt = typeof msg.timestamp === 'number' ? msg.timestamp : lastPingTime;
     const now = Date.now();
-    const roundTripTime = now - msg.timestamp;
+    const roundTripTime = now - sentAt;
     latency = roundTripTime / 2;
     handlers.onLatencyUpdate?.(latency);
     handlers.onConnectionStatus?.(true, latency);
@@ -173,14 +185,11 @@ export function connectQueue(stationId: string, handlers: QueueWSHandlers = {}):
 }
 
 export function connectStatistics(handlers: WSHandlers = {}): WSClient {
-  const token = getAuthToken() || (typeof window !== 'undefined' ? window.localStorage.getItem('authToken') : null);
-  const qs = token ? `?token=${encodeURIComponent(token)}` : "";
-  
-  // Statistics WebSocket endpoint is on port 8006 (statistics service)
-  const statsWsUrl = API.stats.replace('http://', 'ws://').replace('https://', 'wss://');
-  const url = `${statsWsUrl}/api/v1/statistics/ws${qs}`;
-  
-  console.log('🔌 WebSocket Statistics connecting to:', url);
+  // Statistics WebSocket endpoint is served by the statistics service
+  const buildUrl = () => {
+    const statsWsUrl = API.stats.replace('http://', 'ws://').replace('https://', 'wss://');
+    return `${statsWsUrl}/api/v1/statistics/ws${tokenQuery()}`;
+  };
   
   let ws: WebSocket | null = null;
   let closedByUser = false;
@@ -188,7 +197,8 @@ export function connectStatistics(handlers: WSHandlers = {}): WSClient {
   let connected = false;
 
   const connect = () => {
-    console.log('Creating Statistics WebSocket connection...');
+    const url = buildUrl();
+    console.log('🔌 WebSocket Statistics connecting to:', url);
     ws = new WebSocket(url);
     
     ws.onopen = () => {
@@ -201,7 +211,7 @@ export function connectStatistics(handlers: WSHandlers = {}): WSClient {
     
     ws.onmessage = (ev) => {
       try {
-        const msg = JSON.parse(ev.data);
+        const msg: WSMessage = JSON.parse(ev.data);
         console.log('📨 Statistics WebSocket message:', msg);
         
         // Handle different message types
@@ -0,0 +1,117 @@
+import { list, number, object, optionalText, requiredText, string, text, type Parser } from "@/api/schema";
+import { parseQueueEntry, type QueueEntry } from "@/api/types";
+
+// Queue events broadcast on the station channel, checked like REST payloads so
+// a drifting server triggers a reload instead of patching the queue with junk
+
+type EventBase = {
+  // Destination whose queue changed; absent when the server does not say
+  destinationId?: string;
+};
+
+export type QueueTotals = {
+  totalVehicles: number;
+  totalSeats?: number;
+  availableSeats: number;
+};
+
+export type QueueEvent = EventBase &
+  (
+    | { type: "queue_entry_added"; entry: QueueEntry }
+    // Only the fields that changed, in the wire format, merged into the known entry
+    | { type: "queue_entry_updated"; entryId: string; changes: Record<string, unknown> }
+    | { type: "queue_entry_removed"; entryId: string }
+    | { type: "exit_pass_created"; entryId?: string; vehicleId?: string }
+    | { type: "queue_reordered"; entryIds?: string[]; entries?: QueueEntry[] }
+    | { type: "queue_updated"; entries?: QueueEntry[]; totals?: QueueTotals }
+    | { type: "day_pass_created"; vehicleId?: string }
+  );
+
+export type QueueEventType = QueueEvent["type"];
+
+export const QUEUE_EVENT_TYPES: QueueEventType[] = [
+  "queue_updated",
+  "queue_entry_added",
+  "queue_entry_removed",
+  "queue_entry_updated",
+  "queue_reordered",
+  "day_pass_created",
+  "exit_pass_created",
+];
+
+// Whole queues come as the payload itself or under `entries` / `queue`
+function queueEntries(data: unknown, path: string): QueueEntry[] | undefined {
+  if (Array.isArray(data)) return list(data, path, parseQueueEntry);
+  if (data === null || typeof data !== "object") return undefined;
+  const o = data as Record<string, unknown>;
+  if (Array.isArray(o.entries)) return list(o.entries, `${path}.entries`, parseQueueEntry);
+  if (Array.isArray(o.queue)) return list(o.queue, `${path}.queue`, parseQueueEntry);
+  return undefined;
+}
+
+function queueTotals(o: Record<string, unknown>, path: string): QueueTotals | undefined {
+  if (o.totalVehicles === undefined || o.availableSeats === undefined) return undefined;
+  return {
+    totalVehicles: number(o, "totalVehicles", path),
+    totalSeats: o.totalSeats === undefined ? undefined : number(o, "totalSeats", path),
+    availableSeats: number(o, "availableSeats", path),
+  };
+}
+
+/**
+ * Parse a queue channel message. Returns null for event types the desk does
+ * not handle; throws a SchemaError when a known event is malformed
+ */
+export const parseQueueEvent: Parser<QueueEvent | null> = (value, path) => {
+  const message = object(value, path);
+  const type = string(message.type, `${path}.type`);
+  if (!(QUEUE_EVENT_TYPES as string[]).includes(type)) return null;
+
+  const dataPath = `${path}.data`;
+  const raw = message.data;
+  const data = raw !== null && typeof raw === "object" && !Array.isArray(raw) ? (raw as Record<string, unknown>) : {};
+  const base: EventBase = {
+    destinationId: optionalText(data, "destinationId", dataPath) ?? optionalText(message, "destinationId", path),
+  };
+
+  switch (type as QueueEventType) {
+    case "queue_entry_added":
+      return { ...base, type: "queue_entry_added", entry: parseQueueEntry(raw, dataPath) };
+    case "queue_entry_updated":
+      return {
+        ...base,
+        type: "queue_entry_updated",
+        entryId: requiredText(object(raw, dataPath), "id", dataPath),
+        changes: data,
+      };
+    case "queue_entry_removed":
+      return {
+        ...base,
+        type: "queue_entry_removed",
+        entryId: text(object(raw, dataPath), "entryId", dataPath) || requiredText(data, "id", dataPath),
+      };
+    case "exit_pass_created":
+      return {
+        ...base,
+        type: "exit_pass_created",
+        entryId: optionalText(data, "queueId", dataPath) ?? optionalText(data, "queueEntryId", dataPath),
+        vehicleId: optionalText(data, "vehicleId", dataPath),
+      };
+    case "queue_reordered":
+      return {
+        ...base,
+        type: "queue_reordered",
+        entryIds: Array.isArray(data.entryIds) ? list(data.entryIds, `${dataPath}.entryIds`, string) : undefined,
+        entries: queueEntries(raw, dataPath),
+      };
+    case "queue_updated":
+      return {
+        ...base,
+        type: "queue_updated",
+        entries: queueEntries(raw, dataPath),
+        totals: queueTotals(data, dataPath),
+      };
+    case "day_pass_created":
+      return { ...base, type: "day_pass_created", vehicleId: optionalText(data, "vehicleId", dataPath) };
+  }
+};
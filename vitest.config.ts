@@ -0,0 +1,16 @@
+import { defineConfig } from 'vitest/config'
+import path from 'node:path'
+
+// Separate from vite.config.ts so tests do not start the Electron plugins
+export default defineConfig({
+  resolve: {
+    alias: {
+      '@': path.resolve(__dirname, './src'),
+    },
+  },
+  test: {
+    include: ['src/**/*.test.ts'],
+    environment: 'node',
+    testTimeout: 20000,
+  },
+})